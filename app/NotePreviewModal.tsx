@@ -0,0 +1,191 @@
+import React from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Modal,
+  SafeAreaView,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WebView } from 'react-native-webview';
+import { useStore } from '../store/useStore';
+import { resolveAttachments } from '../store/attachments';
+import { formatTag } from '../store/tags';
+import { getTagAppearance } from '../constants/tagStyles';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { Note } from '../types';
+
+// The note's content as a page to read, with scripts and frames removed
+const previewHtml = (content: string, theme: typeof lightTheme) => {
+  const cleanHtml = resolveAttachments(content)
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '');
+
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0">
+        <style>
+          html, body {
+            background-color: ${theme.background};
+          }
+          body {
+            font-family: -apple-system, system-ui, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif;
+            font-size: 16px;
+            line-height: 1.5;
+            color: ${theme.text};
+            margin: 0;
+            padding: 0 0 24px 0;
+          }
+          img { max-width: 100%; height: auto; }
+          ul, ol { padding-left: 20px; }
+          code { background-color: ${theme.secondary}; padding: 2px 4px; border-radius: 3px; font-family: monospace; }
+          a { color: ${theme.primary}; }
+        </style>
+      </head>
+      <body>
+        ${cleanHtml}
+      </body>
+    </html>
+  `;
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 0;
+
+// Shows a note without opening it in the editor, e.g. to check what a
+// trashed note held before restoring it. Nothing here changes the note.
+const NotePreviewModal = ({
+  note,
+  onClose,
+  onRestore,
+  onDelete
+}: {
+  note: Note | null;
+  onClose: () => void;
+  onRestore?: () => void;
+  onDelete?: () => void;
+}) => {
+  const { isDarkMode, tagStyles } = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  if (!note) return null;
+
+  return (
+    <Modal visible animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} accessibilityLabel="Close preview">
+            <Ionicons name="close" size={24} color={theme.text} />
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: theme.text }]} numberOfLines={1}>
+            {note.title || 'Untitled'}
+          </Text>
+          {onRestore && (
+            <TouchableOpacity onPress={onRestore} style={styles.headerButton} accessibilityLabel="Restore note">
+              <Ionicons name="arrow-undo" size={22} color={theme.primary} />
+            </TouchableOpacity>
+          )}
+          {onDelete && (
+            <TouchableOpacity onPress={onDelete} style={styles.headerButton} accessibilityLabel="Delete note">
+              <Ionicons name="trash" size={22} color={theme.error} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {note.tags.length > 0 && (
+          <View style={styles.tags}>
+            {note.tags.map(tag => (
+              <View
+                key={tag}
+                style={[styles.tag, { backgroundColor: getTagAppearance(tag, tagStyles, theme).color }]}
+              >
+                <Text style={styles.tagText}>{formatTag(tag)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {note.lock ? (
+          // Locked content stays sealed until the note is restored and opened
+          <View style={styles.locked}>
+            <Ionicons name="lock-closed" size={40} color={theme.cardText} />
+            <Text style={[styles.lockedText, { color: theme.cardText }]}>
+              This note is locked. Restore it and open it with its PIN to read it.
+            </Text>
+          </View>
+        ) : (
+          <WebView
+            source={{ html: previewHtml(note.content, theme) }}
+            style={[styles.webView, { backgroundColor: theme.background }]}
+            originWhitelist={['*']}
+            allowFileAccess={true}
+            javaScriptEnabled={false}
+            // Links aren't followed from a preview
+            onShouldStartLoadWithRequest={request => request.url === 'about:blank'}
+            containerStyle={{ backgroundColor: theme.background }}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+export default NotePreviewModal;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginHorizontal: 8,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  tag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  tagText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  webView: {
+    flex: 1,
+  },
+  locked: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  lockedText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
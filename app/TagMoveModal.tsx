@@ -0,0 +1,132 @@
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, ScrollView, Alert } from 'react-native';
+import { useStore } from '../store/useStore';
+import { formatTag, isWithinTag, parentTag, sortTagTree, tagDepth, tagLeaf } from '../store/tags';
+import { lightTheme, darkTheme } from '../constants/theme';
+
+// Picks a new place for a tag, moving everything nested under it along
+// with it. Notes with any of those tags are updated to match.
+const TagMoveModal = ({
+  tag,
+  onClose
+}: {
+  tag: string | null;
+  onClose: () => void;
+}) => {
+  const { isDarkMode, tags, moveTag } = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  if (!tag) return null;
+
+  // A tag can't go under itself or its own nested tags
+  const parents = sortTagTree(tags).filter(other => !isWithinTag(other, tag));
+  const currentParent = parentTag(tag);
+
+  const handleMove = (parent: string | null) => {
+    if (parent === currentParent) {
+      onClose();
+      return;
+    }
+    if (!moveTag(tag, parent)) {
+      Alert.alert('Error', 'This tag could not be moved there.');
+      return;
+    }
+    onClose();
+  };
+
+  const renderOption = (parent: string | null) => (
+    <TouchableOpacity
+      key={parent ?? ''}
+      style={[
+        styles.option,
+        { borderColor: parent === currentParent ? theme.primary : theme.border }
+      ]}
+      onPress={() => handleMove(parent)}
+    >
+      <Text
+        style={[
+          styles.optionText,
+          { color: theme.text, paddingLeft: parent ? tagDepth(parent) * 16 : 0 }
+        ]}
+        numberOfLines={1}
+      >
+        {parent ? formatTag(tagLeaf(parent)) : 'Top level'}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <Text style={[styles.title, { color: theme.text }]}>
+            Move "{formatTag(tag)}"
+          </Text>
+          <Text style={[styles.description, { color: theme.cardText }]}>
+            Choose where it goes. Tags nested under it move too, and every note with them is updated.
+          </Text>
+
+          <ScrollView style={styles.list}>
+            {renderOption(null)}
+            {parents.map(renderOption)}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { borderColor: theme.border }]}
+            onPress={onClose}
+          >
+            <Text style={[styles.optionText, { color: theme.text }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TagMoveModal;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  content: {
+    width: '80%',
+    maxHeight: '70%',
+    padding: 20,
+    borderRadius: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  cancelButton: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+});
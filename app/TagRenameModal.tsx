@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Modal, Alert } from 'react-native';
+import { useStore } from '../store/useStore';
+import { TAG_SEPARATOR, parentTag, tagLeaf } from '../store/tags';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { logger } from '../store/logger';
+
+// Renames the last level of a tag. Tags nested under it and every note
+// with them follow the new name.
+const TagRenameModal = ({
+  tag,
+  onClose
+}: {
+  tag: string | null;
+  onClose: () => void;
+}) => {
+  const { isDarkMode, renameTag } = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    if (tag) setNewName(tagLeaf(tag));
+  }, [tag]);
+
+  if (!tag) return null;
+
+  const handleRename = () => {
+    const parent = parentTag(tag);
+    const renamed = parent ? parent + TAG_SEPARATOR + newName : newName;
+    if (!renameTag(tag, renamed)) {
+      Alert.alert('Error', 'Enter a name that no other tag has.');
+      return;
+    }
+    logger.log('Renamed tag', tag);
+    onClose();
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <Text style={[styles.title, { color: theme.text }]}>Rename Tag</Text>
+          <TextInput
+            style={[
+              styles.nameInput,
+              { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }
+            ]}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="Tag name"
+            placeholderTextColor={theme.cardText}
+            autoFocus
+            onSubmitEditing={handleRename}
+          />
+          <View style={styles.buttons}>
+            <TouchableOpacity
+              style={[styles.button, { borderColor: theme.border }]}
+              onPress={onClose}
+            >
+              <Text style={[styles.buttonText, { color: theme.text }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.primary, borderColor: theme.primary }]}
+              onPress={handleRename}
+            >
+              <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Rename</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TagRenameModal;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  content: {
+    width: '80%',
+    padding: 20,
+    borderRadius: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginBottom: 20,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    width: '45%',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,312 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useStore } from '../store/useStore';
+import { formatTag, tagLeaf } from '../store/tags';
+import { TAG_COLOR_OPTIONS, TAG_ICON_OPTIONS, TagIconName, getTagAppearance } from '../constants/tagStyles';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { ensureContrast, parseHexColor } from '../utils/color';
+import { TagStyle } from '../types';
+
+type ThemeMode = 'light' | 'dark';
+
+// Picks a tag's color for each theme and an optional icon. Colors are
+// darkened where needed so white text on the chip stays readable.
+const TagStyleModal = ({
+  tag,
+  onClose
+}: {
+  tag: string | null;
+  onClose: () => void;
+}) => {
+  const { isDarkMode, tagStyles, setTagStyle } = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const [mode, setMode] = useState<ThemeMode>(isDarkMode ? 'dark' : 'light');
+  const [style, setStyle] = useState<TagStyle>({});
+  const [customColor, setCustomColor] = useState('');
+  const [colorNote, setColorNote] = useState<string | null>(null);
+
+  // Start from the tag's own style each time the modal opens
+  useEffect(() => {
+    if (!tag) return;
+    setStyle(tagStyles[tag] ?? {});
+    setMode(isDarkMode ? 'dark' : 'light');
+    setCustomColor('');
+    setColorNote(null);
+  }, [tag]);
+
+  if (!tag) return null;
+
+  const colorKey = mode === 'light' ? 'lightColor' : 'darkColor';
+  const pickColor = (color: string) => {
+    setStyle({ ...style, [colorKey]: color });
+    setColorNote(null);
+  };
+
+  const handleCustomColor = () => {
+    const parsed = parseHexColor(customColor);
+    if (!parsed) {
+      setColorNote('Enter a color like #2563EB.');
+      return;
+    }
+    const readable = ensureContrast(parsed);
+    setStyle({ ...style, [colorKey]: readable });
+    setColorNote(readable === parsed ? null : `Darkened to ${readable} so white text stays readable.`);
+  };
+
+  const handleSave = () => {
+    const { lightColor, darkColor, icon } = style;
+    const hasStyle = lightColor || darkColor || icon;
+    setTagStyle(tag, hasStyle ? style : null);
+    onClose();
+  };
+
+  const handleReset = () => {
+    setTagStyle(tag, null);
+    onClose();
+  };
+
+  // How the chip will look in one theme, with the choices so far
+  const renderPreview = (previewTheme: typeof lightTheme) => {
+    const { color, icon } = getTagAppearance(tag, { ...tagStyles, [tag]: style }, previewTheme);
+    return (
+      <View style={[styles.previewPane, { backgroundColor: previewTheme.background, borderColor: theme.border }]}>
+        <View style={[styles.chip, { backgroundColor: color }]}>
+          {icon && <Ionicons name={icon} size={14} color="#FFFFFF" style={styles.chipIcon} />}
+          <Text style={styles.chipText} numberOfLines={1}>{formatTag(tagLeaf(tag))}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: theme.card }]}>
+          <ScrollView>
+            <Text style={[styles.title, { color: theme.text }]}>Style "{formatTag(tag)}"</Text>
+
+            <View style={styles.previews}>
+              {renderPreview(lightTheme)}
+              {renderPreview(darkTheme)}
+            </View>
+
+            {/* Colors are chosen separately for each theme */}
+            <View style={[styles.segments, { borderColor: theme.border }]}>
+              {(['light', 'dark'] as ThemeMode[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.segment, mode === option && { backgroundColor: theme.primary }]}
+                  onPress={() => setMode(option)}
+                >
+                  <Text style={[styles.segmentText, { color: mode === option ? '#FFFFFF' : theme.text }]}>
+                    {option === 'light' ? 'Light Theme' : 'Dark Theme'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.grid}>
+              {TAG_COLOR_OPTIONS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: color, borderColor: style[colorKey] === color ? theme.text : 'transparent' }
+                  ]}
+                  onPress={() => pickColor(color)}
+                  accessibilityLabel={`Color ${color}`}
+                />
+              ))}
+            </View>
+
+            <View style={styles.customRow}>
+              <TextInput
+                style={[styles.customInput, { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }]}
+                value={customColor}
+                onChangeText={setCustomColor}
+                placeholder="#RRGGBB"
+                placeholderTextColor={theme.cardText}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleCustomColor}
+              />
+              <TouchableOpacity style={[styles.smallButton, { borderColor: theme.border }]} onPress={handleCustomColor}>
+                <Text style={[styles.buttonText, { color: theme.text }]}>Use</Text>
+              </TouchableOpacity>
+            </View>
+            {colorNote && (
+              <Text style={[styles.note, { color: theme.cardText }]}>{colorNote}</Text>
+            )}
+
+            <Text style={[styles.sectionLabel, { color: theme.cardText }]}>Icon</Text>
+            <View style={styles.grid}>
+              <TouchableOpacity
+                style={[styles.iconOption, { borderColor: !style.icon ? theme.primary : theme.border }]}
+                onPress={() => setStyle({ ...style, icon: undefined })}
+              >
+                <Text style={[styles.buttonText, { color: theme.text }]}>None</Text>
+              </TouchableOpacity>
+              {TAG_ICON_OPTIONS.map((icon: TagIconName) => (
+                <TouchableOpacity
+                  key={icon}
+                  style={[styles.iconOption, { borderColor: style.icon === icon ? theme.primary : theme.border }]}
+                  onPress={() => setStyle({ ...style, icon })}
+                >
+                  <Ionicons name={icon} size={20} color={theme.text} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={[styles.button, { borderColor: theme.border }]} onPress={handleReset}>
+              <Text style={[styles.buttonText, { color: theme.error }]}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, { borderColor: theme.border }]} onPress={onClose}>
+              <Text style={[styles.buttonText, { color: theme.text }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.primary, borderColor: theme.primary }]}
+              onPress={handleSave}
+            >
+              <Text style={[styles.buttonText, { color: '#FFFFFF' }]}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+export default TagStyleModal;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  content: {
+    width: '88%',
+    maxHeight: '80%',
+    padding: 20,
+    borderRadius: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  previews: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  previewPane: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderWidth: 1,
+    borderRadius: 8,
+    marginHorizontal: 4,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 14,
+    maxWidth: '90%',
+  },
+  chipIcon: {
+    marginRight: 4,
+  },
+  chipText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  segments: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 3,
+    margin: 4,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  customInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  smallButton: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  note: {
+    fontSize: 13,
+    marginTop: 6,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  iconOption: {
+    minWidth: 40,
+    height: 40,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+    margin: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
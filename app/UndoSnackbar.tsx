@@ -0,0 +1,81 @@
+import React, { useEffect } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Alert } from 'react-native';
+import { useStore } from '../store/useStore';
+import { lightTheme, darkTheme } from '../constants/theme';
+
+// How long the offer to undo stays on screen
+const UNDO_NOTICE_MS = 5000;
+
+// Offers to undo a destructive action for a few seconds, and to redo it
+// once undone. Shown over every screen so it outlives a navigation.
+const UndoSnackbar = () => {
+  const { isDarkMode, undoNotice, undo, redo, dismissUndoNotice } = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  useEffect(() => {
+    if (!undoNotice) return;
+    const timer = setTimeout(dismissUndoNotice, UNDO_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [undoNotice]);
+
+  if (!undoNotice) return null;
+
+  const handlePress = async () => {
+    const { actionId, action } = undoNotice;
+    const done = action === 'undo' ? await undo(actionId) : await redo(actionId);
+    if (!done) {
+      dismissUndoNotice();
+      Alert.alert(
+        action === 'undo' ? 'Undo' : 'Redo',
+        'The notes involved have changed since, so nothing was changed.'
+      );
+    }
+  };
+
+  return (
+    <View style={[styles.snackbar, { backgroundColor: theme.text }]}>
+      <Text style={[styles.message, { color: theme.background }]} numberOfLines={2}>
+        {undoNotice.message}
+      </Text>
+      <TouchableOpacity onPress={handlePress} style={styles.button}>
+        <Text style={[styles.buttonText, { color: theme.primary }]}>
+          {undoNotice.action === 'undo' ? 'Undo' : 'Redo'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+export default UndoSnackbar;
+
+const styles = StyleSheet.create({
+  snackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    // Above the new note button
+    bottom: 100,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingLeft: 16,
+    paddingVertical: 6,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  message: {
+    flex: 1,
+    fontSize: 15,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useStore } from '../store/useStore';
+import { lightTheme, darkTheme } from '../constants/theme';
+
+// Shown instead of the app while the vault is locked. A wrong passphrase
+// only shows an error; there is deliberately no reset option here.
+const VaultUnlockScreen = () => {
+  const { isDarkMode, unlockVault } = useStore();
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const handleUnlock = async () => {
+    if (!passphrase || unlocking) return;
+    setUnlocking(true);
+    setFailed(false);
+    const unlocked = await unlockVault(passphrase);
+    if (!unlocked) {
+      setUnlocking(false);
+      setFailed(true);
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: theme.background }]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+      <Ionicons name="lock-closed" size={48} color={theme.primary} />
+      <Text style={[styles.title, { color: theme.text }]}>NoteEase is locked</Text>
+      <Text style={[styles.subtitle, { color: theme.cardText }]}>
+        Enter your passphrase to decrypt your notes.
+      </Text>
+
+      <TextInput
+        style={[
+          styles.input,
+          {
+            color: theme.text,
+            backgroundColor: theme.secondary,
+            borderColor: failed ? theme.error : theme.border
+          }
+        ]}
+        value={passphrase}
+        onChangeText={text => {
+          setPassphrase(text);
+          setFailed(false);
+        }}
+        placeholder="Passphrase"
+        placeholderTextColor={theme.cardText}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus
+        editable={!unlocking}
+        onSubmitEditing={handleUnlock}
+        returnKeyType="go"
+      />
+      {failed && (
+        <Text style={[styles.error, { color: theme.error }]}>
+          Incorrect passphrase. Your notes have not been changed.
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: theme.primary, opacity: passphrase ? 1 : 0.5 }]}
+        onPress={handleUnlock}
+        disabled={!passphrase || unlocking}
+      >
+        {unlocking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.buttonText}>Unlock</Text>
+        )}
+      </TouchableOpacity>
+    </KeyboardAvoidingView>
+  );
+};
+
+export default VaultUnlockScreen;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  input: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  error: {
+    alignSelf: 'stretch',
+    fontSize: 14,
+    marginTop: 8,
+  },
+  button: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 14,
+    marginTop: 20,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
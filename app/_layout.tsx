@@ -8,11 +8,13 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import 'react-native-reanimated';
 import { useColorScheme, View, Text, TouchableOpacity, Alert, StyleSheet, Image, Platform, AppState } from 'react-native';
 import { useStore } from '../store/useStore';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getRepository } from '../store/repository';
 import * as Updates from 'expo-updates';
 import * as QuickActions from 'expo-quick-actions';
 import { initializeQuickActions, handleQuickAction } from '../utils/quickActions';
 import LaunchScreen from './LaunchScreen';
+import VaultUnlockScreen from './VaultUnlockScreen';
+import UndoSnackbar from './UndoSnackbar';
 import Constants from 'expo-constants';
 import { SplashScreenTester } from './utils/splashScreenTester';
 
@@ -103,7 +105,7 @@ try {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
-  const { isDarkMode, initialize, isInitialized, resetAppData } = useStore();
+  const { isDarkMode, initialize, isInitialized, resetAppData, vaultLocked } = useStore();
   const [loaded, error] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
@@ -147,9 +149,13 @@ export default function RootLayout() {
     }
   }, [splashHidden]);
 
-  // App state change handler to help with splash screen issues
+  // App state change handler for trash purging and splash screen issues
   useEffect(() => {
     const subscription = AppState.addEventListener('change', nextAppState => {
+      if (appStateRef.current.match(/inactive|background/) && nextAppState === 'active') {
+        // Notes may have outstayed the trash retention while in the background
+        useStore.getState().purgeExpiredTrash();
+      }
       if (
         appStateRef.current.match(/inactive|background/) && 
         nextAppState === 'active' &&
@@ -180,10 +186,7 @@ export default function RootLayout() {
   // Emergency manual reset - totally outside of the store
   const emergencyReset = async () => {
     try {
-      await AsyncStorage.removeItem('noteease-data');
-      await AsyncStorage.removeItem('noteease-theme');
-      await AsyncStorage.removeItem('noteease-categories');
-      await AsyncStorage.clear();
+      await getRepository().clearAll();
       
       Alert.alert(
         "Emergency Reset Complete", 
@@ -325,6 +328,11 @@ export default function RootLayout() {
     );
   }
 
+  // Notes stay encrypted until the passphrase is entered
+  if (vaultLocked) {
+    return <VaultUnlockScreen />;
+  }
+
   // Return the layout with optional splash screen tester
   return (
     <ThemeProvider value={theme}>
@@ -334,6 +342,15 @@ export default function RootLayout() {
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="trash" options={{ headerShown: false }} />
+        <Stack.Screen name="recovery" options={{ headerShown: false }} />
+        <Stack.Screen name="storage" options={{ headerShown: false }} />
+        <Stack.Screen name="vault" options={{ headerShown: false }} />
+        <Stack.Screen name="snapshots" options={{ headerShown: false }} />
+        <Stack.Screen name="backup" options={{ headerShown: false }} />
+        <Stack.Screen name="export" options={{ headerShown: false }} />
+        <Stack.Screen name="import" options={{ headerShown: false }} />
+        <Stack.Screen name="history/[id]" options={{ headerShown: false }} />
+        <Stack.Screen name="tags" options={{ headerShown: false }} />
         <Stack.Screen 
           name="note/[id]" 
           options={{ 
@@ -344,6 +361,9 @@ export default function RootLayout() {
         />
       </Stack>
 
+      {/* Offer to undo destructive actions on any screen */}
+      <UndoSnackbar />
+
       {/* Special transition component to help with splash screen hiding */}
       {isAppReady && !splashHidden && (
         <LaunchScreen onReady={true} />
@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { useStore } from '../store/useStore';
+import { backupsSupported, readBackupFile, summarizeBackup } from '../store/backup';
+import { BackupArchive, BackupContents, Note } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { logger } from '../store/logger';
+
+// Titles listed per section of the summary
+const SUMMARY_TITLES = 5;
+
+// Component for one section of the import summary
+const SummarySection = ({
+  label,
+  notes,
+  color,
+  theme
+}: {
+  label: string;
+  notes: Note[];
+  color: string;
+  theme: typeof lightTheme;
+}) => {
+  if (notes.length === 0) return null;
+
+  return (
+    <View style={styles.summarySection}>
+      <Text style={[styles.summaryLabel, { color }]}>
+        {label} ({notes.length})
+      </Text>
+      {notes.slice(0, SUMMARY_TITLES).map(note => (
+        <Text key={note.id} style={[styles.summaryTitle, { color: theme.cardText }]} numberOfLines={1}>
+          {note.lock ? 'Locked note' : note.title || 'Untitled'}
+        </Text>
+      ))}
+      {notes.length > SUMMARY_TITLES && (
+        <Text style={[styles.summaryTitle, { color: theme.cardText }]}>
+          and {notes.length - SUMMARY_TITLES} more
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function BackupScreen() {
+  const router = useRouter();
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const {
+    notes,
+    isDarkMode,
+    recoveryMode,
+    exportBackup,
+    openBackup,
+    importBackup
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const summary = contents ? summarizeBackup(notes, contents.notes) : null;
+
+  const clearImport = () => {
+    setArchive(null);
+    setContents(null);
+    setNeedsPassphrase(false);
+    setPassphrase('');
+  };
+
+  // Handle writing a backup and handing it to the share sheet
+  const handleExport = async () => {
+    setWorking(true);
+    const uri = await exportBackup();
+    setWorking(false);
+    if (!uri) {
+      Alert.alert('Error', 'Could not create a backup. Please try again.');
+      return;
+    }
+
+    try {
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/json',
+          dialogTitle: 'Save NoteEase Backup',
+          UTI: 'public.json',
+        });
+      } else {
+        Alert.alert('Backup', 'Sharing is not available on this device.');
+      }
+    } catch (error) {
+      logger.error('Error sharing backup:', error);
+      Alert.alert('Error', 'Could not share the backup.');
+    }
+  };
+
+  // Open the archive's contents, asking for a passphrase if it needs one
+  const openArchive = async (picked: BackupArchive, archivePassphrase?: string) => {
+    setWorking(true);
+    try {
+      setContents(await openBackup(picked, archivePassphrase));
+      setNeedsPassphrase(false);
+    } catch (error) {
+      logger.warn('Could not open backup:', error);
+      const message = error instanceof Error ? error.message : '';
+      if (picked.manifest.vaultKdf && !message.startsWith('This backup is damaged')) {
+        if (archivePassphrase !== undefined) {
+          Alert.alert('Incorrect Passphrase', 'That passphrase does not open this backup.');
+        }
+        setNeedsPassphrase(true);
+      } else {
+        Alert.alert('Backup Damaged', message || 'This backup could not be read.');
+        clearImport();
+      }
+    }
+    setWorking(false);
+  };
+
+  // Handle choosing an archive to import
+  const handlePick = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      clearImport();
+      const picked = await readBackupFile(result.assets[0].uri);
+      setArchive(picked);
+      openArchive(picked);
+    } catch (error) {
+      logger.error('Error reading backup file:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'This file could not be read.');
+    }
+  };
+
+  // Handle replacing or merging the current notes
+  const handleImport = (mode: 'replace' | 'merge') => {
+    if (!archive || !contents) return;
+
+    const message = mode === 'replace'
+      ? 'Your current notes, tags and theme will be replaced with the ones in this backup.'
+      : 'Notes from the backup will be added. Where a note is in both, the newer copy is used, and if yours is newer both copies are kept.';
+
+    Alert.alert(
+      mode === 'replace' ? 'Replace Notes' : 'Merge Notes',
+      `${message} A snapshot of your current notes is taken first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: mode === 'replace' ? 'Replace' : 'Merge',
+          style: mode === 'replace' ? 'destructive' : 'default',
+          onPress: async () => {
+            setWorking(true);
+            const imported = await importBackup(archive.manifest, contents, mode);
+            setWorking(false);
+            if (imported) {
+              router.back();
+            } else {
+              Alert.alert('Error', 'Could not import this backup.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Backup</Text>
+      </View>
+
+      {!backupsSupported() ? (
+        <Text style={[styles.emptyText, { color: theme.cardText }]}>
+          Backups are not available on this platform.
+        </Text>
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+          {/* Export */}
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={[styles.cardTitle, { color: theme.text }]}>Export</Text>
+            <Text style={[styles.description, { color: theme.cardText }]}>
+              Save every note, tag, image and your theme to one file you can keep
+              elsewhere or move to another device. Locked notes stay locked, and the file
+              is encrypted with your passphrase when the vault is on.
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.primary }]}
+              onPress={handleExport}
+              disabled={working}
+            >
+              <Text style={styles.buttonText}>Export Backup</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Import */}
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={[styles.cardTitle, { color: theme.text }]}>Import</Text>
+            {recoveryMode ? (
+              <Text style={[styles.description, { color: theme.error }]}>
+                Importing is unavailable while damaged data is waiting for review.
+              </Text>
+            ) : (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.secondary }]}
+                onPress={handlePick}
+                disabled={working}
+              >
+                <Text style={[styles.buttonText, { color: theme.text }]}>Choose Backup File</Text>
+              </TouchableOpacity>
+            )}
+
+            {archive && (
+              <Text style={[styles.description, { color: theme.cardText, marginTop: 12 }]}>
+                Made {new Date(archive.manifest.createdAt).toLocaleString()} · {archive.manifest.noteCount} notes
+                · {archive.manifest.attachmentCount} images
+              </Text>
+            )}
+
+            {needsPassphrase && archive && (
+              <View>
+                <Text style={[styles.description, { color: theme.cardText }]}>
+                  This backup is encrypted. Enter the passphrase it was made with.
+                </Text>
+                <TextInput
+                  style={[styles.input, { color: theme.text, backgroundColor: theme.secondary, borderColor: theme.border }]}
+                  value={passphrase}
+                  onChangeText={setPassphrase}
+                  placeholder="Passphrase"
+                  placeholderTextColor={theme.cardText}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={() => openArchive(archive, passphrase)}
+                />
+              </View>
+            )}
+
+            {working && <ActivityIndicator style={styles.working} color={theme.primary} />}
+
+            {summary && !working && (
+              <View style={styles.summary}>
+                <SummarySection label="New" notes={summary.added} color={theme.success} theme={theme} />
+                <SummarySection label="Updated" notes={summary.updated} color={theme.primary} theme={theme} />
+                <SummarySection label="Conflicting" notes={summary.conflicting} color={theme.accent} theme={theme} />
+                <Text style={[styles.description, { color: theme.cardText }]}>
+                  {summary.unchanged} notes unchanged
+                </Text>
+
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { borderColor: theme.border }]}
+                    onPress={() => handleImport('merge')}
+                  >
+                    <Text style={[styles.actionText, { color: theme.text }]}>Merge</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: theme.error, borderColor: 'transparent' }]}
+                    onPress={() => handleImport('replace')}
+                  >
+                    <Text style={[styles.actionText, { color: '#FFFFFF' }]}>Replace</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingBottom: 60,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  button: {
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginVertical: 8,
+  },
+  working: {
+    marginTop: 16,
+  },
+  summary: {
+    marginTop: 12,
+  },
+  summarySection: {
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  summaryTitle: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 18,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import {
+  ExportResult,
+  exportMarkdown,
+  exportObsidianVault,
+  exportsSupported,
+  shareExport
+} from '../store/exportNotes';
+import { exportStaticSite } from '../store/siteExport';
+import { formatTag } from '../store/tags';
+import { Note, TagStyle } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
+import { logger } from '../store/logger';
+
+interface ExportFormat {
+  id: string;
+  label: string;
+  description: string;
+  // `tags` are those in the chosen scope, including unused ones
+  run: (notes: Note[], name: string, tags: string[], tagStyles: Record<string, TagStyle>) => Promise<ExportResult>;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    description: '.md files with front matter, ready for Git repositories and wikis',
+    run: exportMarkdown,
+  },
+  {
+    id: 'obsidian',
+    label: 'Obsidian Vault',
+    description: 'A folder per tag with linked attachments. Unchanged notes export identically, so exports diff cleanly in Git',
+    run: exportObsidianVault,
+  },
+  {
+    id: 'site',
+    label: 'Web Site',
+    description: 'A static site with an index by tag and search, viewable in any browser',
+    run: exportStaticSite,
+  },
+];
+
+// Share the result of an export and mention any locked notes left out
+const runExport = async (
+  format: ExportFormat,
+  notes: Note[],
+  name: string,
+  tags: string[],
+  tagStyles: Record<string, TagStyle>
+) => {
+  try {
+    const result = await format.run(notes, name, tags, tagStyles);
+    if (!await shareExport(result, `Export ${name}`)) {
+      Alert.alert('Export', 'Sharing is not available on this device.');
+      return;
+    }
+    if (result.skippedLocked > 0) {
+      Alert.alert(
+        'Locked Notes Skipped',
+        `${result.skippedLocked} locked notes were not exported. Open them with their PIN to include them.`
+      );
+    }
+  } catch (error) {
+    logger.error('Error exporting notes:', error);
+    Alert.alert('Error', error instanceof Error ? error.message : 'Could not export notes.');
+  }
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function ExportScreen() {
+  const router = useRouter();
+  const [formatId, setFormatId] = useState(EXPORT_FORMATS[0].id);
+  const [exportingScope, setExportingScope] = useState<string | null>(null);
+
+  const { notes, isDarkMode, tags, tagStyles } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const format = EXPORT_FORMATS.find(option => option.id === formatId) ?? EXPORT_FORMATS[0];
+  const activeNotes = notes.filter(note => !note.isDeleted);
+
+  const scopes = [
+    { id: 'all', label: 'All Notes', notes: activeNotes, tags },
+    ...tags.map(tag => ({
+      id: tag,
+      label: formatTag(tag),
+      notes: activeNotes.filter(note => note.tags.includes(tag)),
+      tags: [tag],
+    })),
+  ].filter(scope => scope.id === 'all' || scope.notes.length > 0);
+
+  const handleExport = async (scope: typeof scopes[number]) => {
+    setExportingScope(scope.id);
+    await runExport(format, scope.notes, scope.id === 'all' ? 'notes' : scope.id, scope.tags, tagStyles);
+    setExportingScope(null);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Export</Text>
+      </View>
+
+      {!exportsSupported() ? (
+        <Text style={[styles.emptyText, { color: theme.cardText }]}>
+          Exporting is not available on this platform.
+        </Text>
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+          {/* Format */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Format</Text>
+          <View style={styles.formatOptions}>
+            {EXPORT_FORMATS.map(option => {
+              const selected = option.id === format.id;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.formatOption,
+                    {
+                      backgroundColor: selected ? theme.primary : 'transparent',
+                      borderColor: selected ? 'transparent' : theme.border
+                    }
+                  ]}
+                  onPress={() => setFormatId(option.id)}
+                >
+                  <Text style={{ color: selected ? '#FFFFFF' : theme.text }}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.rowMeta, { color: theme.cardText }]}>{format.description}</Text>
+
+          {/* Scopes */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Notes</Text>
+          {scopes.map(scope => (
+            <TouchableOpacity
+              key={scope.id}
+              style={[styles.row, { borderColor: theme.border }]}
+              onPress={() => handleExport(scope)}
+              disabled={exportingScope !== null || scope.notes.length === 0}
+            >
+              {scope.id !== 'all' && (
+                <View style={[styles.categoryDot, { backgroundColor: getTagAppearance(scope.id, tagStyles, theme).color }]} />
+              )}
+              <View style={styles.rowContent}>
+                <Text style={[styles.rowTitle, { color: theme.text }]}>{scope.label}</Text>
+                <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                  {scope.notes.length} notes
+                </Text>
+              </View>
+              {exportingScope === scope.id ? (
+                <ActivityIndicator size="small" color={theme.primary} />
+              ) : (
+                <Ionicons name="share-outline" size={20} color={theme.cardText} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingBottom: 60,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  formatOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  formatOption: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  rowMeta: {
+    fontSize: 13,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  categoryDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
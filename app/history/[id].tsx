@@ -0,0 +1,333 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useStore } from '../../store/useStore';
+import { MAX_REVISIONS_PER_NOTE, MAX_REVISION_AGE_DAYS, diffRevision } from '../../store/noteHistory';
+import { DiffLine, NoteRevision, RevisionReason } from '../../types';
+import { lightTheme, darkTheme } from '../../constants/theme';
+import { logger } from '../../store/logger';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+  created: 'Created',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+// Keep changed lines and a little context, folding long unchanged runs
+const foldDiff = (lines: DiffLine[]): DiffRow[] => {
+  const near = (index: number) =>
+    lines
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some(line => line.type !== 'same');
+
+  const rows: DiffRow[] = [];
+  lines.forEach((line, index) => {
+    if (line.type !== 'same' || near(index)) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last && last.type === 'skipped') last.count++;
+    else rows.push({ type: 'skipped', count: 1 });
+  });
+  return rows;
+};
+
+// Component for the changes between a revision and the note now
+const DiffView = ({
+  lines,
+  theme
+}: {
+  lines: DiffLine[];
+  theme: typeof lightTheme;
+}) => {
+  if (!lines.some(line => line.type !== 'same')) {
+    return (
+      <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+        Same text as the current version
+      </Text>
+    );
+  }
+
+  return (
+    <View style={[styles.diff, { backgroundColor: theme.secondary }]}>
+      {foldDiff(lines).map((row, index) =>
+        row.type === 'skipped' ? (
+          <Text key={index} style={[styles.diffLine, { color: theme.cardText }]}>
+            ⋯ {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+          </Text>
+        ) : (
+          <Text
+            key={index}
+            style={[
+              styles.diffLine,
+              {
+                color: row.type === 'added' ? theme.success : row.type === 'removed' ? theme.error : theme.text,
+                textDecorationLine: row.type === 'removed' ? 'line-through' : 'none'
+              }
+            ]}
+          >
+            {row.type === 'added' ? '+ ' : row.type === 'removed' ? '− ' : '  '}
+            {row.text}
+          </Text>
+        )
+      )}
+    </View>
+  );
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function NoteHistoryScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const {
+    notes,
+    isDarkMode,
+    recoveryMode,
+    getNoteHistory,
+    restoreRevision
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const note = notes.find(note => note.id === id);
+
+  const refreshHistory = useCallback(() => {
+    getNoteHistory(id)
+      .then(setRevisions)
+      .catch(error => {
+        logger.error('Error loading note history:', error);
+        setRevisions([]);
+      });
+  }, [id]);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory, note?.updatedAt]);
+
+  // Handle bringing back an earlier version
+  const handleRestore = (revision: NoteRevision) => {
+    Alert.alert(
+      'Restore Version',
+      `The note will go back to how it was on ${new Date(revision.savedAt).toLocaleString()}. The current version stays in the history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setRestoring(true);
+            const restored = await restoreRevision(id, revision.id);
+            setRestoring(false);
+            if (restored) {
+              router.back();
+            } else {
+              Alert.alert('Error', 'Could not restore this version.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderRevision = ({ item, index }: { item: NoteRevision; index: number }) => {
+    const selected = item.id === selectedId;
+    // The newest revision is what the note holds now
+    const isCurrent = index === 0;
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, { backgroundColor: theme.card, borderColor: selected ? theme.primary : theme.border }]}
+        onPress={() => setSelectedId(selected ? null : item.id)}
+        disabled={isCurrent}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardTitle, { color: theme.text }]}>
+            {new Date(item.savedAt).toLocaleString()}
+          </Text>
+          {isCurrent && (
+            <Text style={[styles.currentLabel, { color: theme.primary }]}>Current</Text>
+          )}
+        </View>
+        <Text style={[styles.cardMeta, { color: theme.cardText }]} numberOfLines={1}>
+          {REASON_LABELS[item.reason] || item.reason} · {item.title || 'Untitled'}
+        </Text>
+
+        {selected && note && (
+          <View style={styles.preview}>
+            <Text style={[styles.sectionLabel, { color: theme.cardText }]}>Changes since this version</Text>
+            <DiffView lines={diffRevision(item, note)} theme={theme} />
+
+            {recoveryMode ? (
+              <Text style={[styles.cardMeta, { color: theme.error }]}>
+                Restoring is unavailable while damaged data is waiting for review.
+              </Text>
+            ) : (
+              <TouchableOpacity
+                style={[styles.restoreButton, { backgroundColor: theme.primary }]}
+                onPress={() => handleRestore(item)}
+                disabled={restoring}
+              >
+                {restoring ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.restoreButtonText}>Restore This Version</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>History</Text>
+      </View>
+
+      {!note ? (
+        <Text style={[styles.emptyText, { color: theme.cardText }]}>This note no longer exists.</Text>
+      ) : note.lock ? (
+        <Text style={[styles.emptyText, { color: theme.cardText }]}>
+          Locked notes keep no history, so their content is never stored without the PIN.
+        </Text>
+      ) : !revisions ? (
+        <ActivityIndicator style={styles.loading} color={theme.primary} />
+      ) : (
+        <FlatList
+          data={revisions}
+          keyExtractor={item => item.id}
+          renderItem={renderRevision}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <Text style={[styles.description, { color: theme.cardText }]}>
+              Each save is kept for {MAX_REVISION_AGE_DAYS} days, up to {MAX_REVISIONS_PER_NOTE} versions
+              per note. Tap a version to see what has changed since.
+            </Text>
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: theme.cardText }]}>
+              No earlier versions yet. One is kept each time you save this note.
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    paddingBottom: 60,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  currentLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  preview: {
+    marginTop: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  diff: {
+    borderRadius: 8,
+    padding: 10,
+  },
+  diffLine: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    lineHeight: 19,
+  },
+  restoreButton: {
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 12,
+  },
+  restoreButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
+import { useStore } from '../store/useStore';
+import { readImportFile } from '../store/importNotes';
+import { ImportPreviewItem } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { logger } from '../store/logger';
+
+// Component for one note in the import and what it will become
+const PreviewRow = ({
+  item,
+  isDuplicate,
+  theme
+}: {
+  item: ImportPreviewItem;
+  isDuplicate: boolean;
+  theme: typeof lightTheme;
+}) => (
+  <View style={[styles.row, { borderColor: theme.border }]}>
+    <Ionicons
+      name={!item.note ? 'alert-circle-outline' : isDuplicate ? 'checkmark-circle-outline' : 'document-text-outline'}
+      size={22}
+      color={item.note ? theme.cardText : theme.error}
+      style={styles.rowIcon}
+    />
+    <View style={styles.rowContent}>
+      <Text style={[styles.rowTitle, { color: isDuplicate ? theme.cardText : theme.text }]} numberOfLines={1}>
+        {item.note ? item.note.title || 'Untitled' : item.fileName}
+      </Text>
+      {item.note ? (
+        <Text style={[styles.rowMeta, { color: theme.cardText }]} numberOfLines={1}>
+          {isDuplicate
+            ? 'Already imported'
+            : `${item.fileName} · ${item.note.tags.length > 0 ? item.note.tags.join(', ') : 'untagged'}${item.note.isDeleted ? ' · trash' : ''}`}
+        </Text>
+      ) : (
+        <Text style={[styles.rowMeta, { color: theme.error }]}>{item.error}</Text>
+      )}
+      {item.note && item.warning && !isDuplicate && (
+        <Text style={[styles.rowMeta, { color: theme.error }]}>{item.warning}</Text>
+      )}
+    </View>
+  </View>
+);
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function ImportScreen() {
+  const router = useRouter();
+  const [items, setItems] = useState<ImportPreviewItem[]>([]);
+  const [reading, setReading] = useState(false);
+
+  const [importing, setImporting] = useState(false);
+
+  const {
+    notes,
+    isDarkMode,
+    recoveryMode,
+    importNotes
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  // Notes from Keep and Evernote keep an id from their source, so ones
+  // imported before are recognised
+  const existingIds = new Set(notes.map(note => note.id));
+  const isDuplicate = (item: ImportPreviewItem) => !!item.note?.id && existingIds.has(item.note.id);
+  const readable = items.filter(item => item.note);
+  const importable = readable.filter(item => !isDuplicate(item));
+  const duplicates = readable.length - importable.length;
+  const failed = items.length - readable.length;
+
+  // Handle choosing the files to import
+  const handlePick = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        multiple: true,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      setReading(true);
+      const previews: ImportPreviewItem[] = [];
+      for (const asset of result.assets) {
+        previews.push(...await readImportFile({ name: asset.name, uri: asset.uri, size: asset.size }));
+      }
+      setItems(previews);
+    } catch (error) {
+      logger.error('Error picking import files:', error);
+      Alert.alert('Error', 'Could not open the chosen files.');
+    }
+    setReading(false);
+  };
+
+  // Handle adding every note that could be read and isn't there already
+  const handleImport = async () => {
+    setImporting(true);
+    const added = await importNotes(importable.map(({ note }) => note!));
+    setImporting(false);
+
+    logger.log(`Imported ${added} notes, ${duplicates} already imported, ${failed} failed`);
+    Alert.alert('Import', `Imported ${added} notes.`, [
+      { text: 'OK', onPress: () => router.back() }
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Import</Text>
+      </View>
+
+      {recoveryMode ? (
+        <Text style={[styles.emptyText, { color: theme.error }]}>
+          Importing is unavailable while damaged data is waiting for review.
+        </Text>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item, index) => `${index}-${item.fileName}`}
+          renderItem={({ item }) => <PreviewRow item={item} isDuplicate={isDuplicate(item)} theme={theme} />}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <View>
+              <Text style={[styles.description, { color: theme.cardText }]}>
+                Markdown (.md) and plain text (.txt) files become notes. Front matter sets the
+                title and tags. Google Keep notes from Takeout (.json, .html or the whole .zip)
+                and Evernote exports (.enex) keep their dates, labels and checklists.
+              </Text>
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.secondary }]}
+                onPress={handlePick}
+                disabled={reading}
+              >
+                <Text style={[styles.buttonText, { color: theme.text }]}>Choose Files</Text>
+              </TouchableOpacity>
+              {reading && <ActivityIndicator style={styles.loading} color={theme.primary} />}
+              {items.length > 0 && (
+                <Text style={[styles.summary, { color: theme.text }]}>
+                  {importable.length} of {items.length} notes ready to import
+                  {duplicates > 0 ? ` · ${duplicates} already imported` : ''}
+                  {failed > 0 ? ` · ${failed} can't be imported` : ''}
+                </Text>
+              )}
+            </View>
+          }
+          ListFooterComponent={
+            importable.length > 0 ? (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.primary }]}
+                onPress={handleImport}
+                disabled={importing}
+              >
+                {importing ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.buttonText}>
+                    Import {importable.length} {importable.length === 1 ? 'Note' : 'Notes'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  list: {
+    paddingBottom: 60,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  button: {
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loading: {
+    marginTop: 16,
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rowIcon: {
+    marginRight: 12,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+  },
+  rowMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -13,54 +13,53 @@ import {
   Image,
   useWindowDimensions,
   Linking,
-  Alert
+  Alert,
+  Modal
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import * as SystemUI from 'expo-system-ui';
 import { useStore } from '../store/useStore';
-import { Note, NoteCategory } from '../types';
+import { Note, TagStyle } from '../types';
 import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
 import { WebView } from 'react-native-webview';
+import { resolveAttachments } from '../store/attachments';
+import { formatBytes } from '../store/storageUsage';
+import { snapshotsSupported } from '../store/snapshots';
+import { childTags, countTagNotes, formatTag, hasChildTags, parentTag, tagLeaf } from '../store/tags';
+import TagMoveModal from './TagMoveModal';
+import TagRenameModal from './TagRenameModal';
+import TagStyleModal from './TagStyleModal';
+import { logger } from '../store/logger';
 
-// Only log in development mode
-const logger = {
-  log: (...args: any[]) => {
-    if (__DEV__) console.log(...args);
-  },
-  warn: (...args: any[]) => {
-    if (__DEV__) console.warn(...args);
-  },
-  error: (...args: any[]) => {
-    if (__DEV__) console.error(...args);
-  }
-};
-
-// Component for category buttons
+// Component for tag filter buttons. Tags with others nested under them
+// can be opened to filter by those.
 const CategoryButton = ({ 
-  category,
+  tag,
+  label,
+  count,
   active,
   onPress,
+  onLongPress,
+  onOpen,
+  tagStyles,
   theme
 }: { 
-  category: NoteCategory, 
+  tag: string, 
+  label: string,
+  count: number,
   active: boolean, 
   onPress: () => void,
+  onLongPress?: () => void,
+  onOpen?: () => void,
+  tagStyles: Record<string, TagStyle>,
   theme: typeof lightTheme 
 }) => {
-  const getLabel = () => {
-    switch(category) {
-      case 'all': return 'All';
-      case 'personal': return 'Personal';
-      case 'work': return 'Work';
-      case 'family': return 'Family';
-      default: return '';
-    }
-  };
-
+  const { color, icon } = getTagAppearance(tag, tagStyles, theme);
   const backgroundColor = active 
-    ? theme.tagBackground[category] 
+    ? color 
     : 'transparent';
   
   const textColor = active 
@@ -74,10 +73,20 @@ const CategoryButton = ({
         { backgroundColor, borderColor: active ? 'transparent' : theme.border }
       ]}
       onPress={onPress}
+      onLongPress={onLongPress}
     >
+      {icon && <Ionicons name={icon} size={14} color={textColor} style={styles.tagIcon} />}
       <Text style={[styles.categoryText, { color: textColor }]}>
-        {getLabel()}
+        {label}
       </Text>
+      <Text style={[styles.tagCount, { color: textColor }]}>
+        {count}
+      </Text>
+      {onOpen && (
+        <TouchableOpacity onPress={onOpen} hitSlop={10} style={styles.openTagButton}>
+          <Ionicons name="chevron-forward" size={14} color={textColor} />
+        </TouchableOpacity>
+      )}
     </TouchableOpacity>
   );
 };
@@ -87,36 +96,42 @@ const NoteCard = ({
   note, 
   onPress,
   onPin,
+  tagStyles,
   theme
 }: { 
   note: Note, 
   onPress: () => void,
   onPin: () => void,
+  tagStyles: Record<string, TagStyle>,
   theme: typeof lightTheme 
 }) => {
   const { width } = useWindowDimensions();
   
   // Process the HTML content for preview
   const processContent = () => {
+    // Point attachment references at their files. Locked notes have no
+    // preview since their content is sealed.
+    const noteContent = note.lock ? '' : resolveAttachments(note.content);
+    
     // Create a plain text version for checking if content exists
-    const plainText = note.content
+    const plainText = noteContent
       .replace(/<[^>]*>/g, '') // Remove HTML tags
       .trim();
     
     // Clean and prepare HTML content
-    let cleanHtml = note.content;
+    let cleanHtml = noteContent;
     // Remove script and iframe tags for security
     cleanHtml = cleanHtml
       .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
       .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '');
     
     // Check if the content has images
-    const hasImages = note.content.includes('<img');
+    const hasImages = noteContent.includes('<img');
     
     // Extract first image if there is one, and remove it from HTML preview
     let firstImageSrc = null;
     if (hasImages) {
-      const imgMatch = note.content.match(/<img[^>]+src="([^"]+)"[^>]*>/);
+      const imgMatch = noteContent.match(/<img[^>]+src="([^"]+)"[^>]*>/);
       if (imgMatch && imgMatch[1]) {
         firstImageSrc = imgMatch[1];
         // Remove all images from the HTML to avoid displaying them twice
@@ -252,11 +267,14 @@ const NoteCard = ({
     >
       <View style={styles.noteHeader}>
         <Text style={[styles.noteTitle, { color: theme.text }]}>{note.title || 'Untitled'}</Text>
+        {note.lock && (
+          <Ionicons name="lock-closed" size={18} color={theme.cardText} style={styles.lockIcon} />
+        )}
         <TouchableOpacity onPress={onPin} style={styles.pinButton} hitSlop={10}>
           <Ionicons 
             name={note.isPinned ? "heart" : "heart-outline"} 
             size={20} 
-            color={theme.getTagColor(note.category)} 
+            color={note.tags.length > 0 ? getTagAppearance(note.tags[0], tagStyles, theme).color : theme.primary} 
           />
         </TouchableOpacity>
       </View>
@@ -283,6 +301,7 @@ const NoteCard = ({
               showsVerticalScrollIndicator={false}
               showsHorizontalScrollIndicator={false}
               originWhitelist={['*']}
+              allowFileAccess={true}
               javaScriptEnabled={true}
               domStorageEnabled={true}
               onNavigationStateChange={(event) => {
@@ -343,18 +362,25 @@ const NoteCard = ({
           {formatDate(note.createdAt)}
         </Text>
         
-        {note.category !== 'all' && (
-          <View 
-            style={[
-              styles.noteCategory, 
-              { backgroundColor: theme.getTagColor(note.category) }
-            ]}
-          >
-            <Text style={styles.noteCategoryText}>
-              {note.category.charAt(0).toUpperCase() + note.category.slice(1)}
-            </Text>
-          </View>
-        )}
+        <View style={styles.noteTags}>
+          {note.tags.map(tag => {
+            const { color, icon } = getTagAppearance(tag, tagStyles, theme);
+            return (
+              <View 
+                key={tag}
+                style={[
+                  styles.noteCategory, 
+                  { backgroundColor: color }
+                ]}
+              >
+                {icon && <Ionicons name={icon} size={12} color="#FFFFFF" style={styles.tagIcon} />}
+                <Text style={styles.noteCategoryText}>
+                  {formatTag(tag)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
       </View>
     </TouchableOpacity>
   );
@@ -365,25 +391,73 @@ export default function HomeScreen() {
   const router = useRouter();
   const [storageErrorShown, setStorageErrorShown] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  // The tag whose nested tags the filter bar shows; null for the top level
+  const [tagLevel, setTagLevel] = useState<string | null>(null);
+  const [movingTag, setMovingTag] = useState<string | null>(null);
+  // The tag whose actions were opened with a long press
+  const [actionTag, setActionTag] = useState<string | null>(null);
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [stylingTag, setStylingTag] = useState<string | null>(null);
   
   const { 
     notes,
     filteredNotes,
-    activeCategory,
+    activeTags,
+    tagFilterMode,
+    showUntagged,
+    tags,
+    tagStyles,
     searchQuery,
     isDarkMode,
     initialize,
     toggleTheme,
-    setActiveCategory,
+    setActiveTags,
+    toggleActiveTag,
+    setShowUntagged,
+    setTagFilterMode,
+    setInitialNoteTags,
     setSearchQuery,
     filterNotes,
     pinNote,
     unpinNote,
-    resetAppData
+    resetAppData,
+    recoveryMode,
+    persistenceStatus,
+    storageWarning,
+    vaultEnabled,
+    undoLabel,
+    redoLabel,
+    undo,
+    redo
   } = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  // Back to the top level once the open tag is moved or removed
+  const openTagLevel = tagLevel && tags.includes(tagLevel) ? tagLevel : null;
   SystemUI.setBackgroundColorAsync(theme.background);
 
+  // Filter chips count notes outside the trash, nested tags included
+  const activeNotes = useMemo(() => notes.filter(note => !note.isDeleted), [notes]);
+  const tagCounts = useMemo(
+    () => new Map(tags.map(tag => [tag, countTagNotes(activeNotes, tag)])),
+    [tags, activeNotes]
+  );
+  const untaggedCount = activeNotes.filter(note => note.tags.length === 0).length;
+
+  // Describe whether the latest changes have reached disk
+  const getSaveStatusLabel = () => {
+    switch (persistenceStatus.state) {
+      case 'saving': return 'Saving…';
+      case 'error': return 'Changes not saved';
+      default:
+        if (!persistenceStatus.lastSavedAt) return null;
+        return `Saved ${new Date(persistenceStatus.lastSavedAt).toLocaleTimeString('en-US', {
+          hour: 'numeric',
+          minute: '2-digit'
+        })}`;
+    }
+  };
+  const saveStatusLabel = getSaveStatusLabel();
+
   // Count of deleted notes (for trash badge)
   const trashCount = notes.filter(note => note.isDeleted).length;
 
@@ -421,13 +495,21 @@ export default function HomeScreen() {
   // Handle manual reset app data
   const handleResetApp = async () => {
     try {
-      // Cast to any to avoid TypeScript errors with optional function
-      await (resetAppData as any)?.();
+      const success = await resetAppData?.();
+      if (!success) {
+        Alert.alert("Reset Failed", "Could not reset the app data. Please try again.");
+        return;
+      }
       setStorageErrorShown(true);
-      Alert.alert("App Reset", "All app data has been cleared.");
+      Alert.alert(
+        "App Reset",
+        snapshotsSupported()
+          ? "All app data has been cleared. Use Undo or the Snapshots screen to bring it back."
+          : "All app data has been cleared."
+      );
     } catch (err) {
       logger.error("Error resetting app:", err);
-      Alert.alert("Reset Failed", "Could not reset the app data.");
+      Alert.alert("Reset Failed", "Could not reset the app data. Please try again.");
     }
   };
   
@@ -436,20 +518,17 @@ export default function HomeScreen() {
     if (showResetConfirm) {
       Alert.alert(
         "Reset App Data",
-        "Are you sure you want to reset the app? This will delete ALL your notes and settings and cannot be undone.",
+        snapshotsSupported()
+          ? "Are you sure you want to reset the app? This will delete ALL your notes and settings. A snapshot is taken first, so the reset can be undone from the Snapshots screen."
+          : "Are you sure you want to reset the app? This will delete ALL your notes and settings and cannot be undone.",
         [
           { text: "Cancel", style: "cancel", onPress: () => setShowResetConfirm(false) },
           { 
             text: "Reset", 
             style: "destructive", 
             onPress: async () => {
-              const success = await resetAppData();
               setShowResetConfirm(false);
-              if (success) {
-                Alert.alert("Success", "App has been reset. All data has been cleared.");
-              } else {
-                Alert.alert("Error", "Failed to reset app data. Please try again.");
-              }
+              await handleResetApp();
             }
           }
         ]
@@ -466,6 +545,13 @@ export default function HomeScreen() {
     }
   };
 
+  // Start a note that already has the tag
+  const handleNewNoteWithTag = (tag: string) => {
+    setActionTag(null);
+    setInitialNoteTags([tag]);
+    goToNoteEditor();
+  };
+
   // Handle pin/unpin
   const handlePinPress = (note: Note) => {
     if (note.isPinned) {
@@ -475,13 +561,30 @@ export default function HomeScreen() {
     }
   };
 
+  // Step back or forward through this session's changes
+  const handleUndo = async () => {
+    if (!await undo()) {
+      Alert.alert("Undo", "The notes involved have changed since, so nothing was changed.");
+    }
+  };
+
+  const handleRedo = async () => {
+    if (!await redo()) {
+      Alert.alert("Redo", "The notes involved have changed since, so nothing was changed.");
+    }
+  };
+
   // Navigate to trash
   const goToTrash = () => {
     router.push('/trash');
   };
 
-  // Categories
-  const categories: NoteCategory[] = ['all', 'personal', 'work', 'family',];
+  // Send the user to review damaged data as soon as recovery mode starts
+  useEffect(() => {
+    if (recoveryMode) {
+      router.push('/recovery');
+    }
+  }, [recoveryMode]);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
@@ -489,8 +592,38 @@ export default function HomeScreen() {
       
       {/* Header */}
       <View style={styles.header}>
-        <Text style={[styles.title, { color: theme.text }]}>My Notes</Text>
+        <View>
+          <Text style={[styles.title, { color: theme.text }]}>My Notes</Text>
+          {saveStatusLabel && (
+            <Text 
+              style={[
+                styles.saveStatus, 
+                { color: persistenceStatus.state === 'error' ? theme.error : theme.cardText }
+              ]}
+            >
+              {saveStatusLabel}
+            </Text>
+          )}
+        </View>
         <View style={styles.headerRight}>
+          {undoLabel && (
+            <TouchableOpacity 
+              onPress={handleUndo} 
+              style={styles.themeToggle}
+              accessibilityLabel={`Undo: ${undoLabel}`}
+            >
+              <Ionicons name="arrow-undo-outline" size={24} color={theme.text} />
+            </TouchableOpacity>
+          )}
+          {redoLabel && (
+            <TouchableOpacity 
+              onPress={handleRedo} 
+              style={styles.themeToggle}
+              accessibilityLabel={`Redo: ${redoLabel}`}
+            >
+              <Ionicons name="arrow-redo-outline" size={24} color={theme.text} />
+            </TouchableOpacity>
+          )}
           <TouchableOpacity onPress={goToTrash} style={styles.trashButton}>
             <Ionicons name="trash-outline" size={24} color={theme.text} />
             {trashCount > 0 && (
@@ -501,6 +634,20 @@ export default function HomeScreen() {
               </View>
             )}
           </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/storage')} style={styles.themeToggle}>
+            <Ionicons 
+              name="pie-chart-outline" 
+              size={24} 
+              color={storageWarning ? theme.error : theme.text} 
+            />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/vault')} style={styles.themeToggle}>
+            <Ionicons 
+              name={vaultEnabled ? "lock-closed-outline" : "lock-open-outline"} 
+              size={24} 
+              color={theme.text} 
+            />
+          </TouchableOpacity>
           <TouchableOpacity onPress={toggleTheme} style={styles.themeToggle}>
             <Ionicons 
               name={isDarkMode ? "sunny-outline" : "moon-outline"} 
@@ -508,7 +655,7 @@ export default function HomeScreen() {
               color={theme.text} 
             />
           </TouchableOpacity>
-          <TouchableOpacity onPress={handleResetApp} style={styles.themeToggle}>
+          <TouchableOpacity onPress={() => setShowResetConfirm(true)} style={styles.themeToggle}>
             <Ionicons 
               name="refresh-circle-outline" 
               size={24} 
@@ -518,6 +665,32 @@ export default function HomeScreen() {
         </View>
       </View>
       
+      {/* Recovery Mode Banner */}
+      {recoveryMode && (
+        <TouchableOpacity 
+          style={[styles.banner, { backgroundColor: theme.error }]}
+          onPress={() => router.push('/recovery')}
+        >
+          <Ionicons name="warning-outline" size={18} color="#FFFFFF" />
+          <Text style={styles.bannerText}>
+            Recovery mode - notes are read-only. Tap to review.
+          </Text>
+        </TouchableOpacity>
+      )}
+      
+      {/* Storage Warning Banner */}
+      {storageWarning && !recoveryMode && (
+        <TouchableOpacity 
+          style={[styles.banner, { backgroundColor: theme.accent }]}
+          onPress={() => router.push('/storage')}
+        >
+          <Ionicons name="alert-circle-outline" size={18} color="#FFFFFF" />
+          <Text style={styles.bannerText}>
+            Your notes are using {formatBytes(storageWarning.usedBytes)} of storage. Tap to free up space.
+          </Text>
+        </TouchableOpacity>
+      )}
+      
       {/* Search Bar */}
       <View style={[styles.searchBar, { backgroundColor: theme.secondary, borderColor: theme.border }]}>
         <Ionicons name="search-outline" size={20} color={theme.cardText} style={styles.searchIcon} />
@@ -535,22 +708,77 @@ export default function HomeScreen() {
         )}
       </View>
       
-      {/* Categories */}
+      {/* Tags */}
       <View style={styles.categoriesContainer}>
       <ScrollView 
         horizontal 
         showsHorizontalScrollIndicator={false} 
+        style={styles.tagList}
       >
-        {categories.map(category => (
+        <CategoryButton
+          tag="all"
+          label="All"
+          count={activeNotes.length}
+          active={activeTags.length === 0 && !showUntagged}
+          onPress={() => setActiveTags([])}
+          tagStyles={tagStyles}
+          theme={theme}
+        />
+        {!openTagLevel && (untaggedCount > 0 || showUntagged) && (
+          <CategoryButton
+            tag="untagged"
+            label="Untagged"
+            count={untaggedCount}
+            active={showUntagged}
+            onPress={() => setShowUntagged(!showUntagged)}
+            tagStyles={tagStyles}
+            theme={theme}
+          />
+        )}
+        {openTagLevel && (
+          <TouchableOpacity
+            style={[styles.categoryButton, styles.tagLevelButton, { borderColor: theme.border }]}
+            onPress={() => setTagLevel(parentTag(openTagLevel))}
+          >
+            <Ionicons name="chevron-back" size={14} color={theme.text} />
+            <Text style={[styles.categoryText, { color: theme.text }]}>
+              {formatTag(tagLeaf(openTagLevel))}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {childTags(tags, openTagLevel).map(tag => (
           <CategoryButton
-            key={category}
-            category={category}
-            active={activeCategory === category}
-            onPress={() => setActiveCategory(category)}
+            key={tag}
+            tag={tag}
+            label={formatTag(tagLeaf(tag))}
+            count={tagCounts.get(tag) ?? 0}
+            active={activeTags.includes(tag)}
+            onPress={() => toggleActiveTag(tag)}
+            onLongPress={() => setActionTag(tag)}
+            onOpen={hasChildTags(tags, tag) ? () => setTagLevel(tag) : undefined}
+            tagStyles={tagStyles}
             theme={theme}
           />
         ))}
       </ScrollView>
+      {/* With several tags chosen, notes can need any or all of them */}
+      {activeTags.length > 1 && (
+        <TouchableOpacity
+          style={[styles.filterModeButton, { borderColor: theme.border }]}
+          onPress={() => setTagFilterMode(tagFilterMode === 'any' ? 'all' : 'any')}
+        >
+          <Text style={[styles.categoryText, { color: theme.text }]}>
+            {tagFilterMode === 'any' ? 'Any' : 'All'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity 
+        onPress={() => router.push('/tags')} 
+        style={styles.manageTagsButton}
+        accessibilityLabel="Manage tags"
+      >
+        <Ionicons name="pricetags-outline" size={20} color={theme.text} />
+      </TouchableOpacity>
       </View>
       {/* Notes List */}
       <FlatList
@@ -561,6 +789,7 @@ export default function HomeScreen() {
             note={item} 
             onPress={() => goToNoteEditor(item.id)}
             onPin={() => handlePinPress(item)}
+            tagStyles={tagStyles}
             theme={theme}
           />
         )}
@@ -582,6 +811,77 @@ export default function HomeScreen() {
       >
         <Ionicons name="add" size={30} color="#FFFFFF" />
       </TouchableOpacity>
+
+      {/* Tag Actions */}
+      <Modal
+        visible={actionTag !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setActionTag(null)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setActionTag(null)}
+        >
+          {actionTag && (
+            <View
+              style={[styles.tagActions, { backgroundColor: theme.card }]}
+              onStartShouldSetResponder={() => true}
+            >
+              <Text style={[styles.tagActionsTitle, { color: theme.text }]} numberOfLines={1}>
+                {formatTag(actionTag)}
+              </Text>
+              {/* Tags can't change while damaged data is waiting for review */}
+              {!recoveryMode && (
+                <>
+                  <TouchableOpacity
+                    style={[styles.tagAction, { borderColor: theme.border }]}
+                    onPress={() => {
+                      setRenamingTag(actionTag);
+                      setActionTag(null);
+                    }}
+                  >
+                    <Ionicons name="create-outline" size={20} color={theme.text} />
+                    <Text style={[styles.tagActionText, { color: theme.text }]}>Rename</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.tagAction, { borderColor: theme.border }]}
+                    onPress={() => {
+                      setStylingTag(actionTag);
+                      setActionTag(null);
+                    }}
+                  >
+                    <Ionicons name="color-palette-outline" size={20} color={theme.text} />
+                    <Text style={[styles.tagActionText, { color: theme.text }]}>Change Color</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.tagAction, { borderColor: theme.border }]}
+                    onPress={() => {
+                      setMovingTag(actionTag);
+                      setActionTag(null);
+                    }}
+                  >
+                    <Ionicons name="git-branch-outline" size={20} color={theme.text} />
+                    <Text style={[styles.tagActionText, { color: theme.text }]}>Move</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity
+                style={[styles.tagAction, { borderColor: theme.border }]}
+                onPress={() => handleNewNoteWithTag(actionTag)}
+              >
+                <Ionicons name="add-circle-outline" size={20} color={theme.text} />
+                <Text style={[styles.tagActionText, { color: theme.text }]}>New Note With This Tag</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Modal>
+
+      <TagRenameModal tag={renamingTag} onClose={() => setRenamingTag(null)} />
+      <TagStyleModal tag={stylingTag} onClose={() => setStylingTag(null)} />
+      <TagMoveModal tag={movingTag} onClose={() => setMovingTag(null)} />
     </SafeAreaView>
   );
 }
@@ -603,6 +903,10 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: 'bold',
   },
+  saveStatus: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -631,6 +935,21 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: 'bold',
   },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  bannerText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+    flex: 1,
+  },
   searchBar: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -653,9 +972,67 @@ const styles = StyleSheet.create({
   },
   categoriesContainer: {
     height: 42,
+    flexDirection: 'row',
     justifyContent:'center',
     alignItems:'center',
   },
+  tagList: {
+    flexShrink: 1,
+  },
+  tagCount: {
+    fontSize: 12,
+    marginLeft: 6,
+    opacity: 0.8,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  tagActions: {
+    width: '80%',
+    padding: 20,
+    borderRadius: 10,
+  },
+  tagActionsTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  tagAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  tagActionText: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 10,
+  },
+  manageTagsButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  openTagButton: {
+    marginLeft: 4,
+  },
+  tagLevelButton: {
+    paddingHorizontal: 12,
+  },
+  filterModeButton: {
+    borderRadius: 20,
+    marginLeft: 8,
+    height: 30,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
   categories: {
     height: 42,
     paddingRight: 16,
@@ -666,6 +1043,7 @@ const styles = StyleSheet.create({
     marginRight: 8,
     height: 30,
     paddingHorizontal: 16,
+    flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     borderWidth: 1,
@@ -674,6 +1052,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontSize: 14,
   },
+  tagIcon: {
+    marginRight: 4,
+  },
   notesList: {
     paddingBottom: 100,
   },
@@ -698,6 +1079,9 @@ const styles = StyleSheet.create({
   pinButton: {
     padding: 4,
   },
+  lockIcon: {
+    marginRight: 4,
+  },
   previewContainer: {
     marginBottom: 10,
   },
@@ -725,10 +1109,21 @@ const styles = StyleSheet.create({
   noteDate: {
     fontSize: 12,
   },
+  noteTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    flexShrink: 1,
+    marginLeft: 8,
+  },
   noteCategory: {
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingHorizontal: 8,
     paddingVertical: 3,
     borderRadius: 12,
+    marginLeft: 4,
+    marginTop: 2,
   },
   noteCategoryText: {
     color: '#FFFFFF',
@@ -23,68 +23,53 @@ import {
   RichToolbar,
 } from "react-native-pell-rich-editor";
 import { useStore } from "../../store/useStore";
-import { NoteCategory } from "../../types";
 import { lightTheme, darkTheme } from "../../constants/theme";
+import { getTagAppearance } from "../../constants/tagStyles";
 import * as ImagePicker from 'expo-image-picker';
+import { resolveAttachments, toAttachmentRefs, saveImageAttachment, attachmentUri } from "../../store/attachments";
+import { MIN_PIN_LENGTH } from "../../store/noteLock";
+import { exportMarkdown, shareExport } from "../../store/exportNotes";
+import { formatTag, isWithinTag, normalizeTags, sameTags, sortTagTree } from "../../store/tags";
+import { TagStyle } from "../../types";
+import { logger } from "../../store/logger";
 
-// Only log in development mode
-const logger = {
-  log: (...args: any[]) => {
-    if (__DEV__) console.log(...args);
-  },
-  warn: (...args: any[]) => {
-    if (__DEV__) console.warn(...args);
-  },
-  error: (...args: any[]) => {
-    if (__DEV__) console.error(...args);
-  }
-};
-
-// Component for category selection
+// Component for tag selection. A note can have any number of tags.
 const CategorySelector = ({
-  selectedCategory,
-  onCategoryChange,
+  selectedTags,
+  onToggleTag,
   theme,
   onAddCustomTag,
   onRemoveCustomTag,
-  customCategories,
+  tags,
+  tagStyles,
 }: {
-  selectedCategory: NoteCategory;
-  onCategoryChange: (category: NoteCategory) => void;
+  selectedTags: string[];
+  onToggleTag: (tag: string) => void;
   theme: typeof lightTheme;
   onAddCustomTag: () => void;
-  onRemoveCustomTag: (category: string) => void;
-  customCategories: string[];
+  onRemoveCustomTag: (tag: string) => void;
+  tags: string[];
+  tagStyles: Record<string, TagStyle>;
 }) => {
-  const defaultCategories: { value: NoteCategory; label: string }[] = [
-    { value: "personal", label: "Personal" },
-    { value: "work", label: "Work" },
-    { value: "family", label: "Family" },
-  ];
+  // Tags on the note that were taken off the list are still shown. Nested
+  // tags follow their parent and show their full path.
+  const allTags = sortTagTree([...tags, ...selectedTags.filter((tag) => !tags.includes(tag))]);
 
-  // Convert custom categories to the same format
-  const customCategoryObjects = customCategories.map((cat) => ({
-    value: cat as NoteCategory,
-    label: cat,
-    isCustom: true,
-  }));
-
-  // Combine both arrays + add the "Custom" button
-  const allCategories = [
-    ...defaultCategories,
-    ...customCategoryObjects,
-    { value: "custom", label: "+ Custom", isCustom: false },
-  ] as Array<{ value: NoteCategory; label: string; isCustom?: boolean }>;
+  // Add the "Custom" button after the tags
+  const options = [
+    ...allTags.map((tag) => ({ value: tag, label: formatTag(tag) })),
+    { value: "custom", label: "+ Custom" },
+  ];
 
   return (
     <View style={styles.categorySelector}>
       <FlatList
-        data={allCategories}
-        keyExtractor={(item) => item.value}
+        data={options}
+        keyExtractor={(item, index) => `${index}-${item.value}`}
         horizontal
         showsHorizontalScrollIndicator={false}
-        renderItem={({ item }) => {
-          if (item.value === "custom") {
+        renderItem={({ item, index }) => {
+          if (index === options.length - 1) {
             // Custom tag creation button
             return (
               <TouchableOpacity
@@ -101,39 +86,31 @@ const CategorySelector = ({
             );
           }
 
+          const selected = selectedTags.includes(item.value);
+          const { color, icon } = getTagAppearance(item.value, tagStyles, theme);
+          const textColor = selected ? "#FFFFFF" : theme.text;
           return (
             <View style={styles.categoryItemContainer}>
               <TouchableOpacity
                 style={[
                   styles.categoryOption,
                   {
-                    backgroundColor:
-                      selectedCategory === item.value
-                        ? theme.getTagColor(item.value)
-                        : "transparent",
-                    borderColor:
-                      selectedCategory === item.value
-                        ? "transparent"
-                        : theme.border,
+                    backgroundColor: selected ? color : "transparent",
+                    borderColor: selected ? "transparent" : theme.border,
                   },
                 ]}
-                onPress={() => onCategoryChange(item.value)}
+                onPress={() => onToggleTag(item.value)}
               >
-                <Text
-                  style={[
-                    styles.categoryLabel,
-                    {
-                      color:
-                        selectedCategory === item.value ? "#FFFFFF" : theme.text,
-                    },
-                  ]}
-                >
+                {icon && (
+                  <Ionicons name={icon} size={14} color={textColor} style={styles.categoryIcon} />
+                )}
+                <Text style={[styles.categoryLabel, { color: textColor }]}>
                   {item.label}
                 </Text>
               </TouchableOpacity>
               
-              {/* Delete button for custom tags */}
-              {item.isCustom && (
+              {/* Delete button for tags on the list */}
+              {tags.includes(item.value) && (
                 <TouchableOpacity
                   style={[
                     styles.removeTagButton,
@@ -153,6 +130,68 @@ const CategorySelector = ({
   );
 };
 
+// Component asking for a locked note's PIN
+const LockedNotePrompt = ({
+  title,
+  pin,
+  onPinChange,
+  onSubmit,
+  isChecking,
+  hasError,
+  theme,
+}: {
+  title: string;
+  pin: string;
+  onPinChange: (pin: string) => void;
+  onSubmit: () => void;
+  isChecking: boolean;
+  hasError: boolean;
+  theme: typeof lightTheme;
+}) => (
+  <View style={styles.lockedContainer}>
+    <Ionicons name="lock-closed" size={40} color={theme.primary} />
+    <Text style={[styles.lockedTitle, { color: theme.text }]}>
+      {title || "Untitled"}
+    </Text>
+    <Text style={[styles.lockedText, { color: theme.cardText }]}>
+      This note is locked. Enter its PIN to open it.
+    </Text>
+    <TextInput
+      style={[
+        styles.pinInput,
+        {
+          color: theme.text,
+          backgroundColor: theme.secondary,
+          borderColor: hasError ? theme.error : theme.border,
+        },
+      ]}
+      value={pin}
+      onChangeText={onPinChange}
+      placeholder="PIN"
+      placeholderTextColor={theme.cardText}
+      keyboardType="number-pad"
+      secureTextEntry
+      autoFocus
+      editable={!isChecking}
+      onSubmitEditing={onSubmit}
+    />
+    {hasError && (
+      <Text style={[styles.lockedText, { color: theme.error }]}>
+        Incorrect PIN.
+      </Text>
+    )}
+    <TouchableOpacity
+      style={[styles.openButton, { backgroundColor: theme.primary, opacity: pin && !isChecking ? 1 : 0.5 }]}
+      onPress={onSubmit}
+      disabled={!pin || isChecking}
+    >
+      <Text style={styles.openButtonText}>
+        {isChecking ? "Checking..." : "Open"}
+      </Text>
+    </TouchableOpacity>
+  </View>
+);
+
 export default function NoteEditorScreen() {
   const richText = useRef<RichEditor>(null);
   const router = useRouter();
@@ -166,11 +205,17 @@ export default function NoteEditorScreen() {
     addNote,
     updateNote,
     deleteNote,
-    customCategories,
-    addCustomCategory,
-    removeCustomCategory,
-    initialNoteCategory,
-    setInitialNoteCategory,
+    tags: allTags,
+    tagStyles,
+    addTag,
+    deleteTag,
+    initialNoteTags,
+    setInitialNoteTags,
+    recoveryMode,
+    lockNote,
+    openLockedNote,
+    closeLockedNote,
+    removeNoteLock,
   } = useStore();
 
   const theme = isDarkMode ? darkTheme : lightTheme;
@@ -182,25 +227,44 @@ export default function NoteEditorScreen() {
 
   // State for the note being edited
   const [title, setTitle] = useState(existingNote?.title || "");
-  const [content, setContent] = useState(existingNote?.content || "");
-  const [category, setCategory] = useState<NoteCategory>(
-    existingNote?.category || initialNoteCategory || "personal"
+  // Locked notes stay sealed until opened with the PIN
+  const [isOpen, setIsOpen] = useState(!existingNote?.lock);
+  // Attachment references are resolved to file URIs while editing
+  const [content, setContent] = useState(
+    existingNote?.lock ? "" : resolveAttachments(existingNote?.content || "")
+  );
+  const [tags, setTags] = useState<string[]>(
+    existingNote?.tags || initialNoteTags || []
   );
   const [isSaved, setIsSaved] = useState(true);
   const [isChanged, setIsChanged] = useState(false);
   const [showTagModal, setShowTagModal] = useState(false);
   const [newTagName, setNewTagName] = useState("");
   const tagInputRef = useRef<TextInput>(null);
+  const [pin, setPin] = useState("");
+  const [pinConfirm, setPinConfirm] = useState("");
+  const [pinError, setPinError] = useState(false);
+  const [isCheckingPin, setIsCheckingPin] = useState(false);
+  const [showLockModal, setShowLockModal] = useState(false);
 
-  // Clear initial category when component unmounts
+  // Clear initial tags when component unmounts
   useEffect(() => {
     return () => {
-      if (setInitialNoteCategory) {
-        setInitialNoteCategory(null);
+      if (setInitialNoteTags) {
+        setInitialNoteTags(null);
       }
     };
   }, []);
 
+  // Forget a locked note's key once the editor closes
+  useEffect(() => {
+    return () => {
+      if (!isNewNote) {
+        closeLockedNote(noteId);
+      }
+    };
+  }, [noteId]);
+
   // Focus the tag input when the modal becomes visible
   useEffect(() => {
     if (showTagModal) {
@@ -231,9 +295,9 @@ export default function NoteEditorScreen() {
     setIsSaved(false);
   };
 
-  // Handle category changes
-  const handleCategoryChange = (newCategory: NoteCategory) => {
-    setCategory(newCategory);
+  // Handle adding or taking off a tag
+  const handleToggleTag = (tag: string) => {
+    setTags(tags.includes(tag) ? tags.filter((existing) => existing !== tag) : [...tags, tag]);
     setIsChanged(true);
     setIsSaved(false);
   };
@@ -247,9 +311,9 @@ export default function NoteEditorScreen() {
   // Handle creating a new custom tag
   const handleCreateTag = () => {
     if (newTagName.trim()) {
-      // Add to custom categories
-      addCustomCategory(newTagName.trim());
-      setCategory(newTagName.trim() as NoteCategory);
+      // Add to the tag list and to this note
+      addTag(newTagName);
+      setTags(normalizeTags([...tags, newTagName]));
       setShowTagModal(false);
       setNewTagName("");
       setIsChanged(true);
@@ -260,22 +324,22 @@ export default function NoteEditorScreen() {
   // Handle removing a custom tag
   const handleRemoveCustomTag = (tagToRemove: string) => {
     Alert.alert(
-      "Remove Tag",
-      `Are you sure you want to remove the "${tagToRemove}" tag?`,
+      "Delete Tag",
+      `Delete the "${tagToRemove}" tag and any nested under it? They're taken off every note that has them.`,
       [
         { text: "Cancel", style: "cancel" },
         {
-          text: "Remove",
+          text: "Delete",
           style: "destructive",
           onPress: () => {
-            // If current note has this category, change to "personal"
-            if (category === tagToRemove) {
-              setCategory("personal");
+            // Take them off this draft too
+            if (tags.some((tag) => isWithinTag(tag, tagToRemove))) {
+              setTags(tags.filter((tag) => !isWithinTag(tag, tagToRemove)));
               setIsChanged(true);
               setIsSaved(false);
             }
             // Remove from store
-            removeCustomCategory(tagToRemove);
+            deleteTag(tagToRemove, null);
           },
         },
       ]
@@ -292,12 +356,20 @@ export default function NoteEditorScreen() {
       return;
     }
 
+    if (recoveryMode) {
+      Alert.alert(
+        "Read-Only",
+        "Your notes are in recovery mode. Review the damaged data before making changes."
+      );
+      return;
+    }
+
     try {
       if (isNewNote) {
         const newNote = {
           title: title.trim() || "Untitled Note",
-          content: content,
-          category: category,
+          content: toAttachmentRefs(content),
+          tags,
           isPinned: false,
           isDeleted: false,
         };
@@ -309,8 +381,8 @@ export default function NoteEditorScreen() {
         
         updateNote(existingNote.id, {
           title: title.trim() || "Untitled Note",
-          content: content,
-          category: category,
+          content: toAttachmentRefs(content),
+          tags,
           // Don't update isPinned or isDeleted state
         });
       }
@@ -332,13 +404,123 @@ export default function NoteEditorScreen() {
     }
   };
 
+  // Open a locked note with its PIN
+  const handleOpenLocked = async () => {
+    if (!pin || isCheckingPin) return;
+    setIsCheckingPin(true);
+    const openedContent = await openLockedNote(noteId, pin);
+    setIsCheckingPin(false);
+    setPin("");
+
+    if (openedContent === null) {
+      setPinError(true);
+      return;
+    }
+    setContent(resolveAttachments(openedContent));
+    setPinError(false);
+    setIsOpen(true);
+  };
+
+  // Lock the note with a new PIN
+  const handleLockNote = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      Alert.alert("PIN Too Short", `Use at least ${MIN_PIN_LENGTH} digits.`);
+      return;
+    }
+    if (pin !== pinConfirm) {
+      Alert.alert("PINs Differ", "The PIN and its confirmation do not match.");
+      return;
+    }
+
+    setIsCheckingPin(true);
+    const locked = await lockNote(noteId, pin);
+    setIsCheckingPin(false);
+    setPin("");
+    setPinConfirm("");
+    setShowLockModal(false);
+
+    if (!locked) {
+      Alert.alert("Error", "Could not lock this note. Please try again.");
+    }
+  };
+
+  // Handle the header lock button
+  const handleLockPress = () => {
+    if (!existingNote?.lock) {
+      setPin("");
+      setPinConfirm("");
+      setShowLockModal(true);
+      return;
+    }
+    Alert.alert(
+      "Remove Lock",
+      "This note's content will no longer need a PIN and will be stored unencrypted.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () => {
+            if (!removeNoteLock(noteId)) {
+              Alert.alert("Error", "Could not remove the lock. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Handle exporting the saved note as Markdown
+  const handleExport = async () => {
+    if (!existingNote) return;
+    if (isChanged && !isSaved) {
+      Alert.alert("Unsaved Changes", "Save the note first to include your latest changes.");
+      return;
+    }
+    try {
+      const result = await exportMarkdown([existingNote], existingNote.title || "note");
+      if (!(await shareExport(result, "Export Note"))) {
+        Alert.alert("Export", "Sharing is not available on this device.");
+      }
+    } catch (error) {
+      logger.error("Error exporting note:", error);
+      Alert.alert("Error", "Could not export this note.");
+    }
+  };
+
+  // Handle opening the saved versions of the note
+  const handleHistory = () => {
+    if (!existingNote) return;
+    if (isChanged && !isSaved) {
+      Alert.alert("Unsaved Changes", "Save the note first so its history includes your latest changes.");
+      return;
+    }
+    router.push(`/history/${existingNote.id}`);
+  };
+
+  // Show a version restored from the history screen
+  useEffect(() => {
+    if (!existingNote || existingNote.lock || (isChanged && !isSaved)) return;
+    if (
+      title === existingNote.title &&
+      toAttachmentRefs(content) === existingNote.content &&
+      sameTags(tags, existingNote.tags)
+    ) return;
+
+    const restoredContent = resolveAttachments(existingNote.content);
+    setTitle(existingNote.title);
+    setContent(restoredContent);
+    setTags(existingNote.tags);
+    richText.current?.setContentHTML(restoredContent);
+  }, [existingNote?.updatedAt]);
+
   // Track changes to mark note as unsaved when editing existing note
   useEffect(() => {
     if (existingNote) {
       const hasChanges =
         title !== existingNote.title ||
-        content !== existingNote.content ||
-        category !== existingNote.category;
+        (!existingNote.lock && toAttachmentRefs(content) !== existingNote.content) ||
+        !sameTags(tags, existingNote.tags);
 
       if (hasChanges) {
         setIsChanged(true);
@@ -460,27 +642,38 @@ export default function NoteEditorScreen() {
     }
   };
   
-  // Insert image into editor
-  const insertImageToEditor = (selectedImage: any) => {
-    if (!selectedImage.base64) {
-      Alert.alert('Error', 'Could not process the image. Please try a different one.');
-      return;
-    }
+  // Insert image into editor, stored as an attachment file where supported
+  const insertImageToEditor = async (selectedImage: ImagePicker.ImagePickerAsset) => {
+    let imageSrc: string;
 
-    logger.log('Base64 data available, length:', selectedImage.base64.length);
+    try {
+      const attachmentId = await saveImageAttachment(
+        selectedImage.uri,
+        selectedImage.base64 ?? undefined
+      );
 
-    // Construct the data URL
-    const dataUrl = `data:image/${selectedImage.uri.split('.').pop()};base64,${selectedImage.base64}`;
+      if (attachmentId) {
+        imageSrc = attachmentUri(attachmentId);
+        logger.log('Image stored as attachment:', attachmentId);
+      } else if (selectedImage.base64) {
+        // No file system (web) or the vault is on - fall back to an inline data URL
+        imageSrc = `data:image/${selectedImage.uri.split('.').pop()};base64,${selectedImage.base64}`;
+      } else {
+        Alert.alert('Error', 'Could not process the image. Please try a different one.');
+        return;
+      }
+    } catch (error) {
+      logger.error('Error storing image attachment:', error);
+      Alert.alert('Error', 'Could not save the image. Please try again.');
+      return;
+    }
     
     // Insert to the editor
     if (richText.current) {
-      // Get the current cursor position
-      const currentPosition = richText.current?.getContentHtml() || '';
-      
-      logger.log('Editor found, inserting image as data URL');
+      logger.log('Editor found, inserting image');
       
       // Create the image HTML
-      const imageHtml = `<img src="${dataUrl}" style="max-width: 100%; height: auto;" />`;
+      const imageHtml = `<img src="${imageSrc}" style="max-width: 100%; height: auto;" />`;
       
       // Insert the image
       richText.current.insertHTML(imageHtml);
@@ -498,6 +691,34 @@ export default function NoteEditorScreen() {
     }
   };
 
+  // Locked notes show only their title until the PIN is entered
+  if (!isOpen) {
+    return (
+      <SafeAreaView
+        style={[styles.container, { backgroundColor: theme.background }]}
+      >
+        <StatusBar style={isDarkMode ? "light" : "dark"} />
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={theme.text} />
+          </TouchableOpacity>
+        </View>
+        <LockedNotePrompt
+          title={title}
+          pin={pin}
+          onPinChange={(value) => {
+            setPin(value);
+            setPinError(false);
+          }}
+          onSubmit={handleOpenLocked}
+          isChecking={isCheckingPin}
+          hasError={pinError}
+          theme={theme}
+        />
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView
       style={[styles.container, { backgroundColor: theme.background }]}
@@ -511,6 +732,40 @@ export default function NoteEditorScreen() {
         </TouchableOpacity>
 
         <View style={styles.headerRight}>
+          {/* Export Button */}
+          {!isNewNote && (
+            <TouchableOpacity
+              onPress={handleExport}
+              style={styles.exportButton}
+            >
+              <Ionicons name="share-outline" size={22} color={theme.text} />
+            </TouchableOpacity>
+          )}
+
+          {/* History Button */}
+          {!isNewNote && !existingNote?.lock && (
+            <TouchableOpacity
+              onPress={handleHistory}
+              style={styles.exportButton}
+            >
+              <Ionicons name="time-outline" size={22} color={theme.text} />
+            </TouchableOpacity>
+          )}
+
+          {/* Lock Button */}
+          {!isNewNote && (
+            <TouchableOpacity
+              onPress={handleLockPress}
+              style={styles.lockButton}
+            >
+              <Ionicons
+                name={existingNote?.lock ? "lock-closed" : "lock-open-outline"}
+                size={22}
+                color={theme.text}
+              />
+            </TouchableOpacity>
+          )}
+
           {/* Save Button */}
           <TouchableOpacity
             onPress={saveNote}
@@ -552,14 +807,15 @@ export default function NoteEditorScreen() {
         </View>
       </View>
 
-      {/* Category Selector */}
+      {/* Tag Selector */}
       <CategorySelector
-        selectedCategory={category}
-        onCategoryChange={handleCategoryChange}
+        selectedTags={tags}
+        onToggleTag={handleToggleTag}
         theme={theme}
         onAddCustomTag={handleAddCustomTag}
         onRemoveCustomTag={handleRemoveCustomTag}
-        customCategories={customCategories}
+        tags={allTags}
+        tagStyles={tagStyles}
       />
 
       <KeyboardAvoidingView
@@ -608,6 +864,8 @@ export default function NoteEditorScreen() {
               initialHeight={400}
               disabled={false}
               pasteAsPlainText={true}
+              allowFileAccess={true}
+              allowFileAccessFromFileURLs={true}
               onPaste={(data) => {
                 logger.log('Paste event detected');
               }}
@@ -735,7 +993,7 @@ export default function NoteEditorScreen() {
                   backgroundColor: theme.background,
                 },
               ]}
-              placeholder="Enter tag name"
+              placeholder="Tag name, e.g. work/projectA"
               placeholderTextColor={theme.cardText}
               value={newTagName}
               onChangeText={setNewTagName}
@@ -764,6 +1022,81 @@ export default function NoteEditorScreen() {
           </View>
         </View>
       </Modal>
+
+      {/* Lock Note Modal */}
+      <Modal
+        visible={showLockModal}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setShowLockModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>
+              Lock Note
+            </Text>
+            <Text style={[styles.modalHint, { color: theme.cardText }]}>
+              Snapshots are locked along with the note, but backups you have
+              already exported still contain it unlocked.
+            </Text>
+
+            <TextInput
+              style={[
+                styles.tagInput,
+                {
+                  color: theme.text,
+                  borderColor: theme.border,
+                  backgroundColor: theme.background,
+                },
+              ]}
+              placeholder="New PIN"
+              placeholderTextColor={theme.cardText}
+              value={pin}
+              onChangeText={setPin}
+              keyboardType="number-pad"
+              secureTextEntry
+              autoFocus
+            />
+            <TextInput
+              style={[
+                styles.tagInput,
+                {
+                  color: theme.text,
+                  borderColor: theme.border,
+                  backgroundColor: theme.background,
+                },
+              ]}
+              placeholder="Confirm PIN"
+              placeholderTextColor={theme.cardText}
+              value={pinConfirm}
+              onChangeText={setPinConfirm}
+              keyboardType="number-pad"
+              secureTextEntry
+            />
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, { borderColor: theme.border }]}
+                onPress={() => setShowLockModal(false)}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.text }]}>
+                  Cancel
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.primary }]}
+                onPress={handleLockNote}
+                disabled={isCheckingPin}
+              >
+                <Text style={[styles.modalButtonText, { color: "#FFFFFF" }]}>
+                  {isCheckingPin ? "Locking..." : "Lock"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -801,11 +1134,61 @@ const styles = StyleSheet.create({
     padding: 8,
     marginLeft: 8,
   },
+  lockButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  exportButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  lockedContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 24,
+    paddingBottom: 80,
+  },
+  lockedTitle: {
+    fontSize: 22,
+    fontWeight: "bold",
+    marginTop: 16,
+    textAlign: "center",
+  },
+  lockedText: {
+    fontSize: 15,
+    marginTop: 8,
+    textAlign: "center",
+  },
+  pinInput: {
+    alignSelf: "stretch",
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 18,
+    marginTop: 24,
+    textAlign: "center",
+  },
+  openButton: {
+    alignSelf: "stretch",
+    alignItems: "center",
+    borderRadius: 10,
+    paddingVertical: 14,
+    marginTop: 20,
+  },
+  openButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   categorySelector: {
     flexDirection: "row",
     paddingVertical: 10,
   },
   categoryOption: {
+    flexDirection: "row",
+    alignItems: "center",
     borderWidth: 1,
     marginRight: 8,
     paddingHorizontal: 8,
@@ -816,6 +1199,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "bold",
   },
+  categoryIcon: {
+    marginRight: 4,
+  },
   editorContainer: {
     flex: 1,
     display: 'flex',
@@ -872,6 +1258,12 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     marginBottom: 20,
   },
+  modalHint: {
+    fontSize: 13,
+    textAlign: "center",
+    marginTop: -12,
+    marginBottom: 16,
+  },
   modalButtons: {
     flexDirection: "row",
     justifyContent: "space-between",
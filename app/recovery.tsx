@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  Alert,
+  Share,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import { QuarantinedEntry, loadQuarantinedEntries, salvageNotes } from '../store/recovery';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { logger } from '../store/logger';
+
+const PREVIEW_LENGTH = 400;
+
+// Component for a single quarantined payload
+const QuarantinedEntryCard = ({
+  entry,
+  expanded,
+  onToggle,
+  theme
+}: {
+  entry: QuarantinedEntry;
+  expanded: boolean;
+  onToggle: () => void;
+  theme: typeof lightTheme;
+}) => {
+  const size = entry.payload ? entry.payload.length : 0;
+  const salvageable = entry.payload ? salvageNotes(entry.payload).length : 0;
+
+  return (
+    <TouchableOpacity
+      style={[styles.entryCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+      onPress={onToggle}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={[styles.entryKey, { color: theme.text }]} numberOfLines={1}>
+          {entry.key}
+        </Text>
+        <Ionicons
+          name={expanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={theme.cardText}
+        />
+      </View>
+      <Text style={[styles.entryMeta, { color: theme.cardText }]}>
+        {entry.payload ? `${(size / 1024).toFixed(1)} KB` : 'Unreadable'}
+        {' · '}
+        {salvageable} salvageable notes
+      </Text>
+      <Text style={[styles.entryMeta, { color: theme.error }]} numberOfLines={expanded ? undefined : 1}>
+        {entry.reason}
+      </Text>
+      {expanded && entry.payload && (
+        <Text style={[styles.entryPreview, { color: theme.cardText, backgroundColor: theme.secondary }]}>
+          {entry.payload.length > PREVIEW_LENGTH
+            ? entry.payload.substring(0, PREVIEW_LENGTH) + '…'
+            : entry.payload}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function RecoveryScreen() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<QuarantinedEntry[]>([]);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const {
+    notes,
+    isDarkMode,
+    recoveryMode,
+    finishRecovery,
+    discardRecoveryData
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  // Load the quarantined payloads
+  useEffect(() => {
+    loadQuarantinedEntries()
+      .then(setEntries)
+      .catch(error => logger.error('Error loading quarantined data:', error));
+  }, []);
+
+  // Share the raw quarantined data so it can be kept off the device
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        title: 'NoteEase recovery data',
+        message: JSON.stringify(entries, null, 2)
+      });
+    } catch (error) {
+      logger.error('Error exporting recovery data:', error);
+      Alert.alert('Error', 'Could not export the recovery data.');
+    }
+  };
+
+  // Keep the salvaged notes and leave recovery mode
+  const handleFinish = () => {
+    Alert.alert(
+      'Keep Recovered Notes',
+      `The ${notes.length} recovered notes will replace the damaged data. The quarantined copy is kept until you discard it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Continue',
+          onPress: async () => {
+            const success = await finishRecovery();
+            if (success) {
+              router.replace('/');
+            } else {
+              Alert.alert('Error', 'Could not save the recovered notes. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Permanently delete the quarantined data
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Damaged Data',
+      'The quarantined data will be permanently deleted. Export it first if you may need it. Continue?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await discardRecoveryData();
+            if (success) {
+              setEntries([]);
+              router.replace('/');
+            } else {
+              Alert.alert('Error', 'Could not discard the damaged data. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.push('/')} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Recovery</Text>
+      </View>
+
+      <Text style={[styles.summary, { color: theme.text }]}>
+        {recoveryMode
+          ? `Some of your data was damaged. ${notes.length} notes were recovered and the app is read-only until you decide what to keep.`
+          : `${entries.length} damaged entries are still set aside.`}
+      </Text>
+
+      {/* Quarantined Data List */}
+      <FlatList
+        data={entries}
+        keyExtractor={(item, index) => `${item.key}-${index}`}
+        renderItem={({ item, index }) => (
+          <QuarantinedEntryCard
+            entry={item}
+            expanded={expandedIndex === index}
+            onToggle={() => setExpandedIndex(expandedIndex === index ? null : index)}
+            theme={theme}
+          />
+        )}
+        contentContainerStyle={styles.entriesList}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={[styles.emptyText, { color: theme.cardText }]}>
+              No quarantined data
+            </Text>
+          </View>
+        }
+      />
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, { borderColor: theme.border }]}
+          onPress={handleExport}
+          disabled={entries.length === 0}
+        >
+          <Text style={[styles.actionText, { color: theme.text }]}>Export</Text>
+        </TouchableOpacity>
+        {recoveryMode && (
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: theme.primary, borderColor: 'transparent' }]}
+            onPress={handleFinish}
+          >
+            <Text style={[styles.actionText, { color: '#FFFFFF' }]}>Keep Notes</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, { borderColor: theme.error }]}
+          onPress={handleDiscard}
+        >
+          <Text style={[styles.actionText, { color: theme.error }]}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  summary: {
+    fontSize: 15,
+    marginBottom: 16,
+  },
+  entriesList: {
+    paddingBottom: 24,
+  },
+  entryCard: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  entryKey: {
+    fontSize: 16,
+    fontWeight: '600',
+    flex: 1,
+    marginRight: 8,
+  },
+  entryMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  entryPreview: {
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    fontSize: 12,
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    marginHorizontal: 4,
+    borderRadius: 20,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+  },
+});
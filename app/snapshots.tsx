@@ -0,0 +1,446 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import { diffSnapshot, listSnapshots, snapshotsSupported } from '../store/snapshots';
+import { formatBytes } from '../store/storageUsage';
+import { Note, SnapshotDiff, SnapshotInfo, SnapshotReason } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { logger } from '../store/logger';
+
+// Retention counts the user can pick from
+const RETENTION_OPTIONS = [3, 7, 14, 30];
+
+// Titles listed per section of the preview
+const PREVIEW_TITLES = 5;
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  migration: 'Before update',
+  reset: 'Before reset',
+  restore: 'Before restore',
+  import: 'Before import',
+  recovery: 'Before recovery',
+  manual: 'Manual',
+};
+
+// Component for one section of the difference preview
+const DiffSection = ({
+  label,
+  notes,
+  color,
+  theme
+}: {
+  label: string;
+  notes: Note[];
+  color: string;
+  theme: typeof lightTheme;
+}) => {
+  if (notes.length === 0) return null;
+
+  return (
+    <View style={styles.diffSection}>
+      <Text style={[styles.diffLabel, { color }]}>
+        {label} ({notes.length})
+      </Text>
+      {notes.slice(0, PREVIEW_TITLES).map(note => (
+        <Text key={note.id} style={[styles.diffTitle, { color: theme.cardText }]} numberOfLines={1}>
+          {note.title || 'Untitled'}
+        </Text>
+      ))}
+      {notes.length > PREVIEW_TITLES && (
+        <Text style={[styles.diffTitle, { color: theme.cardText }]}>
+          and {notes.length - PREVIEW_TITLES} more
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function SnapshotsScreen() {
+  const router = useRouter();
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const {
+    notes,
+    isDarkMode,
+    recoveryMode,
+    snapshotRetention,
+    setSnapshotRetention,
+    takeSnapshot,
+    readSnapshot,
+    restoreSnapshot
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const refreshSnapshots = useCallback(() => {
+    listSnapshots()
+      .then(setSnapshots)
+      .catch(error => {
+        logger.error('Error listing snapshots:', error);
+        setSnapshots([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshSnapshots();
+  }, [refreshSnapshots, snapshotRetention]);
+
+  // Load a snapshot and compare it with the current notes
+  const loadPreview = async (info: SnapshotInfo, snapshotPassphrase?: string) => {
+    setWorking(true);
+    try {
+      const data = await readSnapshot(info, snapshotPassphrase);
+      setDiff(diffSnapshot(notes, data.notes));
+      setNeedsPassphrase(false);
+    } catch (error) {
+      logger.warn('Could not open snapshot:', error);
+      setDiff(null);
+      if (info.vaultKdf) {
+        if (snapshotPassphrase !== undefined) {
+          Alert.alert('Incorrect Passphrase', 'That passphrase does not open this snapshot.');
+        }
+        setNeedsPassphrase(true);
+      } else {
+        Alert.alert('Error', 'This snapshot could not be read.');
+      }
+    }
+    setWorking(false);
+  };
+
+  const handleSelect = (info: SnapshotInfo) => {
+    setDiff(null);
+    setPassphrase('');
+    setNeedsPassphrase(false);
+    if (selectedId === info.id) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(info.id);
+    loadPreview(info);
+  };
+
+  // Handle taking a snapshot now
+  const handleTakeSnapshot = async () => {
+    setWorking(true);
+    const taken = await takeSnapshot();
+    setWorking(false);
+    if (!taken) {
+      Alert.alert('Error', 'Could not take a snapshot. Please try again.');
+    }
+    refreshSnapshots();
+  };
+
+  // Handle replacing or merging the current notes
+  const handleRestore = (info: SnapshotInfo, mode: 'replace' | 'merge') => {
+    const message = mode === 'replace'
+      ? 'Your current notes will be replaced with the ones in this snapshot.'
+      : 'Notes missing from your current notes will be brought back. Where a note is in both, the most recently edited copy is kept.';
+
+    Alert.alert(
+      mode === 'replace' ? 'Replace Notes' : 'Merge Notes',
+      `${message} A snapshot of your current notes is taken first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: mode === 'replace' ? 'Replace' : 'Merge',
+          style: mode === 'replace' ? 'destructive' : 'default',
+          onPress: async () => {
+            setWorking(true);
+            const restored = await restoreSnapshot(info, mode, needsPassphrase ? passphrase : undefined);
+            setWorking(false);
+            if (restored) {
+              router.back();
+            } else {
+              Alert.alert('Error', 'Could not restore this snapshot.');
+              refreshSnapshots();
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderSnapshot = ({ item }: { item: SnapshotInfo }) => {
+    const selected = item.id === selectedId;
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, { backgroundColor: theme.card, borderColor: selected ? theme.primary : theme.border }]}
+        onPress={() => handleSelect(item)}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardTitle, { color: theme.text }]}>
+            {new Date(item.createdAt).toLocaleString()}
+          </Text>
+          {item.vaultKdf && <Ionicons name="lock-closed" size={16} color={theme.cardText} />}
+        </View>
+        <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+          {REASON_LABELS[item.reason] || item.reason} · {item.noteCount} notes · {formatBytes(item.bytes)}
+        </Text>
+
+        {selected && (
+          <View style={styles.preview}>
+            {needsPassphrase && (
+              <View>
+                <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+                  This snapshot is encrypted. Enter the passphrase it was taken with.
+                </Text>
+                <TextInput
+                  style={[styles.input, { color: theme.text, backgroundColor: theme.secondary, borderColor: theme.border }]}
+                  value={passphrase}
+                  onChangeText={setPassphrase}
+                  placeholder="Passphrase"
+                  placeholderTextColor={theme.cardText}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={() => loadPreview(item, passphrase)}
+                />
+              </View>
+            )}
+
+            {working && <ActivityIndicator color={theme.primary} />}
+
+            {diff && !working && (
+              <>
+                <DiffSection label="Brought back" notes={diff.added} color={theme.success} theme={theme} />
+                <DiffSection label="Different from now" notes={diff.changed} color={theme.accent} theme={theme} />
+                <DiffSection label="Not in snapshot" notes={diff.removed} color={theme.error} theme={theme} />
+                <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+                  {diff.unchanged} notes unchanged
+                </Text>
+
+                {recoveryMode ? (
+                  <Text style={[styles.cardMeta, { color: theme.error }]}>
+                    Restoring is unavailable while damaged data is waiting for review.
+                  </Text>
+                ) : (
+                  <View style={styles.actions}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { borderColor: theme.border }]}
+                      onPress={() => handleRestore(item, 'merge')}
+                    >
+                      <Text style={[styles.actionText, { color: theme.text }]}>Merge</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.actionButton, { backgroundColor: theme.error, borderColor: 'transparent' }]}
+                      onPress={() => handleRestore(item, 'replace')}
+                    >
+                      <Text style={[styles.actionText, { color: '#FFFFFF' }]}>Replace</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Snapshots</Text>
+      </View>
+
+      {!snapshotsSupported() ? (
+        <Text style={[styles.emptyText, { color: theme.cardText }]}>
+          Snapshots are not available on this platform.
+        </Text>
+      ) : !snapshots ? (
+        <ActivityIndicator style={styles.loading} color={theme.primary} />
+      ) : (
+        <FlatList
+          data={snapshots}
+          keyExtractor={item => item.id}
+          renderItem={renderSnapshot}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            <View style={styles.settings}>
+              <Text style={[styles.sectionLabel, { color: theme.cardText }]}>Keep the last</Text>
+              <View style={styles.retentionOptions}>
+                {RETENTION_OPTIONS.map(count => {
+                  const selected = count === snapshotRetention;
+                  return (
+                    <TouchableOpacity
+                      key={count}
+                      style={[
+                        styles.retentionOption,
+                        {
+                          backgroundColor: selected ? theme.primary : 'transparent',
+                          borderColor: selected ? 'transparent' : theme.border
+                        }
+                      ]}
+                      onPress={() => setSnapshotRetention(count)}
+                    >
+                      <Text style={{ color: selected ? '#FFFFFF' : theme.text }}>{count}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TouchableOpacity
+                style={[styles.takeButton, { backgroundColor: theme.primary }]}
+                onPress={handleTakeSnapshot}
+                disabled={working}
+              >
+                <Text style={styles.takeButtonText}>Take Snapshot Now</Text>
+              </TouchableOpacity>
+            </View>
+          }
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: theme.cardText }]}>
+              No snapshots yet. One is taken each day you use NoteEase.
+            </Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    paddingBottom: 60,
+  },
+  settings: {
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+  },
+  retentionOption: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  takeButton: {
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  takeButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  preview: {
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginVertical: 8,
+  },
+  diffSection: {
+    marginBottom: 8,
+  },
+  diffLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  diffTitle: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 18,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
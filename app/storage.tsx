@@ -0,0 +1,387 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import { computeStorageUsage, formatBytes } from '../store/storageUsage';
+import { formatTag } from '../store/tags';
+import { NoteStorageUsage, StorageUsage } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
+import { logger } from '../store/logger';
+
+// Warning thresholds the user can pick from
+const THRESHOLD_OPTIONS = [2, 4, 5, 8].map(mb => mb * 1024 * 1024);
+
+// Component for a single note's footprint
+const NoteUsageRow = ({
+  usage,
+  compressing,
+  onCompress,
+  theme
+}: {
+  usage: NoteStorageUsage;
+  compressing: boolean;
+  onCompress: () => void;
+  theme: typeof lightTheme;
+}) => (
+  <View style={[styles.row, { borderColor: theme.border }]}>
+    <View style={styles.rowContent}>
+      <Text style={[styles.rowTitle, { color: theme.text }]} numberOfLines={1}>
+        {usage.title || 'Untitled'}
+        {usage.isDeleted ? ' (trash)' : ''}
+        {usage.isLocked ? ' (locked)' : ''}
+      </Text>
+      <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+        {formatBytes(usage.totalBytes)}
+        {usage.imageCount > 0 &&
+          ` · ${usage.imageCount} images, ${formatBytes(usage.attachmentBytes + usage.inlineImageBytes)}`}
+      </Text>
+    </View>
+    {usage.imageCount > 0 && !usage.isDeleted && !usage.isLocked && (
+      compressing ? (
+        <ActivityIndicator size="small" color={theme.primary} />
+      ) : (
+        <TouchableOpacity onPress={onCompress} style={styles.rowAction}>
+          <Text style={[styles.rowActionText, { color: theme.primary }]}>Compress</Text>
+        </TouchableOpacity>
+      )
+    )}
+  </View>
+);
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function StorageScreen() {
+  const router = useRouter();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [compressingId, setCompressingId] = useState<string | null>(null);
+
+  const {
+    notes,
+    isDarkMode,
+    tagStyles,
+    storageWarningThreshold,
+    setStorageWarningThreshold,
+    emptyTrash,
+    compressNoteImages
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const refreshUsage = useCallback(() => {
+    computeStorageUsage(notes)
+      .then(setUsage)
+      .catch(error => logger.error('Error computing storage usage:', error));
+  }, [notes]);
+
+  // Recompute whenever the notes change
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage]);
+
+  // Handle empty trash
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      'All notes in the trash will be permanently deleted. This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Empty Trash', style: 'destructive', onPress: emptyTrash }
+      ]
+    );
+  };
+
+  // Handle compressing the images in one note
+  const handleCompress = async (noteId: string) => {
+    setCompressingId(noteId);
+    const success = await compressNoteImages(noteId);
+    setCompressingId(null);
+    if (!success) {
+      Alert.alert('Error', 'Could not compress the images in this note.');
+    }
+  };
+
+  const usedFraction = usage
+    ? Math.min(1, usage.recordBytes / storageWarningThreshold)
+    : 0;
+  const overThreshold = usage ? usage.recordBytes >= storageWarningThreshold : false;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Storage</Text>
+      </View>
+
+      {!usage ? (
+        <ActivityIndicator style={styles.loading} color={theme.primary} />
+      ) : (
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+          {/* Summary */}
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <Text style={[styles.cardTitle, { color: theme.text }]}>
+              {formatBytes(usage.recordBytes)} of {formatBytes(storageWarningThreshold)}
+            </Text>
+            <View style={[styles.progressTrack, { backgroundColor: theme.secondary }]}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${usedFraction * 100}%`,
+                    backgroundColor: overThreshold ? theme.error : theme.primary
+                  }
+                ]}
+              />
+            </View>
+            <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+              Notes database · attachment files use a further {formatBytes(usage.attachmentBytes)}
+            </Text>
+
+            <Text style={[styles.sectionLabel, { color: theme.cardText }]}>Warn me at</Text>
+            <View style={styles.thresholdOptions}>
+              {THRESHOLD_OPTIONS.map(bytes => {
+                const selected = bytes === storageWarningThreshold;
+                return (
+                  <TouchableOpacity
+                    key={bytes}
+                    style={[
+                      styles.thresholdOption,
+                      {
+                        backgroundColor: selected ? theme.primary : 'transparent',
+                        borderColor: selected ? 'transparent' : theme.border
+                      }
+                    ]}
+                    onPress={() => setStorageWarningThreshold(bytes)}
+                  >
+                    <Text style={{ color: selected ? '#FFFFFF' : theme.text }}>
+                      {formatBytes(bytes)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Trash */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Trash</Text>
+          <View style={[styles.row, { borderColor: theme.border }]}>
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>
+                {usage.trash.noteCount} notes
+              </Text>
+              <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                {formatBytes(usage.trash.bytes)}
+              </Text>
+            </View>
+            {usage.trash.noteCount > 0 && (
+              <TouchableOpacity onPress={handleEmptyTrash} style={styles.rowAction}>
+                <Text style={[styles.rowActionText, { color: theme.error }]}>Empty Trash</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Backup and export */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Backup and Export</Text>
+          <TouchableOpacity
+            style={[styles.row, { borderColor: theme.border }]}
+            onPress={() => router.push('/snapshots')}
+          >
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Restore from snapshot</Text>
+              <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                Copies of your notes taken daily and before risky changes
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.cardText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.row, { borderColor: theme.border }]}
+            onPress={() => router.push('/backup')}
+          >
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Export or import a backup</Text>
+              <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                Move your notes to another device or keep a copy elsewhere
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.cardText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.row, { borderColor: theme.border }]}
+            onPress={() => router.push('/export')}
+          >
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Export notes</Text>
+              <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                Save notes as Markdown for other apps, wikis and Git repositories
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.cardText} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.row, { borderColor: theme.border }]}
+            onPress={() => router.push('/import')}
+          >
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: theme.text }]}>Import notes</Text>
+              <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                Create notes from Markdown, text, Google Keep and Evernote files
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.cardText} />
+          </TouchableOpacity>
+
+          {/* Tags */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Tags</Text>
+          {usage.tags.map(tagUsage => (
+            <View key={tagUsage.tag} style={[styles.row, { borderColor: theme.border }]}>
+              <View 
+                style={[
+                  styles.tagDot, 
+                  { backgroundColor: tagUsage.tag ? getTagAppearance(tagUsage.tag, tagStyles, theme).color : theme.border }
+                ]} 
+              />
+              <View style={styles.rowContent}>
+                <Text style={[styles.rowTitle, { color: theme.text }]}>
+                  {tagUsage.tag ? formatTag(tagUsage.tag) : 'Untagged'}
+                </Text>
+                <Text style={[styles.rowMeta, { color: theme.cardText }]}>
+                  {tagUsage.noteCount} notes · {formatBytes(tagUsage.bytes)}
+                </Text>
+              </View>
+            </View>
+          ))}
+
+          {/* Notes */}
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Largest Notes</Text>
+          {usage.notes.map(noteUsage => (
+            <NoteUsageRow
+              key={noteUsage.noteId}
+              usage={noteUsage}
+              compressing={compressingId === noteUsage.noteId}
+              onCompress={() => handleCompress(noteUsage.noteId)}
+              theme={theme}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 40,
+  },
+  content: {
+    paddingBottom: 60,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  progressFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  thresholdOptions: {
+    flexDirection: 'row',
+  },
+  thresholdOption: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 20,
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  rowMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 8,
+  },
+  rowActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  tagDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+});
@@ -0,0 +1,477 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  FlatList,
+  Modal,
+  ScrollView,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import {
+  childTags,
+  countTagNotes,
+  findOrphanTags,
+  formatTag,
+  isWithinTag,
+  parentTag,
+  sortTagTree,
+  tagDepth,
+  tagLeaf
+} from '../store/tags';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
+import TagMoveModal from './TagMoveModal';
+import TagRenameModal from './TagRenameModal';
+import TagStyleModal from './TagStyleModal';
+
+// What the tag picker is choosing a tag for
+type PickerPurpose = { action: 'merge' | 'delete'; tag: string };
+
+const noteCountLabel = (count: number) => `${count} ${count === 1 ? 'note' : 'notes'}`;
+
+// Component for choosing another tag, or none when `noneLabel` is given
+const TagPickerModal = ({
+  title,
+  description,
+  options,
+  noneLabel,
+  onPick,
+  onClose,
+  theme
+}: {
+  title: string;
+  description: string;
+  options: string[];
+  noneLabel?: string;
+  onPick: (tag: string | null) => void;
+  onClose: () => void;
+  theme: typeof lightTheme;
+}) => (
+  <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+    <View style={styles.modalOverlay}>
+      <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+        <Text style={[styles.modalTitle, { color: theme.text }]}>{title}</Text>
+        <Text style={[styles.description, { color: theme.cardText }]}>{description}</Text>
+
+        <ScrollView style={styles.pickerList}>
+          {noneLabel && (
+            <TouchableOpacity
+              style={[styles.pickerOption, { borderColor: theme.border }]}
+              onPress={() => onPick(null)}
+            >
+              <Text style={[styles.pickerOptionText, { color: theme.error }]}>{noneLabel}</Text>
+            </TouchableOpacity>
+          )}
+          {options.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.pickerOption, { borderColor: theme.border }]}
+              onPress={() => onPick(option)}
+            >
+              <Text
+                style={[styles.pickerOptionText, { color: theme.text, paddingLeft: tagDepth(option) * 16 }]}
+                numberOfLines={1}
+              >
+                {formatTag(tagLeaf(option))}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity style={[styles.modalButton, { borderColor: theme.border }]} onPress={onClose}>
+          <Text style={[styles.pickerOptionText, { color: theme.text }]}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function TagsScreen() {
+  const router = useRouter();
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [movingTag, setMovingTag] = useState<string | null>(null);
+  const [stylingTag, setStylingTag] = useState<string | null>(null);
+  const [picker, setPicker] = useState<PickerPurpose | null>(null);
+
+  const {
+    notes,
+    tags,
+    tagStyles,
+    isDarkMode,
+    recoveryMode,
+    adoptOrphanTags,
+    addTag,
+    deleteTag,
+    mergeTag,
+    reorderTag
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const activeNotes = notes.filter(note => !note.isDeleted);
+  const orphanTags = findOrphanTags(notes, tags);
+
+  const handlePick = (target: string | null) => {
+    if (!picker) return;
+    const { action, tag } = picker;
+    setPicker(null);
+    setSelectedTag(null);
+    if (action === 'merge') {
+      if (target && !mergeTag(tag, target)) {
+        Alert.alert('Error', 'These tags could not be merged.');
+      }
+    } else {
+      deleteTag(tag, target);
+    }
+  };
+
+  const renderTag = ({ item }: { item: string }) => {
+    const selected = item === selectedTag;
+    const siblings = childTags(tags, parentTag(item));
+    const position = siblings.indexOf(item);
+    const { color, icon } = getTagAppearance(item, tagStyles, theme);
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.card,
+          {
+            backgroundColor: theme.card,
+            borderColor: selected ? theme.primary : theme.border,
+            marginLeft: tagDepth(item) * 16
+          }
+        ]}
+        onPress={() => setSelectedTag(selected ? null : item)}
+      >
+        <View style={styles.cardHeader}>
+          {icon ? (
+            <Ionicons name={icon} size={16} color={color} style={styles.tagIcon} />
+          ) : (
+            <View style={[styles.tagDot, { backgroundColor: color }]} />
+          )}
+          <View style={styles.cardContent}>
+            <Text style={[styles.cardTitle, { color: theme.text }]} numberOfLines={1}>
+              {formatTag(tagLeaf(item))}
+            </Text>
+            <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+              {noteCountLabel(countTagNotes(activeNotes, item))}
+            </Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => reorderTag(item, -1)}
+            disabled={position === 0 || recoveryMode}
+            style={styles.orderButton}
+            hitSlop={6}
+          >
+            <Ionicons name="chevron-up" size={20} color={position === 0 ? theme.border : theme.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => reorderTag(item, 1)}
+            disabled={position === siblings.length - 1 || recoveryMode}
+            style={styles.orderButton}
+            hitSlop={6}
+          >
+            <Ionicons
+              name="chevron-down"
+              size={20}
+              color={position === siblings.length - 1 ? theme.border : theme.text}
+            />
+          </TouchableOpacity>
+        </View>
+
+        {selected && !recoveryMode && (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setRenamingTag(item)}
+            >
+              <Text style={[styles.actionText, { color: theme.text }]}>Rename</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setStylingTag(item)}
+            >
+              <Text style={[styles.actionText, { color: theme.text }]}>Style</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setMovingTag(item)}
+            >
+              <Text style={[styles.actionText, { color: theme.text }]}>Move</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setPicker({ action: 'merge', tag: item })}
+            >
+              <Text style={[styles.actionText, { color: theme.text }]}>Merge</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.secondary }]}
+              onPress={() => setPicker({ action: 'delete', tag: item })}
+            >
+              <Text style={[styles.actionText, { color: theme.error }]}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  // Tags found on notes but missing from the list, which no filter shows
+  const renderOrphans = () => {
+    if (orphanTags.length === 0) return null;
+
+    return (
+      <View style={styles.orphans}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Missing from the list</Text>
+          {!recoveryMode && (
+            <TouchableOpacity onPress={adoptOrphanTags}>
+              <Text style={[styles.actionText, { color: theme.primary }]}>Add All</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <Text style={[styles.description, { color: theme.cardText }]}>
+          These tags are on notes but not in your list, so no filter shows them. Add them back, or
+          give their notes another tag.
+        </Text>
+        {orphanTags.map(tag => (
+          <View key={tag} style={[styles.card, styles.cardHeader, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <View style={styles.cardContent}>
+              <Text style={[styles.cardTitle, { color: theme.text }]} numberOfLines={1}>
+                {formatTag(tag)}
+              </Text>
+              <Text style={[styles.cardMeta, { color: theme.cardText }]}>
+                {noteCountLabel(countTagNotes(notes, tag))}, counting the trash
+              </Text>
+            </View>
+            {!recoveryMode && (
+              <>
+                <TouchableOpacity onPress={() => addTag(tag)} style={styles.orphanAction}>
+                  <Text style={[styles.actionText, { color: theme.primary }]}>Add</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => setPicker({ action: 'delete', tag })}
+                  style={styles.orphanAction}
+                >
+                  <Text style={[styles.actionText, { color: theme.error }]}>Replace</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Tags</Text>
+      </View>
+
+      <FlatList
+        data={sortTagTree(tags)}
+        keyExtractor={item => item}
+        renderItem={renderTag}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <View>
+            {recoveryMode && (
+              <Text style={[styles.description, { color: theme.error }]}>
+                Tags can't be changed while damaged data is waiting for review.
+              </Text>
+            )}
+            {renderOrphans()}
+            <Text style={[styles.description, { color: theme.cardText }]}>
+              Tap a tag to rename, restyle, move, merge or delete it. Changes apply to every note with the
+              tag, and the arrows set the order tags are shown in.
+            </Text>
+          </View>
+        }
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.cardText }]}>
+            No tags yet. Add one from the note editor.
+          </Text>
+        }
+      />
+
+      {picker && (
+        <TagPickerModal
+          title={picker.action === 'merge' ? `Merge "${formatTag(picker.tag)}"` : `Delete "${formatTag(picker.tag)}"`}
+          description={
+            picker.action === 'merge'
+              ? 'Its notes take the tag you choose, and tags nested under it move there too.'
+              : `This tag is on ${noteCountLabel(countTagNotes(notes, picker.tag))}, counting nested tags and the trash. Choose a tag to give them instead, or just remove it.`
+          }
+          options={sortTagTree(tags).filter(tag => !isWithinTag(tag, picker.tag))}
+          noneLabel={picker.action === 'delete' ? 'Just remove it' : undefined}
+          onPick={handlePick}
+          onClose={() => setPicker(null)}
+          theme={theme}
+        />
+      )}
+
+      <TagRenameModal tag={renamingTag} onClose={() => setRenamingTag(null)} />
+      <TagMoveModal tag={movingTag} onClose={() => setMovingTag(null)} />
+      <TagStyleModal tag={stylingTag} onClose={() => setStylingTag(null)} />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  list: {
+    paddingBottom: 60,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  tagDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  tagIcon: {
+    width: 16,
+    marginRight: 8,
+  },
+  orderButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  actionButton: {
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  orphans: {
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  orphanAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '80%',
+    maxHeight: '70%',
+    padding: 20,
+    borderRadius: 10,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  modalButton: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  pickerList: {
+    flexGrow: 0,
+  },
+  pickerOption: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  pickerOptionText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -1,9 +1,11 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
   Text,
+  TextInput,
   TouchableOpacity,
+  ScrollView,
   SafeAreaView,
   FlatList,
   Alert,
@@ -16,15 +18,44 @@ import { useRouter } from 'expo-router';
 import { useStore } from '../store/useStore';
 import { Note } from '../types';
 import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
+import { daysInTrash, daysUntilPurge, findExpiredNotes } from '../store/trash';
+import { collectTags, formatTag, matchesTags, sortTagTree } from '../store/tags';
+import NotePreviewModal from './NotePreviewModal';
 
-// Component for deleted note card
+// Days to keep deleted notes for; null keeps them until deleted by hand
+const RETENTION_OPTIONS: (number | null)[] = [7, 30, 90, null];
+
+const dayCount = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+// e.g. "Deleted 3 days ago, purged in 27 days"
+const trashAgeLabel = (note: Note, retentionDays: number | null) => {
+  const age = daysInTrash(note);
+  const deleted = age === 0 ? 'Deleted today' : `Deleted ${dayCount(age)} ago`;
+  const remaining = daysUntilPurge(note, retentionDays);
+  if (remaining === null) return deleted;
+  return `${deleted}, purged ${remaining === 0 ? 'today' : `in ${dayCount(remaining)}`}`;
+};
+
+// Component for deleted note card. While selecting, a tap toggles the
+// note instead of opening its preview.
 const DeletedNoteCard = ({
   note,
+  retentionDays,
+  selecting,
+  selected,
+  onPress,
+  onLongPress,
   onRestore,
   onDelete,
   theme
 }: {
   note: Note;
+  retentionDays: number | null;
+  selecting: boolean;
+  selected: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
   onRestore: () => void;
   onDelete: () => void;
   theme: typeof lightTheme;
@@ -40,9 +71,22 @@ const DeletedNoteCard = ({
   };
 
   return (
-    <View
-      style={[styles.noteCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+    <TouchableOpacity
+      style={[
+        styles.noteCard,
+        { backgroundColor: theme.card, borderColor: selected ? theme.primary : theme.border }
+      ]}
+      onPress={onPress}
+      onLongPress={onLongPress}
     >
+      {selecting && (
+        <Ionicons
+          name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+          size={24}
+          color={selected ? theme.primary : theme.cardText}
+          style={styles.selectIcon}
+        />
+      )}
       <View style={styles.noteContent}>
         <Text style={[styles.noteTitle, { color: theme.text }]}>
           {note.title || 'Untitled'}
@@ -50,27 +94,44 @@ const DeletedNoteCard = ({
         <Text style={[styles.noteDate, { color: theme.cardText }]}>
           {formatDate(note.createdAt)}
         </Text>
+        <Text style={[styles.trashAge, { color: theme.cardText }]}>
+          {trashAgeLabel(note, retentionDays)}
+        </Text>
       </View>
-      <View style={styles.noteActions}>
-        <TouchableOpacity onPress={onRestore} style={styles.actionButton}>
-          <Ionicons name="arrow-undo" size={22} color={theme.primary} />
-        </TouchableOpacity>
-        <TouchableOpacity onPress={onDelete} style={styles.actionButton}>
-          <Ionicons name="trash" size={22} color={theme.error} />
-        </TouchableOpacity>
-      </View>
-    </View>
+      {!selecting && (
+        <View style={styles.noteActions}>
+          <TouchableOpacity onPress={onRestore} style={styles.actionButton}>
+            <Ionicons name="arrow-undo" size={22} color={theme.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onDelete} style={styles.actionButton}>
+            <Ionicons name="trash" size={22} color={theme.error} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </TouchableOpacity>
   );
 };
 const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
 export default function TrashScreen() {
   const router = useRouter();
+  const [searchQuery, setSearchQuery] = useState('');
+  // Tag the trash is filtered by; null shows every deleted note
+  const [filterTag, setFilterTag] = useState<string | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
   
   const {
     notes,
     isDarkMode,
+    tagStyles,
     restoreNote,
     permanentlyDeleteNote,
+    restoreNotes,
+    permanentlyDeleteNotes,
+    emptyTrash,
+    trashRetentionDays,
+    setTrashRetention,
     initialize
   } = useStore();
 
@@ -78,6 +139,21 @@ export default function TrashScreen() {
 
   // Get only deleted notes
   const trashedNotes = notes.filter(note => note.isDeleted);
+  const trashTags = useMemo(() => sortTagTree(collectTags(trashedNotes)), [notes]);
+  const activeFilterTag = filterTag && trashTags.includes(filterTag) ? filterTag : null;
+
+  // Locked notes only match by title, as on the home screen
+  const query = searchQuery.trim().toLowerCase();
+  const shownNotes = trashedNotes.filter(note =>
+    (!activeFilterTag || matchesTags(note, [activeFilterTag], 'any')) &&
+    (!query ||
+      note.title.toLowerCase().includes(query) ||
+      (!note.lock && note.content.toLowerCase().includes(query)))
+  );
+  const previewNote = trashedNotes.find(note => note.id === previewId) ?? null;
+  // Notes restored or deleted elsewhere drop out of the selection
+  const selectedNotes = trashedNotes.filter(note => selectedIds.includes(note.id));
+  const allShownSelected = shownNotes.length > 0 && shownNotes.every(note => selectedIds.includes(note.id));
 
   // Initialize the store
   useEffect(() => {
@@ -95,7 +171,7 @@ export default function TrashScreen() {
   const handlePermanentDelete = (noteId: string) => {
     Alert.alert(
       'Delete Permanently',
-      'This note will be permanently deleted and cannot be recovered. Continue?',
+      'This note will be permanently deleted. You can undo this for a few seconds afterwards. Continue?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -107,23 +183,90 @@ export default function TrashScreen() {
     );
   };
 
+  // Long press starts selecting with the pressed note
+  const startSelecting = (noteId: string) => {
+    setSelecting(true);
+    setSelectedIds([noteId]);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (noteId: string) => {
+    setSelectedIds(selectedIds.includes(noteId)
+      ? selectedIds.filter(id => id !== noteId)
+      : [...selectedIds, noteId]);
+  };
+
+  // Select every note the search and tag filter show, or clear them
+  const toggleSelectAll = () => {
+    const shownIds = shownNotes.map(note => note.id);
+    setSelectedIds(allShownSelected
+      ? selectedIds.filter(id => !shownIds.includes(id))
+      : Array.from(new Set([...selectedIds, ...shownIds])));
+  };
+
+  const handleBulkRestore = () => {
+    restoreNotes(selectedNotes.map(note => note.id));
+    stopSelecting();
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedNotes.length;
+    Alert.alert(
+      'Delete Permanently',
+      `${count} ${count === 1 ? 'note' : 'notes'} will be permanently deleted. You can undo this for a few seconds afterwards. Continue?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            permanentlyDeleteNotes(selectedNotes.map(note => note.id));
+            stopSelecting();
+          }
+        }
+      ]
+    );
+  };
+
+  // A shorter period purges notes already past it, so confirm first
+  const handleRetention = (days: number | null) => {
+    const expiring = findExpiredNotes(notes, days).length;
+    if (expiring === 0) {
+      setTrashRetention(days);
+      return;
+    }
+
+    Alert.alert(
+      'Purge Old Notes',
+      `${expiring} ${expiring === 1 ? 'note has' : 'notes have'} been in the trash for longer than this and will be permanently deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Purge',
+          style: 'destructive',
+          onPress: () => setTrashRetention(days)
+        }
+      ]
+    );
+  };
+
   // Handle empty all trash
   const handleEmptyTrash = () => {
     if (trashedNotes.length === 0) return;
 
     Alert.alert(
       'Empty Trash',
-      'All notes in the trash will be permanently deleted. This action cannot be undone.',
+      'All notes in the trash will be permanently deleted. You can undo this for a few seconds afterwards.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Empty Trash',
           style: 'destructive',
-          onPress: () => {
-            trashedNotes.forEach(note => {
-              permanentlyDeleteNote(note.id);
-            });
-          }
+          onPress: emptyTrash
         }
       ]
     );
@@ -134,30 +277,100 @@ export default function TrashScreen() {
       <StatusBar style={isDarkMode ? 'light' : 'dark'} />
       
       {/* Header */}
-      <View style={styles.header}>
-        <View style={styles.headerLeft}>
-          <TouchableOpacity onPress={() => router.push('/')} style={styles.backButton}>
-            <Ionicons name="arrow-back" size={24} color={theme.text} />
-          </TouchableOpacity>
-          <Text style={[styles.title, { color: theme.text }]}>Trash</Text>
-        </View>
-        
-        {trashedNotes.length > 0 && (
-          <TouchableOpacity onPress={handleEmptyTrash} style={styles.emptyButton}>
-            <Text style={[styles.emptyButtonText, { color: theme.error }]}>
-              Empty Trash
+      {selecting ? (
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <TouchableOpacity onPress={stopSelecting} style={styles.backButton}>
+              <Ionicons name="close" size={24} color={theme.text} />
+            </TouchableOpacity>
+            <Text style={[styles.title, { color: theme.text }]}>
+              {selectedNotes.length} selected
+            </Text>
+          </View>
+          
+          <TouchableOpacity onPress={toggleSelectAll} style={styles.emptyButton}>
+            <Text style={[styles.emptyButtonText, { color: theme.primary }]}>
+              {allShownSelected ? 'Deselect All' : 'Select All'}
             </Text>
           </TouchableOpacity>
-        )}
-      </View>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <View style={styles.headerLeft}>
+            <TouchableOpacity onPress={() => router.push('/')} style={styles.backButton}>
+              <Ionicons name="arrow-back" size={24} color={theme.text} />
+            </TouchableOpacity>
+            <Text style={[styles.title, { color: theme.text }]}>Trash</Text>
+          </View>
+          
+          {trashedNotes.length > 0 && (
+            <TouchableOpacity onPress={handleEmptyTrash} style={styles.emptyButton}>
+              <Text style={[styles.emptyButtonText, { color: theme.error }]}>
+                Empty Trash
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Search and tag filter */}
+      {trashedNotes.length > 0 && (
+        <View>
+          <View style={[styles.searchBar, { backgroundColor: theme.secondary, borderColor: theme.border }]}>
+            <Ionicons name="search-outline" size={20} color={theme.cardText} style={styles.searchIcon} />
+            <TextInput
+              style={[styles.searchInput, { color: theme.text }]}
+              placeholder="Search trash"
+              placeholderTextColor={theme.cardText}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => setSearchQuery('')} style={styles.clearSearch}>
+                <Ionicons name="close-circle" size={20} color={theme.cardText} />
+              </TouchableOpacity>
+            )}
+          </View>
+          {trashTags.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tagList}>
+              {[null, ...trashTags].map(tag => {
+                const selected = tag === activeFilterTag;
+                const color = tag ? getTagAppearance(tag, tagStyles, theme).color : theme.primary;
+                return (
+                  <TouchableOpacity
+                    key={tag ?? 'all'}
+                    style={[
+                      styles.tagButton,
+                      {
+                        backgroundColor: selected ? color : 'transparent',
+                        borderColor: selected ? 'transparent' : theme.border
+                      }
+                    ]}
+                    onPress={() => setFilterTag(tag)}
+                  >
+                    <Text style={[styles.tagText, { color: selected ? '#FFFFFF' : theme.text }]}>
+                      {tag ? formatTag(tag) : 'All'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      )}
       
       {/* Trashed Notes List */}
       <FlatList
-        data={trashedNotes}
+        data={shownNotes}
         keyExtractor={(item) => item.id}
         renderItem={({ item }) => (
           <DeletedNoteCard
             note={item}
+            retentionDays={trashRetentionDays}
+            selecting={selecting}
+            selected={selectedIds.includes(item.id)}
+            onPress={() => (selecting ? toggleSelected(item.id) : setPreviewId(item.id))}
+            onLongPress={() => (selecting ? toggleSelected(item.id) : startSelecting(item.id))}
             onRestore={() => handleRestore(item.id)}
             onDelete={() => handlePermanentDelete(item.id)}
             theme={theme}
@@ -165,15 +378,83 @@ export default function TrashScreen() {
         )}
         contentContainerStyle={styles.notesList}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          <View style={styles.settings}>
+            <Text style={[styles.sectionLabel, { color: theme.cardText }]}>Keep deleted notes for</Text>
+            <View style={styles.retentionOptions}>
+              {RETENTION_OPTIONS.map(days => {
+                const selected = days === trashRetentionDays;
+                return (
+                  <TouchableOpacity
+                    key={days ?? 'forever'}
+                    style={[
+                      styles.retentionOption,
+                      {
+                        backgroundColor: selected ? theme.primary : 'transparent',
+                        borderColor: selected ? 'transparent' : theme.border
+                      }
+                    ]}
+                    onPress={() => handleRetention(days)}
+                  >
+                    <Text style={{ color: selected ? '#FFFFFF' : theme.text }}>
+                      {days === null ? 'Forever' : dayCount(days)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Ionicons name="trash-outline" size={60} color={theme.cardText} />
             <Text style={[styles.emptyText, { color: theme.cardText }]}>
-              Trash is empty
+              {trashedNotes.length > 0 ? 'No deleted notes match' : 'Trash is empty'}
             </Text>
           </View>
         }
       />
+
+      {/* Bulk actions for the selected notes */}
+      {selecting && (
+        <View style={[styles.bulkBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <TouchableOpacity
+            style={styles.bulkButton}
+            onPress={handleBulkRestore}
+            disabled={selectedNotes.length === 0}
+          >
+            <Ionicons name="arrow-undo" size={20} color={selectedNotes.length ? theme.primary : theme.border} />
+            <Text style={[styles.bulkButtonText, { color: selectedNotes.length ? theme.primary : theme.border }]}>
+              Restore
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.bulkButton}
+            onPress={handleBulkDelete}
+            disabled={selectedNotes.length === 0}
+          >
+            <Ionicons name="trash" size={20} color={selectedNotes.length ? theme.error : theme.border} />
+            <Text style={[styles.bulkButtonText, { color: selectedNotes.length ? theme.error : theme.border }]}>
+              Delete
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <NotePreviewModal
+        note={previewNote}
+        onClose={() => setPreviewId(null)}
+        onRestore={() => {
+          if (!previewNote) return;
+          handleRestore(previewNote.id);
+          setPreviewId(null);
+        }}
+        onDelete={() => {
+          if (!previewNote) return;
+          setPreviewId(null);
+          handlePermanentDelete(previewNote.id);
+        }}
+      />
     </SafeAreaView>
   );
 }
@@ -210,9 +491,84 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 46,
+    borderRadius: 23,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  clearSearch: {
+    padding: 4,
+  },
+  tagList: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  tagButton: {
+    borderRadius: 20,
+    borderWidth: 1,
+    height: 30,
+    paddingHorizontal: 14,
+    marginRight: 8,
+    justifyContent: 'center',
+  },
+  tagText: {
+    fontWeight: '500',
+    fontSize: 14,
+  },
   notesList: {
     paddingBottom: 100,
   },
+  bulkBar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  bulkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  bulkButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  settings: {
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  retentionOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  retentionOption: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginRight: 8,
+  },
   noteCard: {
     borderRadius: 12,
     padding: 16,
@@ -222,6 +578,9 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  selectIcon: {
+    marginRight: 12,
+  },
   noteContent: {
     flex: 1,
   },
@@ -233,6 +592,10 @@ const styles = StyleSheet.create({
   noteDate: {
     fontSize: 14,
   },
+  trashAge: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   noteActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  SafeAreaView,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  StatusBar as RNStatusBar
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useStore } from '../store/useStore';
+import { notesUseAttachments } from '../store/attachments';
+import { lightTheme, darkTheme } from '../constants/theme';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Component for a labelled passphrase field
+const PassphraseInput = ({
+  label,
+  value,
+  onChangeText,
+  theme
+}: {
+  label: string;
+  value: string;
+  onChangeText: (text: string) => void;
+  theme: typeof lightTheme;
+}) => (
+  <TextInput
+    style={[styles.input, { color: theme.text, backgroundColor: theme.secondary, borderColor: theme.border }]}
+    value={value}
+    onChangeText={onChangeText}
+    placeholder={label}
+    placeholderTextColor={theme.cardText}
+    secureTextEntry
+    autoCapitalize="none"
+    autoCorrect={false}
+  />
+);
+
+const statusBarHeight = Platform.OS === "android" ? RNStatusBar.currentHeight : 44;
+export default function VaultScreen() {
+  const router = useRouter();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const {
+    notes,
+    isDarkMode,
+    vaultEnabled,
+    recoveryMode,
+    enableVault,
+    changeVaultPassphrase,
+    disableVault
+  } = useStore();
+
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const clearFields = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  // Check the new passphrase and its confirmation before any slow work
+  const validateNewPassphrase = () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Passphrase Too Short', `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      Alert.alert('Passphrases Differ', 'The new passphrase and its confirmation do not match.');
+      return false;
+    }
+    return true;
+  };
+
+  const runVaultAction = async (action: () => Promise<boolean>, success: string, failure: string) => {
+    setWorking(true);
+    const done = await action();
+    setWorking(false);
+    if (done) {
+      clearFields();
+      Alert.alert('Vault', success);
+    } else {
+      Alert.alert('Vault', failure);
+    }
+  };
+
+  // Handle turning the vault on
+  const handleEnable = () => {
+    if (notesUseAttachments(notes)) {
+      Alert.alert(
+        'Remove Images First',
+        'Images in your notes are stored as separate files, which the vault cannot encrypt. ' +
+        'Remove them from your notes, including any in the trash, then try again.'
+      );
+      return;
+    }
+    if (!validateNewPassphrase()) return;
+    Alert.alert(
+      'Encrypt Notes',
+      'Your notes can only be read with this passphrase. If you forget it, they cannot be recovered.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Encrypt',
+          onPress: () => runVaultAction(
+            () => enableVault(newPassphrase),
+            'Your notes are now encrypted.',
+            'Could not encrypt your notes. Please try again.'
+          )
+        }
+      ]
+    );
+  };
+
+  // Handle changing the passphrase
+  const handleChange = () => {
+    if (!currentPassphrase || !validateNewPassphrase()) return;
+    runVaultAction(
+      () => changeVaultPassphrase(currentPassphrase, newPassphrase),
+      'Your passphrase has been changed and your notes re-encrypted.',
+      'The current passphrase is incorrect, or your notes could not be re-encrypted.'
+    );
+  };
+
+  // Handle turning the vault off
+  const handleDisable = () => {
+    if (!currentPassphrase) return;
+    Alert.alert(
+      'Remove Encryption',
+      'Your notes will be stored without encryption on this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => runVaultAction(
+            () => disableVault(currentPassphrase),
+            'Your notes are no longer encrypted.',
+            'The passphrase is incorrect, or your notes could not be decrypted.'
+          )
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <StatusBar style={isDarkMode ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Vault</Text>
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={styles.content}>
+        <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={styles.statusRow}>
+            <Ionicons
+              name={vaultEnabled ? 'lock-closed' : 'lock-open-outline'}
+              size={22}
+              color={vaultEnabled ? theme.success : theme.cardText}
+            />
+            <Text style={[styles.statusText, { color: theme.text }]}>
+              {vaultEnabled ? 'Notes are encrypted' : 'Notes are not encrypted'}
+            </Text>
+          </View>
+          <Text style={[styles.description, { color: theme.cardText }]}>
+            With the vault on, notes, tags and settings are encrypted on this device with a
+            key derived from your passphrase, and NoteEase asks for it every time it starts.
+            Images added while the vault is on are stored inside the note and encrypted with it.
+            Image files kept for older snapshots stay unencrypted until those snapshots are removed.
+          </Text>
+        </View>
+
+        {recoveryMode ? (
+          <Text style={[styles.description, { color: theme.error }]}>
+            Vault settings are unavailable while damaged data is waiting for review.
+          </Text>
+        ) : (
+          <>
+            {vaultEnabled && (
+              <PassphraseInput
+                label="Current passphrase"
+                value={currentPassphrase}
+                onChangeText={setCurrentPassphrase}
+                theme={theme}
+              />
+            )}
+            <PassphraseInput
+              label={vaultEnabled ? 'New passphrase' : 'Passphrase'}
+              value={newPassphrase}
+              onChangeText={setNewPassphrase}
+              theme={theme}
+            />
+            <PassphraseInput
+              label="Confirm passphrase"
+              value={confirmPassphrase}
+              onChangeText={setConfirmPassphrase}
+              theme={theme}
+            />
+
+            {working ? (
+              <ActivityIndicator style={styles.working} color={theme.primary} />
+            ) : vaultEnabled ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primary }]}
+                  onPress={handleChange}
+                >
+                  <Text style={styles.buttonText}>Change Passphrase</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.textButton} onPress={handleDisable}>
+                  <Text style={[styles.textButtonText, { color: theme.error }]}>
+                    Remove Encryption
+                  </Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: theme.primary }]}
+                onPress={handleEnable}
+              >
+                <Text style={styles.buttonText}>Encrypt Notes</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: statusBarHeight,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    paddingTop: Platform.OS === 'android' ? 10 : 0,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingBottom: 60,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  statusText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  working: {
+    marginTop: 20,
+  },
+  button: {
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  textButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
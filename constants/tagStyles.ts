@@ -0,0 +1,54 @@
+import { ComponentProps } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { TagStyle } from '../types';
+import { resolveTagStyle } from '../store/tags';
+import { isTagColor } from '../utils/color';
+import { Theme } from './theme';
+
+export type TagIconName = ComponentProps<typeof Ionicons>['name'];
+
+// Colors offered for tags. Each keeps white chip text readable.
+export const TAG_COLOR_OPTIONS = [
+  '#2563EB',
+  '#7C3AED',
+  '#A21CAF',
+  '#BE185D',
+  '#DC2626',
+  '#C2410C',
+  '#B45309',
+  '#4D7C0F',
+  '#15803D',
+  '#0F766E',
+  '#0369A1',
+  '#4B5563',
+];
+
+// Icons a tag can show before its name
+export const TAG_ICON_OPTIONS: TagIconName[] = [
+  'briefcase-outline',
+  'home-outline',
+  'people-outline',
+  'heart-outline',
+  'star-outline',
+  'book-outline',
+  'school-outline',
+  'bulb-outline',
+  'code-slash-outline',
+  'cart-outline',
+  'airplane-outline',
+  'fitness-outline',
+  'restaurant-outline',
+  'musical-notes-outline',
+  'camera-outline',
+  'flag-outline',
+];
+
+// The color and icon to draw a tag with in the given theme
+export const getTagAppearance = (tag: string, tagStyles: Record<string, TagStyle>, theme: Theme) => {
+  const style = resolveTagStyle(tag, tagStyles);
+  const color = theme.isDark ? style.darkColor : style.lightColor;
+  // Only colors and icons that could have been picked here are drawn,
+  // whatever a restored copy holds
+  const icon = TAG_ICON_OPTIONS.find(option => option === style.icon) ?? null;
+  return { color: isTagColor(color) ? color : theme.getTagColor(tag), icon };
+};
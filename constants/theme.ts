@@ -1,3 +1,5 @@
+import { ensureContrast } from '../utils/color';
+
 interface TagBackground {
   all: string;
   personal: string;
@@ -7,6 +9,7 @@ interface TagBackground {
 }
 
 export const lightTheme = {
+  isDark: false,
   background: '#FFFFFF',
   text: '#000000',
   primary: '#3B51F0',
@@ -21,7 +24,8 @@ export const lightTheme = {
     all: '#3B51F0',
     personal: '#FF9500',
     work: '#8B5CF6',
-    family: '#EF4444'
+    family: '#EF4444',
+    untagged: '#6B7280'
   } as TagBackground,
   getTagColor: function(category: string) {
     if (this.tagBackground[category]) {
@@ -37,11 +41,13 @@ export const lightTheme = {
       const value = (hash >> (i * 8)) & 0xFF;
       color += ('00' + value.toString(16)).substr(-2);
     }
-    return color;
+    // Darkened where needed so the white chip text stays readable
+    return ensureContrast(color);
   }
 };
 
 export const darkTheme = {
+  isDark: true,
   background: '#1C1C1E',
   text: '#FFFFFF',
   primary: '#5767F1',
@@ -56,7 +62,8 @@ export const darkTheme = {
     all: '#5767F1',
     personal: '#FF9F0A',
     work: '#A78BFA',
-    family: '#F87171'
+    family: '#F87171',
+    untagged: '#636366'
   } as TagBackground,
   getTagColor: function(category: string) {
     if (this.tagBackground[category]) {
@@ -72,7 +79,8 @@ export const darkTheme = {
       const value = (hash >> (i * 8)) & 0xFF;
       color += ('00' + value.toString(16)).substr(-2);
     }
-    return color;
+    // Darkened where needed so the white chip text stays readable
+    return ensureContrast(color);
   }
 };
 
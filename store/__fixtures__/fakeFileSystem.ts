@@ -0,0 +1,66 @@
+// An in-memory stand-in for the parts of expo-file-system the store uses.
+// Use with jest.mock('expo-file-system', () => require(...)).
+
+export const documentDirectory = 'file:///documents/';
+export const cacheDirectory = 'file:///cache/';
+export const EncodingType = { UTF8: 'utf8', Base64: 'base64' };
+
+// File contents by URI. Directories are implied by the files in them.
+export const files = new Map<string, string>();
+const directories = new Set<string>();
+
+export const resetFileSystem = () => {
+  files.clear();
+  directories.clear();
+};
+
+const asDirectory = (uri: string) => (uri.endsWith('/') ? uri : `${uri}/`);
+
+const missing = (uri: string) => new Error(`fakeFileSystem: no such file: ${uri}`);
+
+export const getInfoAsync = async (uri: string) => {
+  if (files.has(uri)) {
+    return { exists: true, isDirectory: false, uri, size: files.get(uri)!.length, modificationTime: 0 };
+  }
+  const directory = asDirectory(uri);
+  if (directories.has(directory) || Array.from(files.keys()).some(file => file.startsWith(directory))) {
+    return { exists: true, isDirectory: true, uri, size: 0, modificationTime: 0 };
+  }
+  return { exists: false, isDirectory: false, uri };
+};
+
+export const makeDirectoryAsync = async (uri: string) => {
+  directories.add(asDirectory(uri));
+};
+
+export const readDirectoryAsync = async (uri: string) => {
+  const directory = asDirectory(uri);
+  return Array.from(files.keys())
+    .filter(file => file.startsWith(directory) && !file.slice(directory.length).includes('/'))
+    .map(file => file.slice(directory.length));
+};
+
+export const readAsStringAsync = async (uri: string) => {
+  if (!files.has(uri)) throw missing(uri);
+  return files.get(uri)!;
+};
+
+export const writeAsStringAsync = async (uri: string, contents: string) => {
+  files.set(uri, contents);
+};
+
+export const copyAsync = async ({ from, to }: { from: string; to: string }) => {
+  files.set(to, await readAsStringAsync(from));
+};
+
+export const deleteAsync = async (uri: string, options: { idempotent?: boolean } = {}) => {
+  const directory = asDirectory(uri);
+  const inside = Array.from(files.keys()).filter(file => file.startsWith(directory));
+  if (!files.has(uri) && inside.length === 0 && !directories.has(directory)) {
+    if (options.idempotent) return;
+    throw missing(uri);
+  }
+  files.delete(uri);
+  inside.forEach(file => files.delete(file));
+  directories.delete(directory);
+};
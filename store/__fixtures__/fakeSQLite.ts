@@ -0,0 +1,94 @@
+// Just enough of expo-sqlite for the queries sqliteRepository runs, kept
+// in memory. Use with jest.mock('expo-sqlite', () => require(...)).
+
+interface NoteRow {
+  id: string;
+  position: number;
+  category: string;
+  data: string;
+}
+
+const notes = new Map<string, NoteRow>();
+const settings = new Map<string, string>();
+
+// Everything the fake database holds, for assertions
+export const tables = { notes, settings };
+
+export const resetDatabase = () => {
+  notes.clear();
+  settings.clear();
+};
+
+const normalize = (sql: string) => sql.replace(/\s+/g, ' ').trim();
+
+const unsupported = (sql: string) => new Error(`fakeSQLite: unsupported query: ${sql}`);
+
+const byPosition = () => Array.from(notes.values()).sort((a, b) => a.position - b.position);
+
+const database = {
+  execAsync: async (_sql: string) => {},
+
+  runAsync: async (sql: string, ...args: unknown[]) => {
+    const query = normalize(sql);
+    const params = args.flat() as any[];
+
+    if (query.startsWith('INSERT OR REPLACE INTO notes')) {
+      const [id, position, category, , , , , data] = params;
+      notes.set(id, { id, position, category, data });
+    } else if (query === 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)') {
+      settings.set(params[0], params[1]);
+    } else if (query === 'UPDATE notes SET position = ? WHERE id = ?') {
+      const row = notes.get(params[1]);
+      if (row) row.position = params[0];
+    } else if (query === 'DELETE FROM notes WHERE id = ?') {
+      notes.delete(params[0]);
+    } else if (query === 'DELETE FROM notes') {
+      notes.clear();
+    } else if (query === 'DELETE FROM settings WHERE key = ?') {
+      settings.delete(params[0]);
+    } else if (query === 'DELETE FROM settings WHERE key != ?') {
+      Array.from(settings.keys())
+        .filter(key => key !== params[0])
+        .forEach(key => settings.delete(key));
+    } else {
+      throw unsupported(query);
+    }
+    return { changes: 1, lastInsertRowId: 0 };
+  },
+
+  getFirstAsync: async (sql: string, ...args: unknown[]) => {
+    const query = normalize(sql);
+    const params = args.flat() as any[];
+
+    if (query === 'SELECT value FROM settings WHERE key = ?') {
+      return settings.has(params[0]) ? { value: settings.get(params[0]) } : null;
+    }
+    if (query === 'SELECT data FROM notes WHERE id = ?') {
+      const row = notes.get(params[0]);
+      return row ? { data: row.data } : null;
+    }
+    throw unsupported(query);
+  },
+
+  getAllAsync: async (sql: string) => {
+    const query = normalize(sql);
+
+    if (query === 'SELECT id, data FROM notes ORDER BY position') {
+      return byPosition().map(({ id, data }) => ({ id, data }));
+    }
+    if (query === 'SELECT id FROM notes ORDER BY position') {
+      return byPosition().map(({ id }) => ({ id }));
+    }
+    if (query === 'SELECT key FROM settings') {
+      return Array.from(settings.keys()).map(key => ({ key }));
+    }
+    throw unsupported(query);
+  },
+
+  // No rollback; tests that need one should fail the write before it starts
+  withExclusiveTransactionAsync: async (task: (txn: any) => Promise<void>) => {
+    await task(database);
+  },
+};
+
+export const openDatabaseAsync = async (_name: string) => database;
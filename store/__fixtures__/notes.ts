@@ -0,0 +1,16 @@
+import { Note } from '../../types';
+
+// A note as the store keeps it, with defaults for whatever a test doesn't
+// set itself
+export const makeNote = (id: string, overrides: Partial<Note> = {}): Note => ({
+  id,
+  title: `Note ${id}`,
+  content: `<p>Content of ${id}</p>`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  tags: [],
+  isPinned: false,
+  isDeleted: false,
+  schemaVersion: 4,
+  ...overrides,
+});
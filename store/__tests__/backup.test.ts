@@ -0,0 +1,159 @@
+import { files, resetFileSystem } from '../__fixtures__/fakeFileSystem';
+import { makeNote } from '../__fixtures__/notes';
+import { attachmentRef, isAttachmentId, writeAttachmentData } from '../attachments';
+import { mergeBackupNotes, restoreBackupAttachments, summarizeBackup } from '../backup';
+import { createMemoryRepository } from '../memoryRepository';
+import { setVaultRepository } from '../repository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-file-system', () => require('../__fixtures__/fakeFileSystem'));
+
+// Hash as the digest of the data, so ids can be made up for any test data
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  digestStringAsync: jest.fn(async (_algorithm: string, data: string) =>
+    require('crypto').createHash('sha256').update(data).digest('hex')),
+}));
+
+const LATER = '2024-03-01T00:00:00.000Z';
+
+describe('summarizeBackup', () => {
+  it('sorts the backup’s notes by what importing them would do', () => {
+    const current = [
+      makeNote('same'),
+      makeNote('older', { title: 'Edited since', updatedAt: LATER }),
+      makeNote('newer'),
+      makeNote('collides', { createdAt: '2023-06-01T00:00:00.000Z' }),
+    ];
+    const backup = [
+      makeNote('same'),
+      makeNote('older', { title: 'Before the edit' }),
+      makeNote('newer', { title: 'Edited in the backup', updatedAt: LATER }),
+      makeNote('collides'),
+      makeNote('new'),
+    ];
+
+    const summary = summarizeBackup(current, backup);
+
+    expect(summary.unchanged).toBe(1);
+    expect(summary.updated.map(note => note.id)).toEqual(['newer']);
+    expect(summary.conflicting.map(note => note.id)).toEqual(['older']);
+    // A note sharing an id but created apart is a different note
+    expect(summary.added.map(note => note.id)).toEqual(['collides', 'new']);
+  });
+});
+
+describe('mergeBackupNotes', () => {
+  const idsFrom = (...ids: string[]) => {
+    const queue = [...ids];
+    return () => queue.shift()!;
+  };
+
+  it('adds new notes and takes newer backup copies', () => {
+    const current = [makeNote('a'), makeNote('b')];
+    const backup = [makeNote('b', { title: 'Newer', updatedAt: LATER }), makeNote('c')];
+
+    const merged = mergeBackupNotes(current, backup, idsFrom());
+
+    expect(merged.map(note => [note.id, note.title])).toEqual([
+      ['c', 'Note c'],
+      ['a', 'Note a'],
+      ['b', 'Newer'],
+    ]);
+  });
+
+  it('keeps both copies when the current one is newer', () => {
+    const current = [makeNote('a', { title: 'Current', updatedAt: LATER })];
+    const backup = [makeNote('a', { title: 'Old' })];
+
+    const merged = mergeBackupNotes(current, backup, idsFrom('copy'));
+
+    expect(merged.map(note => [note.id, note.title])).toEqual([
+      ['copy', 'Old (from backup)'],
+      ['a', 'Current'],
+    ]);
+  });
+
+  it('gives notes with a colliding id an unused one', () => {
+    const current = [makeNote('a', { createdAt: '2023-06-01T00:00:00.000Z' }), makeNote('taken')];
+    const backup = [makeNote('a')];
+
+    const merged = mergeBackupNotes(current, backup, idsFrom('taken', 'free'));
+
+    expect(merged.map(note => note.id)).toEqual(['free', 'a', 'taken']);
+  });
+
+  it('leaves the current notes alone when nothing changed', () => {
+    const current = [makeNote('a')];
+
+    const merged = mergeBackupNotes(current, [makeNote('a')], idsFrom());
+
+    expect(merged).toEqual(current);
+    expect(merged[0]).toBe(current[0]);
+  });
+});
+
+describe('writeAttachmentData', () => {
+  const data = 'aGVsbG8=';
+  const hash = require('crypto').createHash('sha256').update(data).digest('hex');
+
+  beforeEach(() => {
+    resetFileSystem();
+  });
+
+  it('writes data under the id it hashes to', async () => {
+    expect(await writeAttachmentData(`${hash}.png`, data)).toBe(true);
+
+    expect(files.get(`file:///documents/attachments/${hash}.png`)).toBe(data);
+  });
+
+  it.each([
+    ['a path outside the attachments', '../../evil.png'],
+    ['an unknown extension', `${hash}.html`],
+    ['an id the data does not hash to', `${'0'.repeat(64)}.png`],
+  ])('refuses %s', async (_, id) => {
+    expect(await writeAttachmentData(id, data)).toBe(false);
+
+    expect(files.size).toBe(0);
+  });
+
+  it('only takes ids shaped like a hash and an image extension', () => {
+    expect(isAttachmentId(`${hash}.jpg`)).toBe(true);
+    expect(isAttachmentId(`${hash}.png/../x`)).toBe(false);
+    expect(isAttachmentId(`${hash.toUpperCase()}.jpg`)).toBe(false);
+    expect(isAttachmentId('photo.jpg')).toBe(false);
+  });
+});
+
+describe('restoreBackupAttachments', () => {
+  const data = 'aGVsbG8=';
+  const id = `${require('crypto').createHash('sha256').update(data).digest('hex')}.png`;
+  const note = makeNote('a', { content: `<img src="${attachmentRef(id)}">` });
+
+  beforeEach(() => {
+    resetFileSystem();
+  });
+
+  afterEach(() => {
+    setVaultRepository(null);
+  });
+
+  it('writes the backup’s attachment files', async () => {
+    const [restored] = await restoreBackupAttachments([note], { [id]: data });
+
+    expect(restored).toEqual(note);
+    expect(files.get(`file:///documents/attachments/${id}`)).toBe(data);
+  });
+
+  it('keeps images inline while the vault is on, since files would not be encrypted', async () => {
+    setVaultRepository(createMemoryRepository());
+
+    const [restored] = await restoreBackupAttachments([note], { [id]: data });
+
+    expect(restored.content).toBe(`<img src="data:image/png;base64,${data}">`);
+    expect(files.size).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import { readEnexFile } from '../enexImport';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const IMAGE_DATA = 'AQID';
+const IMAGE_HASH = createHash('md5').update(Buffer.from(IMAGE_DATA, 'base64')).digest('hex');
+
+const enexNote = (content: string, extra = '') => `
+  <note>
+    <title>Groceries</title>
+    <content><![CDATA[<?xml version="1.0" encoding="UTF-8"?>
+      <!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
+      <en-note>${content}</en-note>]]></content>
+    <created>20210105T150405Z</created>
+    <updated>20210106T090000Z</updated>
+    <tag>shopping</tag>
+    ${extra}
+  </note>`;
+
+const enex = (...notes: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?><en-export>${notes.join('')}</en-export>`;
+
+describe('readEnexFile', () => {
+  it('reads each note with its notebook as a tag', () => {
+    const items = readEnexFile(enex(enexNote('<div>Milk</div>'), enexNote('<div>Eggs</div>')), 'Home.enex');
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ fileName: 'Home.enex', error: null, warning: undefined });
+    expect(items[0].note).toMatchObject({
+      title: 'Groceries',
+      content: '<div>Milk</div>',
+      tags: ['Home', 'shopping'],
+      isDeleted: false,
+      createdAt: '2021-01-05T15:04:05.000Z',
+      updatedAt: '2021-01-06T09:00:00.000Z',
+    });
+    expect(items[0].note!.id).toMatch(/^enex_[0-9a-f]{24}$/);
+  });
+
+  it('gives the same note the same id every time', () => {
+    const [first] = readEnexFile(enex(enexNote('<div>Milk</div>')), 'Home.enex');
+    const [again] = readEnexFile(enex(enexNote('<div>Milk</div>')), 'Other.enex');
+
+    expect(again.note!.id).toBe(first.note!.id);
+  });
+
+  it('tells apart notes that share a title and creation time', () => {
+    const [milk, eggs] = readEnexFile(enex(enexNote('<div>Milk</div>'), enexNote('<div>Eggs</div>')), 'Home.enex');
+
+    expect(milk.note!.id).not.toBe(eggs.note!.id);
+  });
+
+  it('groups lines that start with a checkbox into a checklist', () => {
+    const [{ note }] = readEnexFile(enex(enexNote(
+      '<div><en-todo checked="true"/>Milk</div><div><en-todo/>Eggs</div><div>After</div>'
+    )), 'Home.enex');
+
+    expect(note!.content).toContain('checked');
+    expect(note!.content).toContain('Eggs');
+    expect(note!.content).not.toContain('en-todo');
+    expect(note!.content).toMatch(/<div>After<\/div>$/);
+  });
+
+  it('inlines images found by their hash and warns about missing ones', () => {
+    const resource = `
+      <resource>
+        <data encoding="base64">${IMAGE_DATA}</data>
+        <mime>image/png</mime>
+      </resource>`;
+
+    const [{ note, warning }] = readEnexFile(enex(enexNote(
+      `<div><en-media type="image/png" hash="${IMAGE_HASH}"/></div><en-media type="image/png" hash="${'0'.repeat(32)}"/>`,
+      resource
+    )), 'Home.enex');
+
+    expect(note!.content).toContain(`<img src="data:image/png;base64,${IMAGE_DATA}">`);
+    expect(warning).toBe('1 attachment was not in the export');
+  });
+
+  it('drops links and images that aren’t safe to keep', () => {
+    const [{ note }] = readEnexFile(enex(enexNote(
+      '<div><a href="javascript:alert(1)">Click</a><img src="file:///etc/passwd"/></div>'
+    )), 'Home.enex');
+
+    expect(note!.content).toBe('<div>Click</div>');
+  });
+
+  it('reports an export without notes', () => {
+    expect(readEnexFile(enex(), 'Empty.enex'))
+      .toEqual([{ fileName: 'Empty.enex', note: null, error: 'No notes found in this Evernote export' }]);
+  });
+});
@@ -0,0 +1,186 @@
+import * as FileSystem from 'expo-file-system';
+import { markdownToNote, readImportFile, textToNote } from '../importNotes';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { Base64: 'base64' },
+  readAsStringAsync: jest.fn(),
+}));
+
+const HASH = 'a'.repeat(64);
+
+describe('markdownToNote', () => {
+  it('reads the title, tags and pin from front matter', () => {
+    const note = markdownToNote(
+      '---\ntitle: "Groceries, weekly"\ntags: [work, "home/kitchen"]\npinned: true\n---\n- [x] milk\n- eggs\n',
+      'list.md'
+    );
+
+    expect(note).toMatchObject({
+      title: 'Groceries, weekly',
+      tags: ['work', 'home/kitchen'],
+      isPinned: true,
+      isDeleted: false,
+    });
+    expect(note.content).toContain('<input type="checkbox" checked="">');
+    expect(note.content).toContain('<ul><li>eggs</li></ul>');
+  });
+
+  it('takes the title from a leading heading, else the file name', () => {
+    expect(markdownToNote('# Heading title\n\nBody text', 'file.md')).toMatchObject({
+      title: 'Heading title',
+      content: '<div>Body text</div>',
+    });
+    expect(markdownToNote('Body text', 'My note.md').title).toBe('My note');
+  });
+
+  it('reads comma-separated tags and a category from before tags', () => {
+    const note = markdownToNote('---\ncategory: Ideas\ntags: a, b\n---\nplain', 'notes.md');
+
+    expect(note.tags).toEqual(['a', 'b', 'Ideas']);
+  });
+
+  it('brings exported attachments back and drops local file images', () => {
+    const note = markdownToNote(
+      `![pic](attachments/${HASH}.png) ![x](file:///etc/passwd)`,
+      'images.md'
+    );
+
+    expect(note.content).toContain(`<img src="attachment://${HASH}.png" alt="pic">`);
+    expect(note.content).not.toContain('file://');
+  });
+});
+
+describe('textToNote', () => {
+  it('keeps each line, escaped, under the file name', () => {
+    expect(textToNote('line <one>\n\nline two\n', 'todo.txt')).toEqual({
+      title: 'todo',
+      content: '<div>line &lt;one&gt;</div><div><br></div><div>line two</div>',
+      tags: [],
+      isPinned: false,
+      isDeleted: false,
+    });
+  });
+});
+
+describe('readImportFile', () => {
+  const readAsString = jest.mocked(FileSystem.readAsStringAsync);
+
+  beforeEach(() => {
+    readAsString.mockReset();
+  });
+
+  it('reads a Markdown file into one note', async () => {
+    readAsString.mockResolvedValue('# Title\n\nBody');
+
+    const [item] = await readImportFile({ name: 'note.md', uri: 'file:///note.md' });
+
+    expect(item).toEqual({
+      fileName: 'note.md',
+      note: expect.objectContaining({ title: 'Title' }),
+      error: null,
+    });
+  });
+
+  it('files Keep labels that match a default tag under it', async () => {
+    readAsString.mockResolvedValue(JSON.stringify({
+      title: 'Standup',
+      textContent: 'Notes',
+      createdTimestampUsec: 1609459200000000,
+      labels: [{ name: 'Work' }],
+    }));
+
+    const [item] = await readImportFile({ name: 'Standup.json', uri: 'file:///Standup.json' });
+
+    expect(item.note).toMatchObject({ title: 'Standup', tags: ['work'] });
+  });
+
+  it.each([
+    ['an unsupported type', { name: 'photo.png', uri: 'file:///photo.png' }, 'Only .md, .txt, Google Keep and Evernote files can be imported'],
+    ['a note that is too large', { name: 'big.txt', uri: 'file:///big.txt', size: 3 * 1024 * 1024 }, 'File is too large to be a note'],
+  ])('refuses %s without reading it', async (_, file, error) => {
+    expect(await readImportFile(file)).toEqual([{ fileName: file.name, note: null, error }]);
+    expect(readAsString).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['empty', '  \n', 'File is empty'],
+    ['binary', 'PK\u0000\u0003', 'File is not a text file'],
+  ])('refuses a file that is %s', async (_, text, error) => {
+    readAsString.mockResolvedValue(text);
+
+    expect(await readImportFile({ name: 'file.txt', uri: 'file:///file.txt' }))
+      .toEqual([{ fileName: 'file.txt', note: null, error }]);
+  });
+
+  it('reports a file that cannot be read', async () => {
+    readAsString.mockRejectedValue(new Error('ENOENT'));
+
+    expect(await readImportFile({ name: 'gone.md', uri: 'file:///gone.md' }))
+      .toEqual([{ fileName: 'gone.md', note: null, error: 'File could not be read' }]);
+  });
+});
+
+describe('importNotes', () => {
+  let useStore!: typeof import('../useStore').useStore;
+
+  beforeEach(() => {
+    jest.isolateModules(() => {
+      require('../repository').setRepository(require('../memoryRepository').createMemoryRepository());
+      useStore = require('../useStore').useStore;
+    });
+  });
+
+  it('adds new notes at the top, skips ones already imported and adds their tags', async () => {
+    useStore.setState({ notes: [] });
+    const imported = {
+      title: 'Standup',
+      content: '<div>Notes</div>',
+      tags: ['Meetings'],
+      isPinned: false,
+      isDeleted: false,
+    };
+
+    expect(await useStore.getState().importNotes([{ ...imported, id: 'keep_1' }])).toBe(1);
+    expect(await useStore.getState().importNotes([
+      { ...imported, id: 'keep_1' },
+      { ...imported, id: 'keep_2', title: 'Retro' },
+    ])).toBe(1);
+
+    const { notes, tags } = useStore.getState();
+    expect(notes.map(note => note.title)).toEqual(['Retro', 'Standup']);
+    expect(notes[0].createdAt).toBe(notes[0].updatedAt);
+    expect(tags).toContain('Meetings');
+  });
+
+  it('starts the trash retention period of trashed notes with the import', async () => {
+    useStore.setState({ notes: [] });
+    const trashed = { title: 'Old', content: '', tags: [], isPinned: false, isDeleted: true };
+
+    await useStore.getState().importNotes([
+      trashed,
+      { ...trashed, deletedAt: '2024-01-01T00:00:00.000Z' },
+    ]);
+
+    const [stamped, kept] = useStore.getState().notes;
+    expect(Date.parse(stamped.deletedAt!)).toBeGreaterThan(Date.parse('2024-01-01T00:00:00.000Z'));
+    expect(kept.deletedAt).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('undoes a whole import in one step', async () => {
+    useStore.setState({ notes: [] });
+    const imported = { content: '', tags: [], isPinned: false, isDeleted: false };
+    await useStore.getState().importNotes([
+      { ...imported, title: 'One' },
+      { ...imported, title: 'Two' },
+    ]);
+
+    expect(await useStore.getState().undo()).toBe(true);
+
+    expect(useStore.getState().notes).toEqual([]);
+  });
+});
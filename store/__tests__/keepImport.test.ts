@@ -0,0 +1,124 @@
+import { strToU8 } from 'fflate';
+import { isKeepJsonNote, keepNoteFromHtml, keepNoteFromJson, readKeepArchive } from '../keepImport';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const CREATED_USEC = 1609459200000000; // 2021-01-01T00:00:00Z
+const EDITED_USEC = 1609545600000000; // 2021-01-02T00:00:00Z
+
+const keepJson = (overrides: Record<string, unknown> = {}) => ({
+  title: 'Groceries',
+  textContent: 'Milk\nEggs',
+  isPinned: false,
+  isTrashed: false,
+  isArchived: false,
+  createdTimestampUsec: CREATED_USEC,
+  userEditedTimestampUsec: EDITED_USEC,
+  ...overrides,
+});
+
+const keepHtml = (body: string) => `<html><body><div class="note">${body}</div></body></html>`;
+
+describe('keepNoteFromJson', () => {
+  it('keeps the text, labels and timestamps', () => {
+    const { note, error } = keepNoteFromJson(
+      keepJson({ labels: [{ name: 'Home' }, { name: ' ' }], isPinned: true }),
+      'Groceries.json'
+    );
+
+    expect(error).toBeNull();
+    expect(note).toMatchObject({
+      title: 'Groceries',
+      content: '<div>Milk</div><div>Eggs</div>',
+      tags: ['Home'],
+      isPinned: true,
+      isDeleted: false,
+      createdAt: '2021-01-01T00:00:00.000Z',
+      updatedAt: '2021-01-02T00:00:00.000Z',
+    });
+  });
+
+  it('turns lists into checklists and archived notes into a tag', () => {
+    const { note } = keepNoteFromJson(keepJson({
+      textContent: undefined,
+      listContent: [{ text: 'Milk', isChecked: true }, { text: '<Eggs>' }],
+      isArchived: true,
+    }), 'Groceries.json');
+
+    expect(note!.content).toContain('checked');
+    expect(note!.content).toContain('&lt;Eggs&gt;');
+    expect(note!.tags).toEqual(['Archive']);
+  });
+
+  it('marks trashed notes as deleted', () => {
+    expect(keepNoteFromJson(keepJson({ isTrashed: true }), 'Old.json').note!.isDeleted).toBe(true);
+  });
+
+  it('gives the same note the same id every time', () => {
+    const first = keepNoteFromJson(keepJson(), 'a.json').note!;
+    const again = keepNoteFromJson(keepJson({ title: 'Renamed' }), 'b.json').note!;
+    const other = keepNoteFromJson(keepJson({ createdTimestampUsec: CREATED_USEC + 1 }), 'a.json').note!;
+
+    expect(first.id).toMatch(/^keep_[0-9a-f]{24}$/);
+    expect(again.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+  });
+
+  it('warns about images missing from the export', () => {
+    const item = keepNoteFromJson(keepJson({ attachments: [{ filePath: 'photo.jpg' }] }), 'a.json');
+
+    expect(item.warning).toBe('1 image was not in the export');
+  });
+
+  it('only recognizes Keep notes', () => {
+    expect(isKeepJsonNote(keepJson())).toBe(true);
+    expect(isKeepJsonNote({ title: 'No timestamps' })).toBe(false);
+    expect(isKeepJsonNote(null)).toBe(false);
+  });
+});
+
+describe('keepNoteFromHtml', () => {
+  it('reads the title, text, labels and edit time', () => {
+    const { note } = keepNoteFromHtml(keepHtml(`
+      <div class="heading">Jan 5, 2021, 3:04:05 PM</div>
+      <div class="title">Ideas</div>
+      <div class="content">First<br>Second</div>
+      <div class="chips"><span class="label"><span class="label-name">Work</span></span></div>
+    `), 'Ideas.html');
+
+    expect(note).toMatchObject({
+      title: 'Ideas',
+      content: '<div>First</div><div>Second</div>',
+      tags: ['Work'],
+      isDeleted: false,
+    });
+    expect(note!.updatedAt).toBe(new Date(2021, 0, 5, 15, 4, 5).toISOString());
+  });
+
+  it('refuses pages that are not Keep notes', () => {
+    expect(keepNoteFromHtml('<html><body><p>Hello</p></body></html>', 'page.html'))
+      .toEqual({ fileName: 'page.html', note: null, error: 'Not a Google Keep note' });
+  });
+});
+
+describe('readKeepArchive', () => {
+  it('reads JSON notes with their images, and HTML only where there is no JSON', () => {
+    const files = {
+      'Takeout/Keep/Groceries.json': strToU8(JSON.stringify(keepJson({
+        attachments: [{ filePath: 'photo.png', mimetype: 'image/png' }],
+      }))),
+      'Takeout/Keep/Groceries.html': strToU8(keepHtml('<div class="title">Groceries</div>')),
+      'Takeout/Keep/Standalone.html': strToU8(keepHtml('<div class="title">Standalone</div>')),
+      'Takeout/Keep/photo.png': new Uint8Array([1, 2, 3]),
+      'Takeout/Keep/Labels.txt': strToU8('Work'),
+      'Takeout/Drive/other.json': strToU8('{"kind": "drive#file"}'),
+    };
+
+    const items = readKeepArchive(files, 'takeout.zip');
+
+    expect(items.map(item => item.note!.title)).toEqual(['Groceries', 'Standalone']);
+    expect(items[0].note!.content).toContain('<img src="data:image/png;base64,AQID">');
+  });
+});
@@ -0,0 +1,138 @@
+import { makeNote } from '../__fixtures__/notes';
+import { createMemoryRepository } from '../memoryRepository';
+import { NoteRepository, SETTINGS_KEYS } from '../repository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Every migration applied, so initialize loads the notes as stored
+const MIGRATED = JSON.stringify({
+  schemaVersion: 4,
+  applied: [
+    '001-stamp-schema-version',
+    '002-move-inline-images-to-attachments',
+    '003-replace-category-with-tags',
+    '004-stamp-trash-deletion-time',
+  ],
+});
+
+// A fresh store on top of `repository`, since the store and the repository
+// it writes through are module state
+const loadStore = (repository: NoteRepository) => {
+  let modules!: {
+    useStore: typeof import('../useStore').useStore;
+    flushPersistence: typeof import('../persistenceQueue').flushPersistence;
+    recovery: typeof import('../recovery');
+  };
+  jest.isolateModules(() => {
+    require('../repository').setRepository(repository);
+    modules = {
+      useStore: require('../useStore').useStore,
+      flushPersistence: require('../persistenceQueue').flushPersistence,
+      recovery: require('../recovery'),
+    };
+  });
+  return modules;
+};
+
+describe('memory repository', () => {
+  it('hands out copies of what it stores', async () => {
+    const repository = createMemoryRepository([makeNote('a')]);
+
+    const { notes } = await repository.loadNotes();
+    notes[0].title = 'Changed';
+
+    expect((await repository.loadNotes()).notes[0].title).toBe('Note a');
+  });
+
+  it('lists settings by prefix', async () => {
+    const repository = createMemoryRepository([], {
+      'noteease-recovery:1': '{}',
+      'noteease-recovery:2': '{}',
+      [SETTINGS_KEYS.theme]: 'true',
+    });
+
+    expect(await repository.listSettingKeys('noteease-recovery:')).toEqual([
+      'noteease-recovery:1',
+      'noteease-recovery:2',
+    ]);
+  });
+});
+
+describe('store on the memory repository', () => {
+  it('loads notes and settings', async () => {
+    const repository = createMemoryRepository([makeNote('a'), makeNote('b')], {
+      [SETTINGS_KEYS.migrations]: MIGRATED,
+      [SETTINGS_KEYS.theme]: 'true',
+      [SETTINGS_KEYS.tags]: JSON.stringify(['work', 'Ideas']),
+    });
+    const { useStore } = loadStore(repository);
+
+    await useStore.getState().initialize!();
+
+    const state = useStore.getState();
+    expect(state.notes.map(note => note.id)).toEqual(['a', 'b']);
+    expect(state.isDarkMode).toBe(true);
+    expect(state.tags).toEqual(['work', 'Ideas']);
+    expect(state.recoveryMode).toBe(false);
+  });
+
+  it('saves edits back to the repository', async () => {
+    const repository = createMemoryRepository([makeNote('a'), makeNote('b')], {
+      [SETTINGS_KEYS.migrations]: MIGRATED,
+    });
+    const saveNotes = jest.spyOn(repository, 'saveNotes');
+    const { useStore, flushPersistence } = loadStore(repository);
+    await useStore.getState().initialize!();
+
+    useStore.getState().updateNote('b', { title: 'Edited' });
+    useStore.getState().permanentlyDeleteNote('a');
+    await flushPersistence();
+
+    const { notes } = await repository.loadNotes();
+    expect(notes).toHaveLength(1);
+    expect(notes[0]).toMatchObject({ id: 'b', title: 'Edited' });
+    // Changes queued together reach the repository in one write
+    expect(saveNotes).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces stored notes with the salvaged ones when recovery finishes', async () => {
+    const repository = createMemoryRepository([makeNote('a'), makeNote('b')]);
+    const { useStore, recovery } = loadStore(repository);
+    await recovery.quarantineEntries([
+      recovery.createEntry('memory:notes/b', '{"id": "b", "title": ', new Error('Unexpected end')),
+    ]);
+    useStore.setState({ notes: [makeNote('a')], recoveryMode: true });
+
+    expect(await useStore.getState().finishRecovery()).toBe(true);
+
+    expect((await repository.loadNotes()).notes.map(note => note.id)).toEqual(['a']);
+    expect(await recovery.loadQuarantinedEntries()).toHaveLength(1);
+    expect(useStore.getState().recoveryMode).toBe(false);
+  });
+
+  it('refuses to clear stored notes when nothing was salvaged or quarantined', async () => {
+    const repository = createMemoryRepository([makeNote('a')]);
+    const { useStore } = loadStore(repository);
+    useStore.setState({ notes: [], recoveryMode: true });
+
+    expect(await useStore.getState().finishRecovery()).toBe(false);
+
+    expect((await repository.loadNotes()).notes.map(note => note.id)).toEqual(['a']);
+    expect(useStore.getState().recoveryMode).toBe(true);
+  });
+
+  it('salvages and quarantines through the repository when loading throws', async () => {
+    const repository = createMemoryRepository([makeNote('a'), makeNote('b')]);
+    repository.loadNotes = () => Promise.reject(new Error('Disk I/O error'));
+    const { useStore, recovery } = loadStore(repository);
+
+    await useStore.getState().initialize!();
+
+    const state = useStore.getState();
+    expect(state.recoveryMode).toBe(true);
+    expect(state.notes.map(note => note.id).sort()).toEqual(['a', 'b']);
+    expect(await recovery.loadQuarantinedEntries()).toHaveLength(2);
+  });
+});
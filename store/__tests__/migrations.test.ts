@@ -0,0 +1,83 @@
+import { Note } from '../../types';
+import { createMemoryRepository } from '../memoryRepository';
+import { NoteRepository, SETTINGS_KEYS, setRepository } from '../repository';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from '../migrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const ALL_MIGRATIONS = [
+  '001-stamp-schema-version',
+  '002-move-inline-images-to-attachments',
+  '003-replace-category-with-tags',
+  '004-stamp-trash-deletion-time',
+];
+
+// A note as stored before schema versions
+const legacyNote = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  title: `Note ${id}`,
+  content: `<p>Content of ${id}</p>`,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  category: 'work',
+  isPinned: false,
+  isDeleted: false,
+  ...overrides,
+}) as unknown as Note;
+
+const migrationRecord = async (repository: NoteRepository) =>
+  JSON.parse((await repository.getSetting(SETTINGS_KEYS.migrations))!);
+
+describe('runMigrations', () => {
+  let repository: NoteRepository;
+
+  beforeEach(() => {
+    repository = createMemoryRepository();
+    setRepository(repository);
+  });
+
+  it('brings notes from before schema versions up to date', async () => {
+    const notes = [legacyNote('a'), legacyNote('b', { isDeleted: true })];
+
+    const migrated = await runMigrations(notes);
+
+    expect(migrated.map(note => note.schemaVersion)).toEqual([CURRENT_SCHEMA_VERSION, CURRENT_SCHEMA_VERSION]);
+    expect(migrated.map(note => note.tags)).toEqual([['work'], ['work']]);
+    expect(migrated.map(note => note.deletedAt !== undefined)).toEqual([false, true]);
+    expect((await repository.loadNotes()).notes).toEqual(migrated);
+    expect(await migrationRecord(repository)).toEqual({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      applied: ALL_MIGRATIONS,
+    });
+  });
+
+  it('leaves notes alone once every migration has run', async () => {
+    await repository.setSetting(SETTINGS_KEYS.migrations, JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      applied: ALL_MIGRATIONS,
+    }));
+    const notes = [legacyNote('a')];
+
+    expect(await runMigrations(notes)).toBe(notes);
+  });
+
+  it('resumes at the migration that did not finish', async () => {
+    const saveNotes = repository.saveNotes;
+    // The second migration's notes don't reach disk
+    let saves = 0;
+    repository.saveNotes = async notes => ++saves !== 2 && saveNotes(notes);
+
+    await expect(runMigrations([legacyNote('a')])).rejects.toThrow('002-move-inline-images-to-attachments');
+    expect(await migrationRecord(repository)).toEqual({
+      schemaVersion: 1,
+      applied: ALL_MIGRATIONS.slice(0, 1),
+    });
+
+    const [migrated] = await runMigrations((await repository.loadNotes()).notes);
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect((await migrationRecord(repository)).applied).toEqual(ALL_MIGRATIONS);
+  });
+});
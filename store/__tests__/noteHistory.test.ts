@@ -0,0 +1,155 @@
+import { makeNote } from '../__fixtures__/notes';
+import { NoteRevision } from '../../types';
+import { createMemoryRepository } from '../memoryRepository';
+import { NoteRepository, SETTINGS_KEY_PREFIXES } from '../repository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const makeRevision = (noteId: string, title: string): NoteRevision => ({
+  id: `rev_${noteId}_${title}`,
+  noteId,
+  savedAt: new Date().toISOString(),
+  reason: 'edited',
+  title,
+  content: '<p>Old</p>',
+  tags: [],
+});
+
+// Recent enough that pruning keeps every revision
+const editedNote = (id: string, title: string) =>
+  makeNote(id, { title, updatedAt: new Date().toISOString() });
+
+// Fresh history module state on top of `repository`
+const loadModules = (repository: NoteRepository) => {
+  let modules!: {
+    noteHistory: typeof import('../noteHistory');
+    flushPersistence: typeof import('../persistenceQueue').flushPersistence;
+    useStore: typeof import('../useStore').useStore;
+  };
+  jest.isolateModules(() => {
+    require('../repository').setRepository(repository);
+    modules = {
+      noteHistory: require('../noteHistory'),
+      flushPersistence: require('../persistenceQueue').flushPersistence,
+      useStore: require('../useStore').useStore,
+    };
+  });
+  return modules;
+};
+
+const historyKey = (noteId: string) => SETTINGS_KEY_PREFIXES.noteHistory + noteId;
+
+describe('note history', () => {
+  it('stores each note’s revisions on their own', async () => {
+    const repository = createMemoryRepository();
+    const { noteHistory, flushPersistence } = loadModules(repository);
+
+    await noteHistory.recordRevision(makeNote('a'), 'created');
+    await noteHistory.recordRevision(makeNote('b'), 'created');
+    await flushPersistence();
+
+    expect((await repository.listSettingKeys(SETTINGS_KEY_PREFIXES.noteHistory)).sort())
+      .toEqual([historyKey('a'), historyKey('b')]);
+    expect(await noteHistory.getRevisions('a')).toHaveLength(1);
+  });
+
+  it('loads history once for revisions recorded at the same time', async () => {
+    const repository = createMemoryRepository([], {
+      [historyKey('a')]: JSON.stringify([makeRevision('a', 'First')]),
+    });
+    const listSettingKeys = jest.spyOn(repository, 'listSettingKeys');
+    const { noteHistory, flushPersistence } = loadModules(repository);
+
+    await Promise.all([
+      noteHistory.recordRevision(editedNote('a', 'Second'), 'edited'),
+      noteHistory.recordRevision(editedNote('a', 'Third'), 'edited'),
+    ]);
+    await flushPersistence();
+
+    expect(listSettingKeys).toHaveBeenCalledTimes(1);
+    const revisions = JSON.parse((await repository.getSetting(historyKey('a')))!);
+    expect(revisions.map((revision: NoteRevision) => revision.title)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('gives revisions from before tags their category as a tag', async () => {
+    const { tags, ...fields } = makeRevision('a', 'First');
+    const repository = createMemoryRepository([], {
+      [historyKey('a')]: JSON.stringify([{ ...fields, category: 'work' }]),
+    });
+    const { noteHistory } = loadModules(repository);
+
+    const [revision] = await noteHistory.getRevisions('a');
+
+    expect(revision.tags).toEqual(['work']);
+  });
+
+  it('leaves a damaged record as stored', async () => {
+    const damaged = '[{"id": "rev_1", "content": "<img src=\\"attachment://abc.png\\">"';
+    const repository = createMemoryRepository([], { [historyKey('a')]: damaged });
+    const { noteHistory, flushPersistence } = loadModules(repository);
+
+    await noteHistory.recordRevision(makeNote('a', { title: 'Edited' }), 'edited');
+    await noteHistory.recordRevision(makeNote('b'), 'created');
+    await flushPersistence();
+
+    expect(await repository.getSetting(historyKey('a'))).toBe(damaged);
+    expect(await repository.getSetting(historyKey('b'))).not.toBeNull();
+    // Images the damaged revisions may use are kept
+    expect(await noteHistory.getHistoryAttachmentIds()).toContain('abc.png');
+  });
+
+  it('writes nothing when history can’t be read, and tries again next time', async () => {
+    const repository = createMemoryRepository([], { [historyKey('a')]: '[]' });
+    const listSettingKeys = repository.listSettingKeys;
+    repository.listSettingKeys = () => Promise.reject(new Error('Disk I/O error'));
+    const setSetting = jest.spyOn(repository, 'setSetting');
+    const { noteHistory, flushPersistence } = loadModules(repository);
+
+    await noteHistory.recordRevision(makeNote('a'), 'created');
+    await flushPersistence();
+
+    expect(setSetting).not.toHaveBeenCalled();
+    await expect(noteHistory.getHistoryAttachmentIds()).rejects.toThrow('Disk I/O error');
+
+    repository.listSettingKeys = listSettingKeys;
+
+    expect(await noteHistory.getRevisions('a')).toEqual([]);
+  });
+
+  it('removes the history of forgotten notes, damaged or not', async () => {
+    const repository = createMemoryRepository([], {
+      [historyKey('a')]: JSON.stringify([makeRevision('a', 'First')]),
+      [historyKey('b')]: '[{',
+      [historyKey('c')]: JSON.stringify([makeRevision('c', 'First')]),
+    });
+    const { noteHistory, flushPersistence } = loadModules(repository);
+
+    await noteHistory.forgetHistoryExcept(new Set(['c']));
+    await flushPersistence();
+
+    expect(await repository.listSettingKeys(SETTINGS_KEY_PREFIXES.noteHistory)).toEqual([historyKey('c')]);
+  });
+
+  it('records notes as they are created and edited', async () => {
+    const { useStore } = loadModules(createMemoryRepository());
+    useStore.setState({ notes: [] });
+
+    useStore.getState().addNote({
+      title: 'Groceries',
+      content: '<p>Milk</p>',
+      tags: [],
+      isPinned: false,
+      isDeleted: false,
+    });
+    const [{ id }] = useStore.getState().notes;
+    useStore.getState().updateNote(id, { content: '<p>Milk, eggs</p>' });
+
+    const revisions = await useStore.getState().getNoteHistory(id);
+    expect(revisions.map(revision => [revision.reason, revision.content])).toEqual([
+      ['edited', '<p>Milk, eggs</p>'],
+      ['created', '<p>Milk</p>'],
+    ]);
+  });
+});
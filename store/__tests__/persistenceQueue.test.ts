@@ -0,0 +1,109 @@
+type PersistenceQueue = typeof import('../persistenceQueue');
+
+describe('persistence queue', () => {
+  let queue: PersistenceQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Fresh queue state for every test
+    jest.isolateModules(() => {
+      queue = require('../persistenceQueue');
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('writes only the latest of a burst of writes for one key', async () => {
+    const writes: string[] = [];
+    const write = (value: string) => async () => {
+      writes.push(value);
+      return true;
+    };
+
+    queue.queueWrite('notes', write('first'));
+    queue.queueWrite('notes', write('second'));
+    queue.queueWrite('theme', write('dark'));
+    queue.queueWrite('notes', write('third'));
+    expect(writes).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(250);
+
+    expect(writes).toEqual(['third', 'dark']);
+    expect(queue.getPersistenceStatus()).toMatchObject({ state: 'idle', lastSavedAt: expect.any(String) });
+  });
+
+  it('runs one write at a time', async () => {
+    let running = 0;
+    let mostAtOnce = 0;
+    const write = async () => {
+      mostAtOnce = Math.max(mostAtOnce, ++running);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      running--;
+      return true;
+    };
+
+    queue.queueWrite('notes', write);
+    queue.queueWrite('theme', write);
+    await jest.advanceTimersByTimeAsync(250);
+    // Queued while the first flush is still running
+    queue.queueWrite('categories', write);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mostAtOnce).toBe(1);
+  });
+
+  it('retries a failed write with a growing delay, then reports it', async () => {
+    const write = jest.fn(async () => false);
+    const statuses: string[] = [];
+    queue.onPersistenceStatusChange(status => statuses.push(status.state));
+
+    queue.queueWrite('notes', write);
+    await jest.advanceTimersByTimeAsync(250);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(write).toHaveBeenCalledTimes(2);
+
+    // The second retry waits twice as long
+    await jest.advanceTimersByTimeAsync(500);
+    expect(write).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(write).toHaveBeenCalledTimes(3);
+
+    expect(queue.getPersistenceStatus()).toMatchObject({ state: 'error', error: 'Could not save notes' });
+    expect(statuses).toEqual(['saving', 'error']);
+  });
+
+  it('counts a write that throws as failed and succeeds on retry', async () => {
+    const write = jest.fn()
+      .mockRejectedValueOnce(new Error('Disk full'))
+      .mockResolvedValueOnce(true);
+
+    queue.queueWrite('notes', write);
+    await jest.advanceTimersByTimeAsync(750);
+
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(queue.getPersistenceStatus().state).toBe('idle');
+  });
+
+  it('writes right away when flushed', async () => {
+    const write = jest.fn(async () => true);
+
+    queue.queueWrite('notes', write);
+    await queue.flushPersistence();
+
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops queued writes when cancelled', async () => {
+    const write = jest.fn(async () => true);
+
+    queue.queueWrite('notes', write);
+    await queue.cancelPendingWrites();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(write).not.toHaveBeenCalled();
+  });
+});
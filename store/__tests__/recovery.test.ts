@@ -0,0 +1,111 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { makeNote } from '../__fixtures__/notes';
+import { createAsyncStorageRepository } from '../asyncStorageRepository';
+import { LEGACY_NOTES_KEY, noteKey } from '../noteStorage';
+import { SETTINGS_KEY_PREFIXES, setRepository } from '../repository';
+import {
+  createEntry,
+  discardQuarantinedEntries,
+  loadQuarantinedEntries,
+  quarantineEntries,
+  salvageAllStorage,
+  salvageNotes
+} from '../recovery';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+beforeAll(() => {
+  setRepository(createAsyncStorageRepository());
+});
+
+describe('salvageNotes', () => {
+  it('reads an intact payload whole', () => {
+    const notes = [makeNote('a'), makeNote('b')];
+
+    expect(salvageNotes(JSON.stringify(notes))).toEqual(notes);
+  });
+
+  it('recovers the notes on either side of a corrupt byte', () => {
+    const raw = JSON.stringify([makeNote('a'), makeNote('b'), makeNote('c')]);
+    const corrupt = raw.replace('"Note b"', '"Note b"#');
+
+    expect(salvageNotes(corrupt).map(note => note.id)).toEqual(['a', 'c']);
+  });
+
+  it('fills in what a damaged note lost and drops what is not a note', () => {
+    const [note, ...rest] = salvageNotes(JSON.stringify([
+      { id: 'a', title: 'Only a title', isPinned: 'yes' },
+      { id: 'b' },
+      { title: 'No id' },
+    ]));
+
+    expect(rest).toEqual([]);
+    expect(note).toMatchObject({
+      id: 'a',
+      title: 'Only a title',
+      content: '',
+      tags: [],
+      isPinned: false,
+      isDeleted: false,
+      schemaVersion: 0,
+    });
+  });
+});
+
+describe('salvageAllStorage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('quarantines every note record and keeps the newest copy of each note', async () => {
+    await AsyncStorage.multiSet([
+      [LEGACY_NOTES_KEY, JSON.stringify([makeNote('a'), makeNote('b')]).slice(0, -20)],
+      [noteKey('a'), JSON.stringify(makeNote('a', { title: 'Newer', updatedAt: '2024-02-01T00:00:00.000Z' }))],
+    ]);
+
+    const { notes, entries } = await salvageAllStorage(new Error('Row too big'));
+
+    expect(notes.map(note => [note.id, note.title])).toEqual([['a', 'Newer']]);
+    expect(entries.map(entry => [entry.key, entry.reason]).sort()).toEqual([
+      [LEGACY_NOTES_KEY, 'Row too big'],
+      [noteKey('a'), 'Row too big'],
+    ]);
+    expect(await loadQuarantinedEntries()).toHaveLength(2);
+  });
+
+  it('leaves settings alone, even ones that look like notes', async () => {
+    await AsyncStorage.multiSet([
+      [noteKey('a'), JSON.stringify(makeNote('a'))],
+      ['noteease-categories', JSON.stringify([{ id: 'work', title: 'Work' }])],
+      [`${SETTINGS_KEY_PREFIXES.noteHistory}a`, JSON.stringify([{ ...makeNote('a'), noteId: 'a' }])],
+    ]);
+
+    const { notes, entries } = await salvageAllStorage(new Error('Row too big'));
+
+    expect(notes.map(note => note.id)).toEqual(['a']);
+    expect(entries.map(entry => entry.key)).toEqual([noteKey('a')]);
+  });
+});
+
+describe('quarantined entries', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('are kept until discarded, apart from the damaged originals', async () => {
+    await AsyncStorage.setItem(noteKey('a'), '{"id": "a"');
+    const entry = createEntry(noteKey('a'), '{"id": "a"', new SyntaxError('Unexpected end of JSON input'));
+
+    await quarantineEntries([entry]);
+
+    expect(await loadQuarantinedEntries()).toEqual([entry]);
+
+    await discardQuarantinedEntries();
+
+    expect(await loadQuarantinedEntries()).toEqual([]);
+    expect((await AsyncStorage.getAllKeys()).filter(key => key.startsWith(SETTINGS_KEY_PREFIXES.recovery))).toEqual([]);
+    expect(await AsyncStorage.getItem(noteKey('a'))).toBe('{"id": "a"');
+  });
+});
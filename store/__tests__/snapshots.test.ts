@@ -0,0 +1,91 @@
+import { makeNote } from '../__fixtures__/notes';
+import { files, resetFileSystem } from '../__fixtures__/fakeFileSystem';
+import { getReadableContent, lockContent } from '../noteLock';
+import {
+  SNAPSHOTS_DIR,
+  listSnapshots,
+  readSnapshot,
+  sealNoteInSnapshots,
+  takeSnapshot
+} from '../snapshots';
+import { SnapshotReason } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-file-system', () => require('../__fixtures__/fakeFileSystem'));
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+const RETENTION = 2;
+
+// One snapshot a minute apart, so each gets its own id
+const takeSnapshots = async (reasons: SnapshotReason[]) => {
+  for (const reason of reasons) {
+    jest.advanceTimersByTime(60 * 1000);
+    await takeSnapshot({ notes: [makeNote(reason)], customCategories: [] }, reason, RETENTION, null);
+  }
+};
+
+describe('snapshots', () => {
+  beforeEach(() => {
+    resetFileSystem();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rotates out the oldest snapshots beyond the retention count', async () => {
+    await takeSnapshots(['daily', 'manual', 'daily', 'migration']);
+
+    const snapshots = await listSnapshots();
+
+    expect(snapshots.map(snapshot => snapshot.reason)).toEqual(['migration', 'daily']);
+    expect(Array.from(files.keys()).filter(file => file.endsWith('-manual.json'))).toEqual([]);
+  });
+
+  it('keeps reset and recovery snapshots apart from the rotation', async () => {
+    await takeSnapshots(['reset', 'recovery', 'daily', 'daily', 'daily']);
+
+    expect((await listSnapshots()).map(snapshot => snapshot.reason)).toEqual([
+      'daily',
+      'daily',
+      'recovery',
+      'reset',
+    ]);
+
+    await takeSnapshots(['reset', 'reset', 'reset']);
+
+    expect((await listSnapshots()).filter(snapshot => snapshot.reason === 'reset')).toHaveLength(3);
+  });
+
+  it('keeps every snapshot taken at the same time in the index', async () => {
+    const data = { notes: [makeNote('a')], customCategories: [] };
+
+    await Promise.all([
+      takeSnapshot(data, 'daily', RETENTION, null),
+      takeSnapshot(data, 'manual', RETENTION, null),
+    ]);
+
+    expect((await listSnapshots()).map(snapshot => snapshot.reason).sort()).toEqual(['daily', 'manual']);
+  });
+
+  it('seals older copies of a note once it is locked', async () => {
+    const note = makeNote('a', { content: '<p>Bank PIN is 1234</p>' });
+    await takeSnapshot({ notes: [note, makeNote('b')], customCategories: [] }, 'daily', RETENTION, null);
+
+    const locked = { ...note, ...await lockContent(note, '2468') };
+    await sealNoteInSnapshots(locked, null);
+
+    const [info] = await listSnapshots();
+    expect(files.get(`${SNAPSHOTS_DIR}${info.id}.json`)).not.toContain('Bank PIN');
+    const { notes: [snapshotNote, other] } = await readSnapshot(info, null);
+    expect(snapshotNote.lock).toBeDefined();
+    expect(getReadableContent(snapshotNote)).toBe('<p>Bank PIN is 1234</p>');
+    expect(other).toEqual(makeNote('b'));
+  });
+});
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { makeNote } from '../__fixtures__/notes';
+import { resetDatabase, tables } from '../__fixtures__/fakeSQLite';
+import { LEGACY_NOTES_KEY, noteKey } from '../noteStorage';
+import { SETTINGS_KEYS, SETTINGS_KEY_PREFIXES } from '../repository';
+import { createSQLiteRepository } from '../sqliteRepository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-sqlite', () => require('../__fixtures__/fakeSQLite'));
+
+describe('SQLite repository', () => {
+  beforeEach(async () => {
+    resetDatabase();
+    await AsyncStorage.clear();
+  });
+
+  it('moves notes and settings out of AsyncStorage the first time it opens', async () => {
+    const quarantineKey = `${SETTINGS_KEY_PREFIXES.recovery}1`;
+    await AsyncStorage.multiSet([
+      [LEGACY_NOTES_KEY, JSON.stringify([makeNote('a'), makeNote('b')])],
+      [SETTINGS_KEYS.theme, 'true'],
+      [quarantineKey, '{"key": "noteease-note:c"}'],
+    ]);
+
+    const { notes, damaged } = await createSQLiteRepository().loadNotes();
+
+    expect(notes.map(note => note.id)).toEqual(['a', 'b']);
+    expect(damaged).toEqual([]);
+    expect(tables.settings.get(SETTINGS_KEYS.theme)).toBe('true');
+    expect(tables.settings.get(quarantineKey)).toBe('{"key": "noteease-note:c"}');
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+
+  it('moves notes from before tags, filing them by their category', async () => {
+    const { tags, ...fields } = makeNote('a');
+    await AsyncStorage.setItem(LEGACY_NOTES_KEY, JSON.stringify([{ ...fields, category: 'work' }]));
+
+    const { notes } = await createSQLiteRepository().loadNotes();
+
+    expect(notes).toEqual([{ ...fields, category: 'work' }]);
+    expect(tables.notes.get('a')!.category).toBe('work');
+  });
+
+  it('keeps the AsyncStorage copy when part of it could not be migrated', async () => {
+    await AsyncStorage.multiSet([
+      ['noteease-notes-index', JSON.stringify({ ids: ['a', 'b'] })],
+      [noteKey('a'), JSON.stringify(makeNote('a'))],
+      [noteKey('b'), '{"id": "b", "title": '],
+    ]);
+
+    const { notes, damaged } = await createSQLiteRepository().loadNotes();
+
+    expect(notes.map(note => note.id)).toEqual(['a']);
+    expect(damaged.map(entry => entry.key)).toEqual([noteKey('b')]);
+    expect(await AsyncStorage.getItem(noteKey('b'))).toBe('{"id": "b", "title": ');
+  });
+
+  it('migrates only once, even after everything is cleared', async () => {
+    await AsyncStorage.setItem(LEGACY_NOTES_KEY, JSON.stringify([makeNote('a')]));
+    const repository = createSQLiteRepository();
+    await repository.loadNotes();
+
+    await repository.clearAll();
+    await AsyncStorage.setItem(LEGACY_NOTES_KEY, JSON.stringify([makeNote('b')]));
+
+    expect((await createSQLiteRepository().loadNotes()).notes).toEqual([]);
+  });
+
+  it('saves changed notes and keeps their order', async () => {
+    const repository = createSQLiteRepository();
+    await repository.loadNotes();
+
+    await repository.saveNotes([makeNote('a'), makeNote('b'), makeNote('c')]);
+    await repository.saveNotes([makeNote('c'), makeNote('a', { title: 'Edited' })]);
+
+    const { notes } = await createSQLiteRepository().loadNotes();
+    expect(notes.map(note => [note.id, note.title])).toEqual([['c', 'Note c'], ['a', 'Edited']]);
+  });
+
+  it('offers note rows for salvage but not settings', async () => {
+    const repository = createSQLiteRepository();
+    await repository.saveNotes([makeNote('a')]);
+    await repository.setSetting(SETTINGS_KEYS.theme, 'true');
+
+    const records = await repository.readRawRecords();
+
+    expect(records.map(record => record.key)).toEqual(['sqlite:notes/a']);
+  });
+});
@@ -0,0 +1,59 @@
+import { makeNote } from '../__fixtures__/notes';
+import { Note } from '../../types';
+import { daysInTrash, daysUntilPurge, findExpiredNotes } from '../trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-31T12:00:00.000Z');
+
+const daysAgo = (days: number) => new Date(NOW - days * DAY_MS).toISOString();
+
+const makeTrashedNote = (id: string, overrides: Partial<Note> = {}) =>
+  makeNote(id, { isDeleted: true, ...overrides });
+
+describe('findExpiredNotes', () => {
+  it('finds trashed notes kept for the retention period or longer', () => {
+    const notes = [
+      makeTrashedNote('expired', { deletedAt: daysAgo(45) }),
+      makeTrashedNote('just expired', { deletedAt: daysAgo(30) }),
+      makeTrashedNote('not yet', { deletedAt: new Date(NOW - 30 * DAY_MS + 1).toISOString() }),
+      makeTrashedNote('recent', { deletedAt: daysAgo(1) }),
+    ];
+
+    expect(findExpiredNotes(notes, 30, NOW).map(note => note.id)).toEqual(['expired', 'just expired']);
+  });
+
+  it('leaves notes without a deletion time alone', () => {
+    expect(findExpiredNotes([makeTrashedNote('unknown')], 30, NOW)).toEqual([]);
+  });
+
+  it('ignores notes that are not in the trash', () => {
+    const restored = makeTrashedNote('restored', { isDeleted: false, deletedAt: daysAgo(45) });
+
+    expect(findExpiredNotes([restored], 30, NOW)).toEqual([]);
+  });
+
+  it('purges nothing when trashed notes are kept', () => {
+    expect(findExpiredNotes([makeTrashedNote('old', { deletedAt: daysAgo(1000) })], null, NOW)).toEqual([]);
+  });
+});
+
+describe('daysInTrash', () => {
+  it('counts whole days since the note was trashed', () => {
+    expect(daysInTrash(makeTrashedNote('a', { deletedAt: daysAgo(2.5) }), NOW)).toBe(2);
+    expect(daysInTrash(makeTrashedNote('b'), NOW)).toBe(0);
+  });
+});
+
+describe('daysUntilPurge', () => {
+  it('counts the days left, rounding up', () => {
+    const note = makeTrashedNote('a', { deletedAt: daysAgo(2.5) });
+
+    expect(daysUntilPurge(note, 30, NOW)).toBe(28);
+    expect(daysUntilPurge(makeTrashedNote('b', { deletedAt: daysAgo(45) }), 30, NOW)).toBe(0);
+  });
+
+  it('is null when the note will not be purged', () => {
+    expect(daysUntilPurge(makeTrashedNote('a', { deletedAt: daysAgo(1) }), null, NOW)).toBeNull();
+    expect(daysUntilPurge(makeTrashedNote('b'), 30, NOW)).toBeNull();
+  });
+});
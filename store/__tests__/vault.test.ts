@@ -0,0 +1,112 @@
+import { makeNote } from '../__fixtures__/notes';
+import { createEncryptedRepository } from '../encryptedRepository';
+import { createMemoryRepository } from '../memoryRepository';
+import { SETTINGS_KEYS } from '../repository';
+import { createVault, deriveVaultKeys, isSealed, open, seal } from '../vault';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => new Uint8Array(require('crypto').randomBytes(count)),
+}));
+
+describe('vault', () => {
+  it('opens what it sealed, and only with the same key', async () => {
+    const { keys } = await createVault('correct horse');
+    const { keys: otherKeys } = await createVault('battery staple');
+
+    const sealed = seal(keys.key, 'Dear diary');
+
+    expect(isSealed(sealed)).toBe(true);
+    expect(sealed).not.toContain('Dear diary');
+    expect(open(keys.key, sealed)).toBe('Dear diary');
+    expect(() => open(otherKeys.key, sealed)).toThrow();
+  });
+
+  it('derives the same key from the right passphrase and none from a wrong one', async () => {
+    const { header, keys } = await createVault('correct horse');
+
+    expect((await deriveVaultKeys(header, 'correct horse'))!.key).toEqual(keys.key);
+    expect(await deriveVaultKeys(header, 'Correct horse')).toBeNull();
+  });
+
+  it('carries the previous key across a passphrase change', async () => {
+    const { keys: oldKeys } = await createVault('correct horse');
+    const { header } = await createVault('battery staple', oldKeys.key);
+
+    const keys = await deriveVaultKeys(header, 'battery staple');
+
+    expect(keys!.previousKey).toEqual(oldKeys.key);
+  });
+});
+
+describe('encrypted repository', () => {
+  it('stores notes and settings sealed and reads them back', async () => {
+    const inner = createMemoryRepository();
+    const { keys } = await createVault('correct horse');
+    const repository = createEncryptedRepository(inner, keys);
+
+    await repository.saveNotes([makeNote('a', { title: 'Secret plans' })]);
+    await repository.setSetting(SETTINGS_KEYS.theme, 'true');
+
+    const [stored] = (await inner.loadNotes()).notes;
+    expect(stored.id).toBe('a');
+    expect(JSON.stringify(stored)).not.toContain('Secret plans');
+    expect(isSealed((await inner.getSetting(SETTINGS_KEYS.theme))!)).toBe(true);
+
+    expect((await repository.loadNotes()).notes).toEqual([makeNote('a', { title: 'Secret plans' })]);
+    expect(await repository.getSetting(SETTINGS_KEYS.theme)).toBe('true');
+  });
+
+  it('reads plaintext written before the vault was enabled', async () => {
+    const inner = createMemoryRepository([makeNote('a')], { [SETTINGS_KEYS.theme]: 'true' });
+    const { keys } = await createVault('correct horse');
+    const repository = createEncryptedRepository(inner, keys);
+
+    expect((await repository.loadNotes()).notes).toEqual([makeNote('a')]);
+    expect(await repository.getSetting(SETTINGS_KEYS.theme)).toBe('true');
+  });
+
+  it('reports notes sealed under another key as damaged instead of dropping them silently', async () => {
+    const inner = createMemoryRepository();
+    const { keys } = await createVault('correct horse');
+    const { keys: otherKeys } = await createVault('battery staple');
+    await createEncryptedRepository(inner, keys).saveNotes([makeNote('a')]);
+
+    const { notes, damaged } = await createEncryptedRepository(inner, otherKeys).loadNotes();
+
+    expect(notes).toEqual([]);
+    expect(damaged.map(entry => entry.key)).toEqual(['vault:notes/a']);
+  });
+
+  it('decrypts sealed note records for salvage', async () => {
+    const inner = createMemoryRepository();
+    const { keys } = await createVault('correct horse');
+    const repository = createEncryptedRepository(inner, keys);
+    await repository.saveNotes([makeNote('a', { title: 'Secret plans' })]);
+
+    const [record] = await repository.readRawRecords();
+
+    expect(JSON.parse(record.payload!)).toMatchObject({ id: 'a', title: 'Secret plans' });
+  });
+});
+
+describe('enableVault', () => {
+  it('refuses while notes keep images in attachment files', async () => {
+    let useStore!: typeof import('../useStore').useStore;
+    const repository = createMemoryRepository();
+    jest.isolateModules(() => {
+      require('../repository').setRepository(repository);
+      useStore = require('../useStore').useStore;
+    });
+    useStore.setState({
+      notes: [makeNote('a', { content: '<img src="attachment://0123abcd.jpg">', isDeleted: true })],
+    });
+
+    expect(await useStore.getState().enableVault('correct horse')).toBe(false);
+
+    expect(useStore.getState().vaultEnabled).toBe(false);
+    expect(await repository.getSetting(SETTINGS_KEYS.vault)).toBeNull();
+  });
+});
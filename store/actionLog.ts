@@ -0,0 +1,141 @@
+import { Note, NoteChange, TagChange, UndoableAction } from '../types';
+import { getNoteAttachmentIds } from './attachments';
+import { logger } from './logger';
+
+// Steps kept for undo in a session; the oldest are dropped first
+export const MAX_UNDO_STEPS = 50;
+
+// Kept in memory only; the log starts empty each session
+let undoStack: UndoableAction[] = [];
+let redoStack: UndoableAction[] = [];
+
+const createActionId = () =>
+  'act_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+
+export const createAction = (
+  label: string,
+  noteChanges: NoteChange[],
+  tagChanges: TagChange[] = []
+): UndoableAction => ({
+  id: createActionId(),
+  label,
+  at: new Date().toISOString(),
+  noteChanges,
+  tagChanges,
+});
+
+// Add an action to undo. Anything undone before it can no longer be
+// redone. Returns the actions dropped from the log.
+export const recordAction = (action: UndoableAction) => {
+  const dropped = redoStack;
+  redoStack = [];
+  undoStack.push(action);
+  if (undoStack.length > MAX_UNDO_STEPS) {
+    dropped.push(...undoStack.splice(0, undoStack.length - MAX_UNDO_STEPS));
+  }
+  return dropped;
+};
+
+export const peekUndo = () => undoStack[undoStack.length - 1] ?? null;
+export const peekRedo = () => redoStack[redoStack.length - 1] ?? null;
+
+export const takeUndo = () => undoStack.pop() ?? null;
+export const takeRedo = () => redoStack.pop() ?? null;
+
+// Put back an action once it has been undone or redone
+export const pushUndo = (action: UndoableAction) => {
+  undoStack.push(action);
+};
+export const pushRedo = (action: UndoableAction) => {
+  redoStack.push(action);
+};
+
+export const clearActionLog = () => {
+  undoStack = [];
+  redoStack = [];
+};
+
+// Drop every step that involves the given notes, e.g. once a note is locked
+// so its earlier, readable versions can't be brought back
+export const forgetNoteActions = (noteIds: string[]) => {
+  const ids = new Set(noteIds);
+  const involves = (action: UndoableAction) =>
+    action.noteChanges.some(change => ids.has((change.before ?? change.after)!.id));
+  undoStack = undoStack.filter(action => !involves(action));
+  redoStack = redoStack.filter(action => !involves(action));
+};
+
+const loggedNotes = () =>
+  [...undoStack, ...redoStack].flatMap(action =>
+    action.noteChanges.flatMap(change => [change.before, change.after]))
+    .filter((note): note is Note => note !== null);
+
+// Notes the log could bring back, so their history is kept meanwhile
+export const getActionLogNoteIds = () => new Set(loggedNotes().map(note => note.id));
+
+// Images the log could bring back, so they aren't collected meanwhile
+export const getActionLogAttachmentIds = () => {
+  const ids = new Set<string>();
+  loggedNotes().forEach(note => getNoteAttachmentIds(note).forEach(id => ids.add(id)));
+  return ids;
+};
+
+// Swap notes from one side of each change to the other. A note changed
+// again since is left alone, and so is its part of the step. Returns
+// the new notes and the changes that were made.
+export const applyNoteChanges = (notes: Note[], changes: NoteChange[], direction: 'undo' | 'redo') => {
+  let updatedNotes = notes;
+  const applied: NoteChange[] = [];
+
+  changes.forEach(change => {
+    const [from, to] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    const id = (from ?? to)!.id;
+    const current = updatedNotes.find(note => note.id === id) ?? null;
+    if (current !== from) {
+      logger.warn(`Not ${direction === 'undo' ? 'undoing' : 'redoing'} a change to note ${id}, which has changed since`);
+      return;
+    }
+
+    if (!from) {
+      updatedNotes = [to!, ...updatedNotes];
+    } else if (!to) {
+      updatedNotes = updatedNotes.filter(note => note.id !== id);
+    } else {
+      updatedNotes = updatedNotes.map(note => (note.id === id ? to : note));
+    }
+    applied.push(change);
+  });
+
+  return { notes: updatedNotes, applied };
+};
+
+// The changes that turn one tag list into another: removals from the end
+// first, so each index is still right when undone, then additions
+export const tagListChanges = (before: string[], after: string[]): TagChange[] => [
+  ...before
+    .map((tag, index) => ({ tag, index, added: false }))
+    .filter(({ tag }) => !after.includes(tag))
+    .reverse(),
+  ...after
+    .map((tag, index) => ({ tag, index, added: true }))
+    .filter(({ tag }) => !before.includes(tag)),
+];
+
+// Add back removed tags where they were, and remove added ones
+export const applyTagChanges = (
+  tags: string[],
+  changes: TagChange[],
+  direction: 'undo' | 'redo'
+) => {
+  const updatedTags = [...tags];
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+  ordered.forEach(({ tag, index, added }) => {
+    const present = updatedTags.indexOf(tag);
+    if (added === (direction === 'redo')) {
+      if (present === -1) updatedTags.splice(Math.min(index, updatedTags.length), 0, tag);
+    } else if (present !== -1) {
+      updatedTags.splice(present, 1);
+    }
+  });
+  return updatedTags;
+};
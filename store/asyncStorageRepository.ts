@@ -0,0 +1,37 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NoteRepository, RawRecord, allSettingKeys } from './repository';
+import { loadNotes, saveNotes, clearNotes, isNoteStorageKey } from './noteStorage';
+
+// Notes sharded into per-note AsyncStorage records, settings as plain keys
+export const createAsyncStorageRepository = (): NoteRepository => {
+  const repository: NoteRepository = {
+    name: 'asyncStorage',
+    loadNotes,
+    saveNotes,
+    clearNotes,
+    getSetting: key => AsyncStorage.getItem(key),
+    setSetting: (key, value) => AsyncStorage.setItem(key, value),
+    removeSetting: key => AsyncStorage.removeItem(key),
+    listSettingKeys: async prefix => {
+      const keys = await AsyncStorage.getAllKeys();
+      return keys.filter(key => key.startsWith(prefix));
+    },
+    readRawRecords: async () => {
+      const keys = await AsyncStorage.getAllKeys();
+      const records: RawRecord[] = [];
+      for (const key of keys.filter(isNoteStorageKey)) {
+        try {
+          records.push({ key, payload: await AsyncStorage.getItem(key) });
+        } catch (error) {
+          records.push({ key, payload: null, error });
+        }
+      }
+      return records;
+    },
+    clearAll: async () => {
+      await clearNotes();
+      await AsyncStorage.multiRemove(await allSettingKeys(repository));
+    },
+  };
+  return repository;
+};
@@ -0,0 +1,277 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Note } from '../types';
+import { isVaultActive } from './repository';
+import { logger } from './logger';
+
+// Note HTML refers to attachments as attachment://<id>, where the id is the
+// content hash plus extension. The absolute file URI is only filled in for
+// display because the app container path can change between installs.
+export const ATTACHMENT_SCHEME = 'attachment://';
+
+// Images wider than this are scaled down when a note's images are compressed
+const COMPRESS_MAX_WIDTH = 1280;
+const COMPRESS_QUALITY = 0.6;
+
+// Files touched more recently than this are left alone by garbage
+// collection, since an open editor may reference them before saving
+const GC_GRACE_PERIOD_SECONDS = 60 * 60;
+
+// Extensions an attachment id can end in, with the type of image each holds
+export const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+};
+
+const ATTACHMENT_ID_PATTERN = new RegExp(
+  `^[0-9a-f]{64}\\.(${Object.keys(ATTACHMENT_MIME_TYPES).join('|')})$`
+);
+
+const ATTACHMENT_REF_PATTERN = /attachment:\/\/([\w-]+\.\w+)/g;
+const DATA_URL_IMAGE_PATTERN = /data:image\/(\w+);base64,([A-Za-z0-9+/=]+)/g;
+
+// Null on web, where attachments fall back to inline data URLs
+export const ATTACHMENTS_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}attachments/`
+  : null;
+
+// Attachment files aren't encrypted, so with the vault on new images stay
+// inline in the note and are encrypted along with it
+export const attachmentsSupported = () => ATTACHMENTS_DIR !== null && !isVaultActive();
+
+const ensureAttachmentsDir = async () => {
+  if (!ATTACHMENTS_DIR) return;
+  const info = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(ATTACHMENTS_DIR, { intermediates: true });
+  }
+};
+
+const normalizeExtension = (extension: string) => {
+  const ext = extension.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return ext === 'jpeg' ? 'jpg' : ext || 'jpg';
+};
+
+const attachmentIdFor = async (base64: string, extension: string) => {
+  const hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64);
+  return `${hash}.${normalizeExtension(extension)}`;
+};
+
+// Whether `id` has the shape of an id this app hands out. Ids from outside,
+// like a backup, are checked before being joined into a file path.
+export const isAttachmentId = (id: string) => ATTACHMENT_ID_PATTERN.test(id);
+
+export const attachmentUri = (id: string) => `${ATTACHMENTS_DIR}${id}`;
+
+export const attachmentRef = (id: string) => `${ATTACHMENT_SCHEME}${id}`;
+
+// Store an image from a local file. Identical images share one file.
+export const saveImageAttachment = async (sourceUri: string, base64?: string) => {
+  if (!attachmentsSupported()) return null;
+
+  await ensureAttachmentsDir();
+  const data = base64 ?? await FileSystem.readAsStringAsync(sourceUri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const extension = sourceUri.split('?')[0].split('.').pop() || 'jpg';
+  const id = await attachmentIdFor(data, extension);
+  const target = attachmentUri(id);
+
+  const info = await FileSystem.getInfoAsync(target);
+  if (!info.exists) {
+    await FileSystem.copyAsync({ from: sourceUri, to: target });
+    logger.log('Stored new attachment:', id);
+  }
+  return id;
+};
+
+// Store an image from base64 data, e.g. one that was inlined in a note
+export const saveBase64Attachment = async (base64: string, extension: string) => {
+  if (!attachmentsSupported()) return null;
+
+  await ensureAttachmentsDir();
+  const id = await attachmentIdFor(base64, extension);
+  const target = attachmentUri(id);
+
+  const info = await FileSystem.getInfoAsync(target);
+  if (!info.exists) {
+    await FileSystem.writeAsStringAsync(target, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+  return id;
+};
+
+// Read an attachment's file as base64, or null if it's missing
+export const readAttachmentData = async (id: string) => {
+  if (!ATTACHMENTS_DIR) return null;
+  const info = await FileSystem.getInfoAsync(attachmentUri(id));
+  if (!info.exists) return null;
+  return FileSystem.readAsStringAsync(attachmentUri(id), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+};
+
+// Write an attachment under a known id, e.g. one restored from a backup.
+// Resolves to false without writing if the id isn't the hash of the data.
+export const writeAttachmentData = async (id: string, base64: string) => {
+  if (!attachmentsSupported()) return false;
+
+  if (!isAttachmentId(id) || await attachmentIdFor(base64, id.split('.').pop()!) !== id) {
+    logger.warn('Skipping attachment that does not match its id:', id);
+    return false;
+  }
+
+  await ensureAttachmentsDir();
+  const target = attachmentUri(id);
+  const info = await FileSystem.getInfoAsync(target);
+  if (!info.exists) {
+    await FileSystem.writeAsStringAsync(target, base64, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+  }
+  return true;
+};
+
+// Swap attachment references for file URIs so the editor and previews can load them
+export const resolveAttachments = (html: string) => {
+  if (!ATTACHMENTS_DIR) return html;
+  return html.replace(ATTACHMENT_REF_PATTERN, (_, id: string) => attachmentUri(id));
+};
+
+// Swap file URIs back to attachment references before a note is stored
+export const toAttachmentRefs = (html: string) => {
+  if (!ATTACHMENTS_DIR) return html;
+  return html.split(ATTACHMENTS_DIR).join(ATTACHMENT_SCHEME);
+};
+
+export const getAttachmentIds = (html: string) => {
+  const ids = new Set<string>();
+  for (const match of html.matchAll(ATTACHMENT_REF_PATTERN)) {
+    ids.add(match[1]);
+  }
+  return ids;
+};
+
+// Attachments a note uses, including those inside a locked note's sealed content
+export const getNoteAttachmentIds = (note: Note) =>
+  note.lock ? new Set(note.lock.attachmentIds) : getAttachmentIds(note.content);
+
+// Whether any of `notes`, trashed ones included, keeps images in attachment files
+export const notesUseAttachments = (notes: Note[]) =>
+  notes.some(note => getNoteAttachmentIds(note).size > 0);
+
+// Move any inline data URL images out of the HTML into attachment files
+export const extractInlineImages = async (html: string) => {
+  if (!attachmentsSupported() || !html.includes('data:image/')) return html;
+
+  const replacements = new Map<string, string>();
+  for (const match of html.matchAll(DATA_URL_IMAGE_PATTERN)) {
+    const [dataUrl, extension, base64] = match;
+    if (replacements.has(dataUrl)) continue;
+    const id = await saveBase64Attachment(base64, extension);
+    if (id) replacements.set(dataUrl, attachmentRef(id));
+  }
+
+  let result = html;
+  replacements.forEach((ref, dataUrl) => {
+    result = result.split(dataUrl).join(ref);
+  });
+  return result;
+};
+
+// Re-encode every image in a note as a smaller JPEG, keeping the original
+// wherever compression doesn't actually save space
+export const compressImages = async (html: string) => {
+  if (!ATTACHMENTS_DIR) return html;
+
+  let result = await extractInlineImages(html);
+
+  for (const id of getAttachmentIds(result)) {
+    const sourceUri = attachmentUri(id);
+    const context = ImageManipulator.manipulate(sourceUri);
+    const original = await context.renderAsync();
+    const image = original.width > COMPRESS_MAX_WIDTH
+      ? await context.resize({ width: COMPRESS_MAX_WIDTH }).renderAsync()
+      : original;
+    const compressed = await image.saveAsync({
+      compress: COMPRESS_QUALITY,
+      format: SaveFormat.JPEG,
+    });
+
+    const [sourceInfo, compressedInfo] = await Promise.all([
+      FileSystem.getInfoAsync(sourceUri),
+      FileSystem.getInfoAsync(compressed.uri),
+    ]);
+    if (!sourceInfo.exists || !compressedInfo.exists || compressedInfo.size >= sourceInfo.size) {
+      continue;
+    }
+
+    const newId = await saveImageAttachment(compressed.uri);
+    if (newId && newId !== id) {
+      result = result.split(attachmentRef(id)).join(attachmentRef(newId));
+    }
+  }
+
+  return result;
+};
+
+// Delete attachment files no longer referenced by any note, trashed ones
+// included, or by anything in `keepIds`
+export const collectAttachmentGarbage = async (notes: Note[], keepIds = new Set<string>()) => {
+  if (!ATTACHMENTS_DIR) return 0;
+
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+    if (!dirInfo.exists) return 0;
+
+    const referenced = new Set<string>(keepIds);
+    notes.forEach(note => getNoteAttachmentIds(note).forEach(id => referenced.add(id)));
+
+    const files = await FileSystem.readDirectoryAsync(ATTACHMENTS_DIR);
+    const cutoff = Date.now() / 1000 - GC_GRACE_PERIOD_SECONDS;
+    let removed = 0;
+
+    for (const file of files) {
+      if (referenced.has(file)) continue;
+      const info = await FileSystem.getInfoAsync(attachmentUri(file));
+      if (info.exists && info.modificationTime > cutoff) continue;
+      await FileSystem.deleteAsync(attachmentUri(file), { idempotent: true });
+      removed++;
+    }
+
+    if (removed > 0) {
+      logger.log('Removed', removed, 'unreferenced attachments');
+    }
+    return removed;
+  } catch (error) {
+    logger.error('Error collecting attachment garbage:', error);
+    return 0;
+  }
+};
+
+// Remove every attachment file except those in `keepIds`, used when all
+// app data is reset
+export const clearAttachments = async (keepIds = new Set<string>()) => {
+  if (!ATTACHMENTS_DIR) return;
+  if (keepIds.size === 0) {
+    await FileSystem.deleteAsync(ATTACHMENTS_DIR, { idempotent: true });
+    return;
+  }
+
+  const dirInfo = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+  if (!dirInfo.exists) return;
+  const files = await FileSystem.readDirectoryAsync(ATTACHMENTS_DIR);
+  for (const file of files) {
+    if (!keepIds.has(file)) {
+      await FileSystem.deleteAsync(attachmentUri(file), { idempotent: true });
+    }
+  }
+};
@@ -0,0 +1,256 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import {
+  BackupArchive,
+  BackupContents,
+  BackupManifest,
+  BackupSummary,
+  Note
+} from '../types';
+import {
+  ATTACHMENT_MIME_TYPES,
+  attachmentRef,
+  attachmentsSupported,
+  extractInlineImages,
+  getNoteAttachmentIds,
+  readAttachmentData,
+  writeAttachmentData
+} from './attachments';
+import { normalizeNote } from './recovery';
+import { noteChanged } from './snapshots';
+import { VaultKeys, deriveKey, isSealed, openWithKeys, seal } from './vault';
+import { logger } from './logger';
+
+export const BACKUP_FORMAT = 'noteease-backup';
+
+// Bumped when the archive layout changes. Older archives stay importable;
+// newer ones are refused rather than half-read.
+export const BACKUP_VERSION = 1;
+
+// Appended to the title of the backup copy of a conflicting note
+const CONFLICT_SUFFIX = ' (from backup)';
+
+// Archives are written to the cache before being shared, so web has no
+// place to put them
+export const backupsSupported = () => FileSystem.cacheDirectory !== null;
+
+const sha256 = (value: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, value);
+
+const computeChecksums = async (contents: BackupContents): Promise<BackupManifest['checksums']> => {
+  const attachments: Record<string, string> = {};
+  for (const [id, data] of Object.entries(contents.attachments)) {
+    attachments[id] = await sha256(data);
+  }
+
+  return {
+    notes: await sha256(JSON.stringify(contents.notes)),
+    customCategories: await sha256(JSON.stringify(contents.customCategories)),
+    settings: await sha256(JSON.stringify(contents.settings)),
+    attachments,
+  };
+};
+
+// Write every note, the tag list, the theme and every attachment the
+// notes use to one archive file. Locked notes keep their PIN-sealed content,
+// and the whole archive is sealed with the vault key when there is one.
+export const writeBackupFile = async (
+  contents: Omit<BackupContents, 'attachments'>,
+  vaultKeys: VaultKeys | null
+) => {
+  if (!FileSystem.cacheDirectory) {
+    throw new Error('Backups are not supported on this platform');
+  }
+
+  const attachments: Record<string, string> = {};
+  const attachmentIds = new Set<string>();
+  contents.notes.forEach(note => getNoteAttachmentIds(note).forEach(id => attachmentIds.add(id)));
+  for (const id of attachmentIds) {
+    const data = await readAttachmentData(id);
+    if (data) {
+      attachments[id] = data;
+    } else {
+      logger.warn('Attachment missing from backup:', id);
+    }
+  }
+
+  const fullContents: BackupContents = { ...contents, attachments };
+  const createdAt = new Date();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: createdAt.toISOString(),
+    noteCount: contents.notes.length,
+    attachmentCount: Object.keys(attachments).length,
+    checksums: await computeChecksums(fullContents),
+    vaultKdf: vaultKeys?.kdf,
+  };
+  const archive: BackupArchive = {
+    manifest,
+    contents: vaultKeys ? seal(vaultKeys.key, JSON.stringify(fullContents)) : fullContents,
+  };
+
+  const uri = `${FileSystem.cacheDirectory}noteease-backup-${createdAt.toISOString().slice(0, 10)}.json`;
+  await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive));
+  logger.log(`Wrote backup with ${manifest.noteCount} notes and ${manifest.attachmentCount} attachments`);
+  return uri;
+};
+
+// Read an archive and check it is one this version can import. The
+// contents are left sealed until opened with `openBackupContents`.
+export const readBackupFile = async (uri: string): Promise<BackupArchive> => {
+  const archiveString = await FileSystem.readAsStringAsync(uri);
+
+  let archive: any;
+  try {
+    archive = JSON.parse(archiveString);
+  } catch {
+    throw new Error('This file is not a NoteEase backup.');
+  }
+
+  const manifest = archive?.manifest;
+  if (!manifest || manifest.format !== BACKUP_FORMAT || !archive.contents) {
+    throw new Error('This file is not a NoteEase backup.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of NoteEase. Update the app to import it.');
+  }
+  return archive;
+};
+
+// Unseal an archive's contents if needed and verify every checksum. Throws
+// if the contents are encrypted and neither the keys nor the passphrase
+// open them, or if anything was damaged.
+export const openBackupContents = async (
+  archive: BackupArchive,
+  vaultKeys: VaultKeys | null,
+  passphrase?: string
+): Promise<BackupContents> => {
+  let contents: BackupContents;
+
+  if (typeof archive.contents === 'string') {
+    const { vaultKdf } = archive.manifest;
+    if (!isSealed(archive.contents) || !vaultKdf) {
+      throw new Error('This backup is damaged.');
+    }
+    const keys = passphrase !== undefined
+      ? { key: await deriveKey(passphrase, vaultKdf), kdf: vaultKdf }
+      : vaultKeys;
+    if (!keys) {
+      throw new Error('Backup is encrypted');
+    }
+    contents = JSON.parse(openWithKeys(keys, archive.contents).plaintext);
+  } else {
+    contents = archive.contents;
+  }
+
+  const expected = archive.manifest.checksums;
+  const actual = await computeChecksums(contents);
+  const attachmentIds = new Set([...Object.keys(actual.attachments), ...Object.keys(expected.attachments)]);
+  const damaged = [
+    actual.notes !== expected.notes && 'notes',
+    actual.customCategories !== expected.customCategories && 'tags',
+    actual.settings !== expected.settings && 'settings',
+    Array.from(attachmentIds).some(id => actual.attachments[id] !== expected.attachments[id]) && 'attachments',
+  ].filter(Boolean);
+  if (damaged.length > 0) {
+    throw new Error(`This backup is damaged (${damaged.join(', ')} failed verification).`);
+  }
+
+  const notes = contents.notes.map(normalizeNote);
+  if (notes.some(note => note === null)) {
+    throw new Error('This backup is damaged (notes failed verification).');
+  }
+
+  return { ...contents, notes: notes as Note[] };
+};
+
+// Notes sharing an id are only the same note if they were created together;
+// otherwise the id collided and the backup's note is imported under a new one
+const isSameNote = (a: Note, b: Note) => a.createdAt === b.createdAt;
+
+// What importing a backup would do, relative to the current notes
+export const summarizeBackup = (current: Note[], backup: Note[]): BackupSummary => {
+  const currentById = new Map(current.map(note => [note.id, note]));
+  const summary: BackupSummary = { added: [], updated: [], conflicting: [], unchanged: 0 };
+
+  backup.forEach(note => {
+    const existing = currentById.get(note.id);
+    if (!existing || !isSameNote(existing, note)) {
+      summary.added.push(note);
+    } else if (!noteChanged(existing, note)) {
+      summary.unchanged++;
+    } else if (note.updatedAt > existing.updatedAt) {
+      summary.updated.push(note);
+    } else {
+      summary.conflicting.push(note);
+    }
+  });
+
+  return summary;
+};
+
+// Bring a backup's notes in alongside the current ones. Newer backup copies
+// replace current ones; where the current copy is newer both are kept, the
+// backup's under a new id. Colliding ids are remapped with `createId`.
+export const mergeBackupNotes = (current: Note[], backup: Note[], createId: () => string) => {
+  const currentById = new Map(current.map(note => [note.id, note]));
+  const takenIds = new Set(current.map(note => note.id));
+  const { updated, conflicting } = summarizeBackup(current, backup);
+  const updatedById = new Map(updated.map(note => [note.id, note]));
+  const conflictingIds = new Set(conflicting.map(note => note.id));
+
+  const unusedId = () => {
+    let id = createId();
+    while (takenIds.has(id)) id = createId();
+    takenIds.add(id);
+    return id;
+  };
+
+  const merged = current.map(note => updatedById.get(note.id) ?? note);
+  const added: Note[] = [];
+
+  backup.forEach(note => {
+    const existing = currentById.get(note.id);
+    if (!existing) {
+      takenIds.add(note.id);
+      added.push(note);
+    } else if (!isSameNote(existing, note)) {
+      logger.log('Remapping colliding note id from backup:', note.id);
+      added.push({ ...note, id: unusedId() });
+    } else if (conflictingIds.has(note.id)) {
+      added.push({ ...note, id: unusedId(), title: `${note.title}${CONFLICT_SUFFIX}` });
+    }
+  });
+
+  return [...added, ...merged];
+};
+
+// Write the backup's attachment files, or on web, where there are none,
+// inline them into the notes that use them. Inline images in notes from
+// a web backup are moved out into files on devices. Files whose id isn't
+// the hash of their data are skipped, since the id becomes a file path.
+export const restoreBackupAttachments = async (notes: Note[], attachments: Record<string, string>) => {
+  if (attachmentsSupported()) {
+    for (const [id, data] of Object.entries(attachments)) {
+      await writeAttachmentData(id, data);
+    }
+    const restored: Note[] = [];
+    for (const note of notes) {
+      restored.push(note.lock ? note : { ...note, content: await extractInlineImages(note.content) });
+    }
+    return restored;
+  }
+
+  return notes.map(note => {
+    if (note.lock) return note;
+    let content = note.content;
+    getNoteAttachmentIds(note).forEach(id => {
+      const data = attachments[id];
+      if (!data) return;
+      const mimeType = ATTACHMENT_MIME_TYPES[id.split('.').pop() || ''] || 'image/jpeg';
+      content = content.split(attachmentRef(id)).join(`data:${mimeType};base64,${data}`);
+    });
+    return content === note.content ? note : { ...note, content };
+  });
+};
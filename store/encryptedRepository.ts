@@ -0,0 +1,105 @@
+import { Note } from '../types';
+import { LoadNotesResult, NoteRepository, RawRecord, SETTINGS_KEYS } from './repository';
+import { createEntry } from './recovery';
+import { VaultKeys, isSealed, openWithKeys, seal } from './vault';
+import { logger } from './logger';
+
+// What the backend stores for an encrypted note. Only the id is kept in the
+// clear so the backend can still diff and order records.
+type SealedNote = Note & { sealed: string };
+
+const isSealedNote = (note: Note): note is SealedNote =>
+  typeof (note as SealedNote).sealed === 'string';
+
+// Encrypts every note and setting on its way into `inner` and decrypts on
+// the way out. Plaintext records are read as-is so a vault can be enabled,
+// re-keyed or disabled without an all-or-nothing rewrite.
+export const createEncryptedRepository = (inner: NoteRepository, keys: VaultKeys): NoteRepository => {
+  // Notes are immutable in the store, so reusing the sealed record for an
+  // unchanged note keeps the backend's diff-based saves working
+  const sealedNotes = new WeakMap<Note, SealedNote>();
+
+  const sealNote = (note: Note) => {
+    let sealedNote = sealedNotes.get(note);
+    if (!sealedNote) {
+      sealedNote = {
+        id: note.id,
+        title: '',
+        content: '',
+        tags: [],
+        isPinned: false,
+        isDeleted: false,
+        createdAt: '',
+        updatedAt: '',
+        schemaVersion: 0,
+        sealed: seal(keys.key, JSON.stringify(note)),
+      };
+      sealedNotes.set(note, sealedNote);
+    }
+    return sealedNote;
+  };
+
+  const loadNotes = async (): Promise<LoadNotesResult> => {
+    const { notes: storedNotes, damaged } = await inner.loadNotes();
+    const notes: Note[] = [];
+
+    storedNotes.forEach(stored => {
+      if (!isSealedNote(stored)) {
+        notes.push(stored);
+        return;
+      }
+      try {
+        const { plaintext, stale } = openWithKeys(keys, stored.sealed);
+        const note: Note = JSON.parse(plaintext);
+        // Records under an old key are left uncached so the next save
+        // re-encrypts them
+        if (!stale) sealedNotes.set(note, stored);
+        notes.push(note);
+      } catch (error) {
+        logger.error('Error decrypting note:', stored.id, error);
+        damaged.push(createEntry(`vault:notes/${stored.id}`, stored.sealed, error));
+      }
+    });
+
+    return { notes, damaged };
+  };
+
+  // Decrypt what can be decrypted so sealed notes can be salvaged too.
+  // Anything that can't is passed on as stored.
+  const openRawRecord = (record: RawRecord): RawRecord => {
+    if (record.payload === null) return record;
+    try {
+      const stored = JSON.parse(record.payload);
+      if (stored && typeof stored.sealed === 'string') {
+        return { ...record, payload: openWithKeys(keys, stored.sealed).plaintext };
+      }
+    } catch {
+      // Not a sealed record, or damaged - salvage works on the raw text
+    }
+    return record;
+  };
+
+  return {
+    name: `${inner.name} (encrypted)`,
+    loadNotes,
+    saveNotes: notes => inner.saveNotes(notes.map(sealNote)),
+    clearNotes: inner.clearNotes,
+    getSetting: async key => {
+      const value = await inner.getSetting(key);
+      if (value === null || !isSealed(value)) return value;
+      try {
+        return openWithKeys(keys, value).plaintext;
+      } catch (error) {
+        // Hand back the sealed value so the caller treats it as damaged
+        logger.error('Error decrypting setting:', key, error);
+        return value;
+      }
+    },
+    setSetting: (key, value) =>
+      inner.setSetting(key, key === SETTINGS_KEYS.vault ? value : seal(keys.key, value)),
+    removeSetting: inner.removeSetting,
+    listSettingKeys: inner.listSettingKeys,
+    readRawRecords: async () => (await inner.readRawRecords()).map(openRawRecord),
+    clearAll: inner.clearAll,
+  };
+};
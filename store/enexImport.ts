@@ -0,0 +1,245 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { md5 } from '@noble/hashes/legacy';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { base64 } from '@scure/base';
+import { ImportPreviewItem, ImportedNote } from '../types';
+import { HtmlElement, HtmlNode, escapeHtml, findElement, findElements, parseHtml, textContent } from './html';
+import { checklistHtml } from './markdown';
+import { logger } from './logger';
+
+// ENML tags that carry over to the editor as they are, or as their equivalent
+const RENAMED_TAGS: Record<string, string> = {
+  div: 'div',
+  p: 'div',
+  tr: 'div',
+  b: 'b',
+  strong: 'b',
+  i: 'i',
+  em: 'i',
+  u: 'u',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code',
+  pre: 'pre',
+  blockquote: 'blockquote',
+  h1: 'h1',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h4',
+  h5: 'h5',
+  h6: 'h6',
+  ul: 'ul',
+  ol: 'ol',
+  li: 'li',
+};
+
+// A file embedded in a note, found from the note body by its MD5 hash
+interface EnexResource {
+  data: string;
+  mimeType: string;
+  fileName: string;
+}
+
+interface RenderContext {
+  resources: Map<string, EnexResource>;
+  missing: number;
+}
+
+// Ids come from the note itself, so importing the same export again is a
+// no-op. The content is part of it so notes sharing a title and creation
+// time, like ones made from a template, aren't taken for one another.
+const enexNoteId = (key: string) => `enex_${bytesToHex(sha256(utf8ToBytes(key))).slice(0, 24)}`;
+
+const childElements = (element: HtmlElement, tag: string) =>
+  element.children.filter((node): node is HtmlElement => node.type === 'element' && node.tag === tag);
+
+const childText = (element: HtmlElement, tag: string) => {
+  const [child] = childElements(element, tag);
+  return child ? textContent(child).trim() : '';
+};
+
+// Evernote dates look like 20210105T150405Z
+const parseEnexDate = (text: string) => {
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const readResources = (note: HtmlElement) => {
+  const resources = new Map<string, EnexResource>();
+  childElements(note, 'resource').forEach(resource => {
+    const data = childText(resource, 'data').replace(/\s+/g, '');
+    const [attributes] = childElements(resource, 'resource-attributes');
+    try {
+      resources.set(bytesToHex(md5(base64.decode(data))), {
+        data,
+        mimeType: childText(resource, 'mime'),
+        fileName: attributes ? childText(attributes, 'file-name') : '',
+      });
+    } catch (error) {
+      logger.warn('Skipping damaged Evernote resource:', error);
+    }
+  });
+  return resources;
+};
+
+const isWhitespace = (node: HtmlNode) => node.type === 'text' && !node.text.trim();
+
+// A line that starts with a checkbox, e.g. <div><en-todo checked="true"/>Milk</div>
+const todoOf = (node: HtmlNode) => {
+  if (node.type !== 'element' || (node.tag !== 'div' && node.tag !== 'p')) return null;
+  const first = node.children.find(child => !isWhitespace(child));
+  return first && first.type === 'element' && first.tag === 'en-todo' ? first : null;
+};
+
+// Newer Evernote writes checklists as lists marked up with CSS variables
+const isTodoList = (element: HtmlElement) =>
+  /--en-todo:\s*true/.test(element.attributes.style || '');
+
+const renderMedia = (element: HtmlElement, context: RenderContext) => {
+  const resource = context.resources.get((element.attributes.hash || '').toLowerCase());
+  if (!resource) {
+    context.missing++;
+    return '';
+  }
+  if (resource.mimeType.startsWith('image/')) {
+    return `<img src="data:${escapeHtml(resource.mimeType)};base64,${resource.data}">`;
+  }
+  // Other files have nowhere to go, but the note should say they existed
+  return escapeHtml(`[${resource.fileName || 'Attachment'}]`);
+};
+
+const renderElement = (element: HtmlElement, context: RenderContext): string => {
+  const inner = () => renderEnml(element.children, context);
+
+  switch (element.tag) {
+    case 'br':
+      return '<br>';
+    case 'hr':
+      return '<hr>';
+    case 'en-todo':
+      return element.attributes.checked === 'true' ? '☑ ' : '☐ ';
+    case 'en-media':
+      return renderMedia(element, context);
+    case 'en-crypt':
+      return escapeHtml('[Encrypted text]');
+    case 'img':
+      return /^(https?:|data:image\/)/.test(element.attributes.src || '')
+        ? `<img src="${escapeHtml(element.attributes.src)}">`
+        : '';
+    case 'a':
+      return /^(https?|mailto|tel):/i.test(element.attributes.href || '')
+        ? `<a href="${escapeHtml(element.attributes.href)}">${inner()}</a>`
+        : inner();
+    case 'td':
+    case 'th':
+      return `${inner()} `;
+  }
+
+  if ((element.tag === 'ul' || element.tag === 'ol') && isTodoList(element)) {
+    return checklistHtml(childElements(element, 'li').map(item => {
+      // Each item's text is wrapped in a <div> of its own
+      const [only, ...rest] = item.children.filter(child => !isWhitespace(child));
+      const itemNodes = !rest.length && only?.type === 'element' && only.tag === 'div' ? only.children : item.children;
+      return {
+        html: renderEnml(itemNodes, context),
+        checked: /--en-checked:\s*true/.test(item.attributes.style || ''),
+      };
+    }));
+  }
+
+  const tag = RENAMED_TAGS[element.tag];
+  // Anything else, like <span> and <font>, is unwrapped to its content
+  return tag ? `<${tag}>${inner()}</${tag}>` : inner();
+};
+
+// ENML as the editor's HTML. Lines that start with a checkbox are grouped
+// into the editor's checkbox lists.
+const renderEnml = (nodes: HtmlNode[], context: RenderContext): string => {
+  let html = '';
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.type === 'text') {
+      // Indentation between tags isn't part of the note
+      if (!isWhitespace(node) || !node.text.includes('\n')) html += escapeHtml(node.text);
+      continue;
+    }
+
+    if (todoOf(node)) {
+      const items: { html: string; checked: boolean }[] = [];
+      while (index < nodes.length) {
+        const item = nodes[index];
+        const todo = todoOf(item);
+        if (!todo && !isWhitespace(item)) break;
+        if (todo && item.type === 'element') {
+          items.push({
+            html: renderEnml(item.children.filter(child => child !== todo), context),
+            checked: todo.attributes.checked === 'true',
+          });
+        }
+        index++;
+      }
+      index--;
+      html += checklistHtml(items);
+      continue;
+    }
+
+    html += renderElement(node, context);
+  }
+  return html;
+};
+
+const enexNote = (note: HtmlElement, fileName: string, notebook: string): ImportPreviewItem => {
+  const title = childText(note, 'title');
+  const created = parseEnexDate(childText(note, 'created'));
+  const updated = parseEnexDate(childText(note, 'updated'));
+  const tags = childElements(note, 'tag').map(tag => textContent(tag).trim()).filter(Boolean);
+
+  const context: RenderContext = { resources: readResources(note), missing: 0 };
+  const enml = parseHtml(childText(note, 'content'));
+  const body = findElement(enml, 'en-note');
+  const content = renderEnml(body ? body.children : enml, context);
+
+  const importedNote: ImportedNote = {
+    id: enexNoteId(`${created ?? ''}:${title}:${content}`),
+    title: title || 'Untitled',
+    content,
+    // The notebook is kept as a tag alongside the note's own
+    tags: [notebook, ...tags],
+    isPinned: false,
+    isDeleted: false,
+    createdAt: created,
+    updatedAt: updated ?? created,
+  };
+  return {
+    fileName,
+    note: importedNote,
+    error: null,
+    warning: context.missing > 0
+      ? `${context.missing} ${context.missing === 1 ? 'attachment was' : 'attachments were'} not in the export`
+      : undefined,
+  };
+};
+
+// Every note in an Evernote export. Each .enex file holds one notebook,
+// which only its file name records, so that names a tag.
+export const readEnexFile = (xml: string, fileName: string): ImportPreviewItem[] => {
+  const notebook = fileName.replace(/\.enex$/i, '').trim();
+  const notes = findElements(parseHtml(xml), element => element.tag === 'note');
+  if (notes.length === 0) {
+    return [{ fileName, note: null, error: 'No notes found in this Evernote export' }];
+  }
+
+  logger.log(`Reading ${notes.length} notes from Evernote notebook ${notebook}`);
+  return notes.map(note => {
+    try {
+      return enexNote(note, fileName, notebook);
+    } catch (error) {
+      logger.error('Error converting Evernote note:', error);
+      return { fileName, note: null, error: `"${childText(note, 'title') || 'Untitled'}" could not be converted` };
+    }
+  });
+};
@@ -0,0 +1,230 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { base64 } from '@scure/base';
+import { Note } from '../types';
+import { ATTACHMENT_SCHEME, getAttachmentIds, readAttachmentData } from './attachments';
+import { getReadableContent } from './noteLock';
+import { MARKDOWN_ATTACHMENTS_DIR, noteToMarkdown } from './markdown';
+import { TAG_SEPARATOR } from './tags';
+import { logger } from './logger';
+
+// Longest file name used for an exported note, before its extension
+const MAX_FILE_NAME_LENGTH = 80;
+
+// Zip entries without a date of their own, like attachments, get this one
+// so that exporting the same notes twice gives identical archives
+const FIXED_ZIP_DATE = new Date('2000-01-01T00:00:00Z');
+
+export interface ExportResult {
+  uri: string;
+  mimeType: string;
+  exported: number;
+  // Locked notes that weren't opened with their PIN are left out
+  skippedLocked: number;
+}
+
+// A note with its content readable, ready to be written out
+interface ReadableNote {
+  note: Note;
+  content: string;
+}
+
+// Exports are written to the cache before being shared
+export const exportsSupported = () => FileSystem.cacheDirectory !== null;
+
+// A file name that is safe on every platform and in Git repositories
+export const safeFileName = (name: string, fallback = 'Untitled') => {
+  const cleaned = name
+    .replace(/[\/\\:*?"<>|#^[\]\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+  return cleaned || fallback;
+};
+
+// One file name per note, numbered where titles repeat. Compared without
+// case since some file systems ignore it.
+export const uniqueFileNames = (notes: Note[]) => {
+  const used = new Set<string>();
+  const names = new Map<string, string>();
+
+  notes.forEach(note => {
+    const base = safeFileName(note.title);
+    let name = base;
+    for (let count = 2; used.has(name.toLowerCase()); count++) {
+      name = `${base} ${count}`;
+    }
+    used.add(name.toLowerCase());
+    names.set(note.id, name);
+  });
+
+  return names;
+};
+
+// Notes whose content can be exported, skipping trashed notes and locked
+// notes that haven't been opened
+export const getReadableNotes = (notes: Note[]) => {
+  const readable: ReadableNote[] = [];
+  let skippedLocked = 0;
+
+  notes.filter(note => !note.isDeleted).forEach(note => {
+    try {
+      readable.push({ note, content: getReadableContent(note) });
+    } catch {
+      skippedLocked++;
+    }
+  });
+
+  return { readable, skippedLocked };
+};
+
+// Read the attachment files the given content uses, as zip entries
+export const collectAttachmentFiles = async (contents: string[], folder: string) => {
+  const files: Record<string, Uint8Array> = {};
+  const ids = new Set<string>();
+  contents.forEach(content => getAttachmentIds(content).forEach(id => ids.add(id)));
+
+  for (const id of ids) {
+    const data = await readAttachmentData(id);
+    if (data) {
+      files[`${folder}/${id}`] = base64.decode(data);
+    } else {
+      logger.warn('Attachment missing from export:', id);
+    }
+  }
+  return files;
+};
+
+export const writeZipFile = async (fileName: string, files: Zippable) => {
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, base64.encode(zipSync(files)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+};
+
+// Export notes as Markdown files with YAML front matter. A single note
+// without images is written as one .md file; anything else is zipped
+// together with an attachments folder the images link to.
+export const exportMarkdown = async (notes: Note[], name: string): Promise<ExportResult> => {
+  if (!exportsSupported()) {
+    throw new Error('Exporting is not supported on this platform');
+  }
+
+  const { readable, skippedLocked } = getReadableNotes(notes);
+  if (readable.length === 0) {
+    throw new Error('There are no notes to export');
+  }
+
+  const fileNames = uniqueFileNames(readable.map(({ note }) => note));
+  const attachmentFiles = await collectAttachmentFiles(
+    readable.map(({ content }) => content),
+    MARKDOWN_ATTACHMENTS_DIR
+  );
+
+  if (readable.length === 1 && Object.keys(attachmentFiles).length === 0) {
+    const [{ note, content }] = readable;
+    const uri = `${FileSystem.cacheDirectory}${fileNames.get(note.id)}.md`;
+    await FileSystem.writeAsStringAsync(uri, noteToMarkdown(note, content));
+    return { uri, mimeType: 'text/markdown', exported: 1, skippedLocked };
+  }
+
+  const files: Record<string, Uint8Array> = { ...attachmentFiles };
+  readable.forEach(({ note, content }) => {
+    files[`${fileNames.get(note.id)}.md`] = strToU8(noteToMarkdown(note, content));
+  });
+
+  const uri = await writeZipFile(`${safeFileName(name, 'notes')}-markdown.zip`, files);
+  logger.log(`Exported ${readable.length} notes as Markdown, skipped ${skippedLocked} locked`);
+  return { uri, mimeType: 'application/zip', exported: readable.length, skippedLocked };
+};
+
+// Zip dates must fall between 1980 and 2099
+const zipDate = (iso: string) => {
+  const date = new Date(iso);
+  const year = date.getFullYear();
+  return Number.isNaN(date.getTime()) || year < 1981 || year > 2098 ? FIXED_ZIP_DATE : date;
+};
+
+// Nested tags become nested folders
+const folderName = (tag: string) =>
+  tag
+    .split(TAG_SEPARATOR)
+    .map(part => safeFileName(part.charAt(0).toUpperCase() + part.slice(1), 'Untagged'))
+    .join('/');
+
+// Export notes as an Obsidian vault: a folder per tag, with images in
+// an attachments folder at the top linked relatively. Entries are sorted
+// and dated by each note's last edit, and file names only change when a
+// title does, so unpacking a new export over an old one only touches the
+// notes that changed. A note goes in the folder of whichever of its tags
+// comes first in `tags`, and keeps all of them in its front matter.
+export const exportObsidianVault = async (
+  notes: Note[],
+  name: string,
+  tags: string[] = []
+): Promise<ExportResult> => {
+  if (!exportsSupported()) {
+    throw new Error('Exporting is not supported on this platform');
+  }
+
+  const { readable, skippedLocked } = getReadableNotes(notes);
+  if (readable.length === 0) {
+    throw new Error('There are no notes to export');
+  }
+
+  // Oldest first, so numbering for repeated titles stays put as notes are added
+  readable.sort((a, b) =>
+    a.note.createdAt.localeCompare(b.note.createdAt) || a.note.id.localeCompare(b.note.id));
+
+  const folders = new Map<string, ReadableNote[]>();
+  tags
+    .filter(tag => !readable.some(({ note }) => note.tags.includes(tag)))
+    .forEach(tag => folders.set(folderName(tag), []));
+  readable.forEach(item => {
+    const folderTag = tags.find(tag => item.note.tags.includes(tag)) ?? item.note.tags[0] ?? '';
+    const folder = folderName(folderTag);
+    folders.set(folder, [...(folders.get(folder) || []), item]);
+  });
+
+  const files: Record<string, Uint8Array> = {};
+  const dates: Record<string, Date> = {};
+  folders.forEach((items, folder) => {
+    const toTop = '../'.repeat(folder.split('/').length);
+    const resolveImage = (src: string) =>
+      src.startsWith(ATTACHMENT_SCHEME)
+        ? `${toTop}${MARKDOWN_ATTACHMENTS_DIR}/${src.slice(ATTACHMENT_SCHEME.length)}`
+        : src;
+    // Every tag gets its folder, even when it has no notes yet
+    files[`${folder}/`] = new Uint8Array(0);
+    const fileNames = uniqueFileNames(items.map(({ note }) => note));
+    items.forEach(({ note, content }) => {
+      const path = `${folder}/${fileNames.get(note.id)}.md`;
+      files[path] = strToU8(noteToMarkdown(note, content, { resolveImage }));
+      dates[path] = zipDate(note.updatedAt);
+    });
+  });
+  Object.assign(files, await collectAttachmentFiles(
+    readable.map(({ content }) => content),
+    MARKDOWN_ATTACHMENTS_DIR
+  ));
+
+  const entries: Zippable = {};
+  Object.keys(files).sort().forEach(path => {
+    entries[path] = [files[path], { mtime: dates[path] ?? FIXED_ZIP_DATE }];
+  });
+
+  const uri = await writeZipFile(`${safeFileName(name, 'notes')}-obsidian.zip`, entries);
+  logger.log(`Exported ${readable.length} notes as an Obsidian vault, skipped ${skippedLocked} locked`);
+  return { uri, mimeType: 'application/zip', exported: readable.length, skippedLocked };
+};
+
+// Hand an export to the system share sheet. Resolves to false if sharing
+// isn't available on this device.
+export const shareExport = async (result: ExportResult, dialogTitle: string) => {
+  if (!await Sharing.isAvailableAsync()) return false;
+  await Sharing.shareAsync(result.uri, { mimeType: result.mimeType, dialogTitle });
+  return true;
+};
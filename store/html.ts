@@ -0,0 +1,181 @@
+// A small, forgiving HTML parser for note content. The editor's output is
+// simple enough that a tree of elements and text is all converters need,
+// and React Native has no DOM to parse it with.
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+// Tags closed by an opening sibling of the same kind, e.g. <li>a<li>b
+const SELF_CLOSING_SIBLINGS = new Set(['li', 'p', 'option']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+};
+
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|<![^>]*>|<\?[^>]*\?>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const parseAttributes = (source: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attributes;
+};
+
+// Parse HTML into a tree. Unclosed tags are closed at the end and stray
+// closing tags are ignored, so damaged markup still yields its text.
+export const parseHtml = (html: string): HtmlNode[] => {
+  const root: HtmlElement = { type: 'element', tag: '#root', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const addText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text });
+  };
+
+  let lastIndex = 0;
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    addText(decodeEntities(html.slice(lastIndex, match.index)));
+    lastIndex = match.index! + match[0].length;
+
+    const [, cdata, closing, rawTag, attributeSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      addText(cdata);
+      continue;
+    }
+    if (!rawTag) continue;
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (SELF_CLOSING_SIBLINGS.has(tag) && current().tag === tag) {
+      stack.pop();
+    }
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attributes: parseAttributes(attributeSource || ''),
+      children: [],
+    };
+    current().children.push(element);
+    if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  addText(decodeEntities(html.slice(lastIndex)));
+
+  return root.children;
+};
+
+// All the text inside a node, without any markup
+export const textContent = (node: HtmlNode): string =>
+  node.type === 'text' ? node.text : node.children.map(textContent).join('');
+
+// Depth-first search for the first element with the given tag
+export const findElement = (nodes: HtmlNode[], tag: string): HtmlElement | null => {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+    if (node.tag === tag) return node;
+    const found = findElement(node.children, tag);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Every element, at any depth, that matches
+export const findElements = (
+  nodes: HtmlNode[],
+  match: (element: HtmlElement) => boolean
+): HtmlElement[] =>
+  nodes.flatMap(node => {
+    if (node.type !== 'element') return [];
+    const inner = findElements(node.children, match);
+    return match(node) ? [node, ...inner] : inner;
+  });
+
+export const hasClass = (element: HtmlElement, name: string) =>
+  (element.attributes.class || '').split(/\s+/).includes(name);
+
+// Never shown, so left out of text along with their content
+const HIDDEN_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template']);
+
+const INLINE_TAGS = new Set([
+  'span', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del', 'code', 'a', 'sub', 'sup', 'font',
+]);
+
+// Note HTML as plain text with a line per block. Checkboxes and images are
+// marked so changes to them still show.
+export const htmlToText = (html: string) => {
+  const render = (nodes: HtmlNode[]): string =>
+    nodes.map(node => {
+      if (node.type === 'text') return node.text;
+      if (HIDDEN_TAGS.has(node.tag)) return '';
+      if (node.tag === 'br') return '\n';
+      if (node.tag === 'img') return '[image]';
+      if (node.tag === 'input' && node.attributes.type === 'checkbox') {
+        return node.attributes.checked !== undefined ? '[x] ' : '[ ] ';
+      }
+      return INLINE_TAGS.has(node.tag) ? render(node.children) : `\n${render(node.children)}\n`;
+    }).join('');
+
+  return render(parseHtml(html))
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
@@ -0,0 +1,166 @@
+import * as FileSystem from 'expo-file-system';
+import { unzipSync } from 'fflate';
+import { base64 } from '@scure/base';
+import { ImportPreviewItem, NewNote } from '../types';
+import { attachmentRef } from './attachments';
+import { MARKDOWN_ATTACHMENTS_DIR, markdownToHtml, parseFrontMatter, textToHtml } from './markdown';
+import { isKeepJsonNote, keepNoteFromHtml, keepNoteFromJson, readKeepArchive } from './keepImport';
+import { readEnexFile } from './enexImport';
+import { normalizeTags, tagsFromCategory } from './tags';
+import { logger } from './logger';
+
+export const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'mdown', 'mkd'];
+export const TEXT_EXTENSIONS = ['txt', 'text'];
+// Google Keep notes from Takeout, one by one or as the whole zip
+export const KEEP_EXTENSIONS = ['json', 'html', 'htm', 'zip'];
+export const EVERNOTE_EXTENSIONS = ['enex'];
+
+// Larger files are almost certainly not notes
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+// Exports from other apps hold many notes and their images
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+// A file the user picked to import
+export interface PickedFile {
+  name: string;
+  uri: string;
+  size?: number;
+}
+
+const splitFileName = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0
+    ? { base: name.slice(0, dot), extension: name.slice(dot + 1).toLowerCase() }
+    : { base: name, extension: '' };
+};
+
+// Images exported by NoteEase point into its attachments folder; bring
+// those back to attachment references and keep other remote images
+const resolveImportedImage = (src: string) => {
+  const exported = src.match(new RegExp(`^(?:\\./)?${MARKDOWN_ATTACHMENTS_DIR}/([0-9a-f]{64}\\.\\w+)$`));
+  if (exported) return attachmentRef(exported[1]);
+  return /^(https?:|data:image\/)/.test(src) ? src : null;
+};
+
+// A Markdown document as a new note. The title comes from the front
+// matter, else a leading top-level heading, else the file name.
+export const markdownToNote = (markdown: string, fileName: string): NewNote => {
+  const { attributes, lists, body } = parseFrontMatter(markdown);
+  let title = attributes.title?.trim();
+  let content = body;
+
+  if (!title) {
+    const heading = body.match(/^\s*# +(.+?)(?: +#+)? *(?:\n|$)/);
+    if (heading) {
+      title = heading[1].trim();
+      content = body.slice(heading[0].length);
+    }
+  }
+
+  return {
+    title: title || splitFileName(fileName).base,
+    content: markdownToHtml(content, { resolveImage: resolveImportedImage }),
+    // Tags as a list or comma-separated; exports from before tags had a category
+    tags: normalizeTags([
+      ...(lists.tags ?? (attributes.tags || '').split(',')),
+      ...tagsFromCategory(attributes.category),
+    ]),
+    isPinned: attributes.pinned === 'true',
+    isDeleted: false,
+  };
+};
+
+export const textToNote = (text: string, fileName: string): NewNote => ({
+  title: splitFileName(fileName).base,
+  content: textToHtml(text),
+  tags: [],
+  isPinned: false,
+  isDeleted: false,
+});
+
+// Read a picked export from Keep or Evernote into its notes
+const readExternalFile = async (file: PickedFile, extension: string): Promise<ImportPreviewItem[]> => {
+  if (extension === 'zip') {
+    const data = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    // Takeout zips can hold other products too; only unpack what Keep uses
+    const files = unzipSync(base64.decode(data), {
+      filter: entry => /\.(json|html?|png|jpe?g|gif|webp)$/i.test(entry.name),
+    });
+    const items = readKeepArchive(files, file.name);
+    return items.length > 0
+      ? items
+      : [{ fileName: file.name, note: null, error: 'No Google Keep notes found in this archive' }];
+  }
+
+  const text = await FileSystem.readAsStringAsync(file.uri);
+  if (EVERNOTE_EXTENSIONS.includes(extension)) {
+    return readEnexFile(text, file.name);
+  }
+  if (extension === 'json') {
+    let json: unknown = null;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      // Reported below like any other JSON that isn't a Keep note
+    }
+    return isKeepJsonNote(json)
+      ? [keepNoteFromJson(json, file.name)]
+      : [{ fileName: file.name, note: null, error: 'Not a Google Keep note' }];
+  }
+  return [keepNoteFromHtml(text, file.name)];
+};
+
+// Read one picked file into its notes, or the reason it can't be imported.
+// Markdown and text files are one note each; exports from other apps can
+// hold many.
+export const readImportFile = async (file: PickedFile): Promise<ImportPreviewItem[]> => {
+  const { extension } = splitFileName(file.name);
+  const isMarkdown = MARKDOWN_EXTENSIONS.includes(extension);
+  const isExternal = KEEP_EXTENSIONS.includes(extension) || EVERNOTE_EXTENSIONS.includes(extension);
+  const preview = (note: NewNote | null, error: string | null) => [{ fileName: file.name, note, error }];
+
+  if (!isMarkdown && !isExternal && !TEXT_EXTENSIONS.includes(extension)) {
+    return preview(null, 'Only .md, .txt, Google Keep and Evernote files can be imported');
+  }
+  if (file.size !== undefined && file.size > (isExternal ? MAX_ARCHIVE_BYTES : MAX_IMPORT_BYTES)) {
+    return preview(null, isExternal ? 'File is too large to import' : 'File is too large to be a note');
+  }
+
+  if (isExternal) {
+    try {
+      const items = await readExternalFile(file, extension);
+      // Labels and notebooks may match the default tags
+      return items.map(item => item.note
+        ? { ...item, note: { ...item.note, tags: normalizeTags(item.note.tags) } }
+        : item);
+    } catch (error) {
+      logger.error('Error reading import archive:', file.name, error);
+      return preview(null, 'File could not be read');
+    }
+  }
+
+  let text: string;
+  try {
+    text = await FileSystem.readAsStringAsync(file.uri);
+  } catch (error) {
+    logger.error('Error reading import file:', file.name, error);
+    return preview(null, 'File could not be read');
+  }
+
+  if (!text.trim()) {
+    return preview(null, 'File is empty');
+  }
+  // Binary files read as text are full of NUL characters
+  if (text.includes('\u0000')) {
+    return preview(null, 'File is not a text file');
+  }
+
+  try {
+    return preview(isMarkdown ? markdownToNote(text, file.name) : textToNote(text, file.name), null);
+  } catch (error) {
+    logger.error('Error converting import file:', file.name, error);
+    return preview(null, 'File could not be converted');
+  }
+};
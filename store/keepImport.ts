@@ -0,0 +1,231 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { strFromU8 } from 'fflate';
+import { base64 } from '@scure/base';
+import { ImportPreviewItem, ImportedNote } from '../types';
+import { HtmlElement, HtmlNode, escapeHtml, findElements, hasClass, parseHtml, textContent } from './html';
+import { checklistHtml, textToHtml } from './markdown';
+import { logger } from './logger';
+
+// Keep has no folders; archived notes are gathered under a tag of their own
+const KEEP_ARCHIVE_TAG = 'Archive';
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// A note as Google Takeout writes it to JSON
+interface KeepJsonNote {
+  title?: string;
+  textContent?: string;
+  listContent?: { text?: string; isChecked?: boolean }[];
+  labels?: { name?: string }[];
+  attachments?: { filePath?: string; mimetype?: string }[];
+  isPinned?: boolean;
+  isTrashed?: boolean;
+  isArchived?: boolean;
+  createdTimestampUsec?: number;
+  userEditedTimestampUsec?: number;
+}
+
+// Finds an image from the archive by its path, as a data URL
+type ImageLookup = (path: string, mimeType?: string) => string | null;
+
+const noImages: ImageLookup = () => null;
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+
+// Ids come from the note's place in Keep, so importing it again is a no-op
+const keepNoteId = (key: string) => `keep_${bytesToHex(sha256(utf8ToBytes(key))).slice(0, 24)}`;
+
+const fromUsec = (usec: number | undefined) =>
+  typeof usec === 'number' && usec > 0 ? new Date(Math.floor(usec / 1000)).toISOString() : undefined;
+
+// Takeout's HTML only has the edit time, e.g. "Jan 5, 2021, 3:04:05 PM"
+const parseKeepDate = (text: string) => {
+  const match = text.match(/([a-z]{3})[a-z]*\.?\s+(\d{1,2}),\s*(\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?/i);
+  if (!match) return undefined;
+  const [, month, day, year, hours, minutes, seconds, meridiem] = match;
+  const monthIndex = MONTHS.indexOf(month.toLowerCase());
+  if (monthIndex < 0) return undefined;
+
+  let hour = Number(hours);
+  if (meridiem) hour = hour % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  const date = new Date(Number(year), monthIndex, Number(day), hour, Number(minutes), Number(seconds || 0));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Labels carry over as tags
+const labelTags = (labels: string[], isArchived: boolean) =>
+  isArchived ? [...labels, KEEP_ARCHIVE_TAG] : labels;
+
+const imagesHtml = (sources: string[]) =>
+  sources.map(src => `<div><img src="${escapeHtml(src)}"></div>`).join('');
+
+const missingWarning = (missing: number) =>
+  missing > 0 ? `${missing} ${missing === 1 ? 'image was' : 'images were'} not in the export` : undefined;
+
+export const isKeepJsonNote = (value: unknown): value is KeepJsonNote =>
+  !!value &&
+  typeof value === 'object' &&
+  ('createdTimestampUsec' in value || 'userEditedTimestampUsec' in value) &&
+  ('textContent' in value || 'listContent' in value || 'title' in value);
+
+export const keepNoteFromJson = (
+  json: KeepJsonNote,
+  fileName: string,
+  findImage: ImageLookup = noImages
+): ImportPreviewItem => {
+  const labels = (json.labels || []).map(label => (label.name || '').trim()).filter(Boolean);
+  const tags = labelTags(labels, !!json.isArchived);
+
+  const body = json.listContent
+    ? checklistHtml(json.listContent.map(item => ({
+        html: escapeHtml(item.text || ''),
+        checked: !!item.isChecked,
+      })))
+    : textToHtml(json.textContent || '');
+
+  let missing = 0;
+  const images: string[] = [];
+  (json.attachments || []).forEach(attachment => {
+    const image = attachment.filePath ? findImage(attachment.filePath, attachment.mimetype) : null;
+    if (image) images.push(image);
+    else missing++;
+  });
+
+  const createdAt = fromUsec(json.createdTimestampUsec);
+  const note: ImportedNote = {
+    id: keepNoteId(json.createdTimestampUsec ? `usec:${json.createdTimestampUsec}` : `file:${fileName}`),
+    title: (json.title || '').trim() || stripExtension(baseName(fileName)),
+    content: `${body}${imagesHtml(images)}`,
+    tags,
+    isPinned: !!json.isPinned,
+    // Takeout doesn't record when a note was trashed, so importing stamps it
+    isDeleted: !!json.isTrashed,
+    createdAt,
+    updatedAt: fromUsec(json.userEditedTimestampUsec) ?? createdAt,
+  };
+  return { fileName, note, error: null, warning: missingWarning(missing) };
+};
+
+// Text inside Keep's HTML, where lines are separated by <br>
+const keepText = (nodes: HtmlNode[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.tag === 'br') return '\n';
+    return keepText(node.children);
+  }).join('');
+
+const firstByClass = (nodes: HtmlNode[], name: string): HtmlElement | null =>
+  findElements(nodes, element => hasClass(element, name))[0] ?? null;
+
+// Older Takeouts, and people who only kept the HTML, have one page per note
+export const keepNoteFromHtml = (
+  html: string,
+  fileName: string,
+  findImage: ImageLookup = noImages
+): ImportPreviewItem => {
+  const nodes = parseHtml(html);
+  const root = firstByClass(nodes, 'note');
+  if (!root) {
+    return { fileName, note: null, error: 'Not a Google Keep note' };
+  }
+
+  const heading = firstByClass([root], 'heading');
+  const title = firstByClass([root], 'title');
+  const content = firstByClass([root], 'content');
+  const flagged = (name: string) => findElements([root], element => hasClass(element, name)).length > 0;
+
+  const listItems = content ? findElements([content], element => hasClass(element, 'listitem')) : [];
+  const body = listItems.length > 0
+    ? checklistHtml(listItems.map(item => {
+        const text = firstByClass([item], 'text');
+        const bullet = firstByClass([item], 'bullet');
+        return {
+          html: escapeHtml(textContent(text ?? item).trim()),
+          checked: hasClass(item, 'checked') || (bullet ? textContent(bullet).includes('☑') : false),
+        };
+      }))
+    : textToHtml(content ? keepText(content.children) : '');
+
+  const labels = findElements([root], element => hasClass(element, 'label-name'))
+    .map(element => textContent(element).trim())
+    .filter(Boolean);
+  const tags = labelTags(labels, flagged('archived'));
+
+  let missing = 0;
+  const images: string[] = [];
+  const attachments = firstByClass([root], 'attachments');
+  findElements(attachments ? [attachments] : [], element => element.tag === 'img').forEach(img => {
+    const src = img.attributes.src || '';
+    const image = src.startsWith('data:image/') ? src : findImage(src);
+    if (image) images.push(image);
+    else missing++;
+  });
+
+  const editedText = heading ? textContent(heading).trim() : '';
+  const updatedAt = parseKeepDate(editedText);
+  const titleText = title ? textContent(title).trim() : '';
+  const note: ImportedNote = {
+    id: keepNoteId(`html:${titleText}:${editedText}:${stripExtension(baseName(fileName))}`),
+    title: titleText || stripExtension(baseName(fileName)),
+    content: `${body}${imagesHtml(images)}`,
+    tags,
+    isPinned: flagged('pinned'),
+    isDeleted: flagged('trashed'),
+    createdAt: updatedAt,
+    updatedAt,
+  };
+  return { fileName, note, error: null, warning: missingWarning(missing) };
+};
+
+// Every note in a Takeout zip. Each note is there as both JSON and HTML;
+// the JSON has more detail, so HTML is only read when it stands alone.
+// Other Google products in the same archive are ignored.
+export const readKeepArchive = (files: Record<string, Uint8Array>, archiveName: string) => {
+  const imagesByName = new Map<string, Uint8Array>();
+  Object.keys(files).forEach(path => {
+    if (IMAGE_TYPES[path.split('.').pop()!.toLowerCase()]) {
+      imagesByName.set(baseName(path), files[path]);
+    }
+  });
+
+  const findImage: ImageLookup = (path, mimeType) => {
+    const data = imagesByName.get(baseName(path));
+    if (!data) return null;
+    const type = mimeType || IMAGE_TYPES[path.split('.').pop()!.toLowerCase()] || 'image/jpeg';
+    return `data:${type};base64,${base64.encode(data)}`;
+  };
+
+  const items: ImportPreviewItem[] = [];
+  const jsonNotes = new Set<string>();
+  Object.keys(files).filter(path => /\.json$/i.test(path)).forEach(path => {
+    try {
+      const json = JSON.parse(strFromU8(files[path]));
+      if (!isKeepJsonNote(json)) return;
+      items.push(keepNoteFromJson(json, baseName(path), findImage));
+      jsonNotes.add(stripExtension(path));
+    } catch (error) {
+      logger.warn('Skipping unreadable JSON in Keep archive:', path, error);
+    }
+  });
+
+  Object.keys(files)
+    .filter(path => /\.html?$/i.test(path) && !jsonNotes.has(stripExtension(path)))
+    .forEach(path => {
+      const item = keepNoteFromHtml(strFromU8(files[path]), baseName(path), findImage);
+      if (item.note) items.push(item);
+    });
+
+  logger.log(`Read ${items.length} notes from Keep archive ${archiveName}`);
+  return items;
+};
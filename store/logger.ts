@@ -0,0 +1,15 @@
+// Logs only in development builds. Jest sets __DEV__ too, so tests stay
+// quiet.
+const enabled = __DEV__ && process.env.NODE_ENV !== 'test';
+
+export const logger = {
+  log: (...args: any[]) => {
+    if (enabled) console.log(...args);
+  },
+  warn: (...args: any[]) => {
+    if (enabled) console.warn(...args);
+  },
+  error: (...args: any[]) => {
+    if (enabled) console.error(...args);
+  }
+};
@@ -0,0 +1,588 @@
+import { Note } from '../types';
+import { ATTACHMENT_SCHEME } from './attachments';
+import { HtmlElement, HtmlNode, escapeHtml, parseHtml, textContent } from './html';
+
+export interface MarkdownOptions {
+  // Rewrite an image source, e.g. to point at an exported attachment file
+  resolveImage?: (src: string) => string;
+}
+
+// Attachments are written next to exported notes in this folder
+export const MARKDOWN_ATTACHMENTS_DIR = 'attachments';
+
+const defaultResolveImage = (src: string) =>
+  src.startsWith(ATTACHMENT_SCHEME)
+    ? `${MARKDOWN_ATTACHMENTS_DIR}/${src.slice(ATTACHMENT_SCHEME.length)}`
+    : src;
+
+// Placeholder for line breaks inside code, which the whitespace cleanup
+// below must leave alone
+const CODE_BREAK = '\u0000';
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+// Put emphasis markers inside any surrounding whitespace, since `** bold**`
+// isn't bold in Markdown
+const wrapInline = (content: string, marker: string, closing = marker) => {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  const [, leading, core, trailing] = match;
+  return core ? `${leading}${marker}${core}${closing}${trailing}` : content;
+};
+
+const block = (content: string) => `\n\n${content}\n\n`;
+
+const isCheckboxList = (element: HtmlElement) =>
+  element.tag === 'ol' && (element.attributes.class || '').split(/\s+/).includes('x-todo');
+
+const findCheckbox = (element: HtmlElement): HtmlElement | null => {
+  for (const child of element.children) {
+    if (child.type !== 'element') continue;
+    if (child.tag === 'input' && child.attributes.type === 'checkbox') return child;
+    const found = findCheckbox(child);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Code block text keeps its line breaks, whether they're <br>, <div> or newlines
+const codeText = (node: HtmlNode): string => {
+  if (node.type === 'text') return node.text.replace(/\n/g, CODE_BREAK);
+  if (node.tag === 'br') return CODE_BREAK;
+
+  let text = '';
+  node.children.forEach(child => {
+    const isLine = child.type === 'element' && (child.tag === 'div' || child.tag === 'p');
+    if (isLine && text && !text.endsWith(CODE_BREAK)) text += CODE_BREAK;
+    text += codeText(child);
+    if (isLine && !text.endsWith(CODE_BREAK)) text += CODE_BREAK;
+  });
+  return text;
+};
+
+const indent = (text: string, prefix: string) =>
+  text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+
+class MarkdownRenderer {
+  constructor(private options: Required<MarkdownOptions>) {}
+
+  renderNodes(nodes: HtmlNode[]): string {
+    return nodes.map(node => this.renderNode(node)).join('');
+  }
+
+  renderNode(node: HtmlNode): string {
+    if (node.type === 'text') {
+      return escapeMarkdown(node.text.replace(/\s+/g, ' '));
+    }
+
+    const children = () => this.renderNodes(node.children);
+
+    switch (node.tag) {
+      case 'b':
+      case 'strong':
+        return wrapInline(children(), '**');
+      case 'i':
+      case 'em':
+        return wrapInline(children(), '*');
+      case 's':
+      case 'strike':
+      case 'del':
+        return wrapInline(children(), '~~');
+      // Markdown has no underline; inline HTML is the portable fallback
+      case 'u':
+      case 'ins':
+        return wrapInline(children(), '<u>', '</u>');
+      case 'code':
+        return this.renderInlineCode(node);
+      case 'a': {
+        const href = node.attributes.href;
+        const text = children();
+        return href ? `[${text.trim() || href}](${href})` : text;
+      }
+      case 'img': {
+        const src = node.attributes.src;
+        if (!src) return '';
+        return `![${escapeMarkdown(node.attributes.alt || '')}](${this.options.resolveImage(src)})`;
+      }
+      case 'br':
+        return '  \n';
+      case 'input':
+        return node.attributes.type === 'checkbox'
+          ? (node.attributes.checked !== undefined ? '[x] ' : '[ ] ')
+          : '';
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const text = children().replace(/\s*\n\s*/g, ' ').trim();
+        return text ? block(`${'#'.repeat(Number(node.tag[1]))} ${text}`) : '';
+      }
+      case 'ul':
+      case 'ol':
+        return block(this.renderList(node));
+      case 'pre':
+        return this.renderCodeBlock(node);
+      case 'blockquote':
+        return block(indent(this.clean(children()), '> ').replace(/^$/gm, '>'));
+      case 'hr':
+        return block('---');
+      case 'p':
+      case 'div':
+      case 'tr':
+        return block(children());
+      case 'td':
+      case 'th':
+        return `${children()} `;
+      case 'script':
+      case 'style':
+      case 'head':
+        return '';
+      default:
+        return children();
+    }
+  }
+
+  renderInlineCode(node: HtmlElement) {
+    const text = textContent(node);
+    if (!text) return '';
+    // Use a fence longer than any run of backticks inside
+    const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${text}${padding}${fence}`;
+  }
+
+  renderCodeBlock(node: HtmlElement) {
+    const code = node.children.find(
+      (child): child is HtmlElement => child.type === 'element' && child.tag === 'code'
+    );
+    const language = (code?.attributes.type || node.attributes.type || '').replace(/[^\w+-]/g, '');
+    const text = codeText(node).replace(new RegExp(`^${CODE_BREAK}+|${CODE_BREAK}+$`, 'g'), '');
+    const longestRun = Math.max(0, ...(text.match(/`{3,}/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return block(`${fence}${language}${CODE_BREAK}${text}${CODE_BREAK}${fence}`);
+  }
+
+  // The editor nests sublists either inside an item or directly inside the
+  // parent list after it; both end up indented under the previous item
+  renderList(list: HtmlElement) {
+    const ordered = list.tag === 'ol' && !isCheckboxList(list);
+    const checkboxes = isCheckboxList(list);
+    const items: string[] = [];
+    let number = Number(list.attributes.start) || 1;
+
+    list.children.forEach(child => {
+      if (child.type === 'text') {
+        if (child.text.trim()) items.push(`- ${escapeMarkdown(child.text.trim())}`);
+        return;
+      }
+      if (child.tag === 'ul' || child.tag === 'ol') {
+        const nested = indent(this.renderList(child), '    ');
+        if (items.length > 0) items[items.length - 1] += `\n${nested}`;
+        else items.push(nested);
+        return;
+      }
+
+      let marker = ordered ? `${number++}.` : '-';
+      const checkbox = checkboxes ? findCheckbox(child) : null;
+      if (checkbox) {
+        marker += checkbox.attributes.checked !== undefined ? ' [x]' : ' [ ]';
+      }
+
+      // Items stay tight, so blocks inside one are separated by single lines
+      let content = this.clean(this.renderNodes(child.tag === 'li' ? child.children : [child]))
+        .replace(/\n\n+/g, '\n');
+      if (checkbox) {
+        // The box itself is already part of the marker
+        content = content.replace(/^\[[ x]\] /, '');
+      }
+      const [first, ...rest] = content.split('\n');
+      items.push(`${marker} ${first}${rest.length > 0 ? `\n${indent(rest.join('\n'), '    ')}` : ''}`);
+    });
+
+    return items.join('\n');
+  }
+
+  // Collapse the blank lines left between blocks and strip stray spacing
+  clean(markdown: string) {
+    return markdown
+      .replace(/[ \t]+\n\n/g, '\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^\n+|\s+$/g, '')
+      .replace(/(^|\n\n) +/g, '$1');
+  }
+}
+
+// Convert note HTML from the rich editor into Markdown
+export const htmlToMarkdown = (html: string, options: MarkdownOptions = {}) => {
+  const renderer = new MarkdownRenderer({
+    resolveImage: options.resolveImage ?? defaultResolveImage,
+  });
+  const nodes = parseHtml(html);
+  return renderer
+    .clean(renderer.renderNodes(nodes))
+    .replace(/\n?\s*$/, '')
+    .split(CODE_BREAK)
+    .join('\n');
+};
+
+// YAML scalar for the front matter; JSON strings are valid YAML
+const yamlValue = (value: string | boolean) =>
+  typeof value === 'boolean' ? String(value) : JSON.stringify(value);
+
+// A note as a Markdown document with YAML front matter. `content` is passed
+// separately so locked notes can supply their opened content.
+export const noteToMarkdown = (note: Note, content: string, options: MarkdownOptions = {}) => {
+  const frontMatter = [
+    '---',
+    `title: ${yamlValue(note.title)}`,
+    `tags: [${note.tags.map(yamlValue).join(', ')}]`,
+    `pinned: ${yamlValue(note.isPinned)}`,
+    `createdAt: ${yamlValue(note.createdAt)}`,
+    `updatedAt: ${yamlValue(note.updatedAt)}`,
+    '---',
+  ].join('\n');
+
+  const body = htmlToMarkdown(content, options);
+  return `${frontMatter}\n\n${body}\n`;
+};
+
+// Markdown to the HTML dialect the rich editor produces: a <div> per line,
+// <b>/<i>/<u>/<strike> for emphasis, <pre><code> for code and x-todo
+// ordered lists for task lists, so imported notes edit like native ones.
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*).*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const SETEXT_PATTERN = /^ {0,3}(=+|-+)\s*$/;
+
+// Placeholder delimiter for inline spans that must not be reformatted
+const SPAN_MARK = '\u0001';
+
+// Only schemes that are safe to open from a note
+const safeUrl = (url: string) => !/^[\w+.-]+:/.test(url) || /^(https?|mailto|tel):/i.test(url);
+
+export interface MarkdownImportOptions {
+  // Map an image path from the file to a source the editor can show, or
+  // null to keep just its alt text
+  resolveImage?: (src: string) => string | null;
+}
+
+const defaultImportImage = (src: string) =>
+  /^(https?:|data:image\/|attachment:\/\/)/.test(src) ? src : null;
+
+const renderInline = (markdown: string, options: Required<MarkdownImportOptions>): string => {
+  const spans: string[] = [];
+  const protect = (html: string) => `${SPAN_MARK}${spans.push(html) - 1}${SPAN_MARK}`;
+
+  let text = markdown
+    // Code spans first, so nothing inside them is formatted
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _fence, code: string) =>
+      protect(`<code>${escapeHtml(code.replace(/^ ([\s\S]*) $/, '$1'))}</code>`))
+    // Backslash escapes
+    .replace(/\\([\\`*_{}[\]()#+\-.!~<>|])/g, (_, char: string) => protect(escapeHtml(char)))
+    // Hard line breaks
+    .replace(/(?: {2,}|\\)\n/g, () => protect('<br>'))
+    .replace(/<(\/?u|br\s*\/?)>/gi, (_, tag: string) => protect(`<${tag.toLowerCase().replace(/\s*\/$/, '')}>`))
+    .replace(/<((?:https?|mailto):[^\s>]+)>/g, (_, url: string) =>
+      protect(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+  text = text
+    .replace(/!\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, src: string) => {
+      const resolved = options.resolveImage(src);
+      return resolved
+        ? protect(`<img src="${escapeHtml(resolved)}" alt="${escapeHtml(alt)}">`)
+        : alt;
+    })
+    .replace(/\[([^\]]+)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) =>
+      safeUrl(url)
+        ? protect(`<a href="${escapeHtml(url)}">${renderInline(label, options)}</a>`)
+        : label);
+
+  return escapeHtml(text)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<b>$2</b>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<strike>$1</strike>')
+    .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, '<i>$1</i>')
+    .replace(/(^|[^\w])_(?=[^\s_])([^_]*?[^\s_])_(?!\w)/g, '$1<i>$2</i>')
+    .replace(new RegExp(`${SPAN_MARK}(\\d+)${SPAN_MARK}`, 'g'), (_, index: string) => spans[Number(index)])
+    .replace(/\n/g, ' ');
+};
+
+const checkboxHtml = (checked: boolean) =>
+  `<span contenteditable="false" class="x-todo-box"><input type="checkbox"${checked ? ' checked=""' : ''}></span>`;
+
+// The editor's checkbox list, from items that are already HTML
+export const checklistHtml = (items: { html: string; checked: boolean }[]) =>
+  `<ol class='x-todo'>${items.map(item => `<li>${checkboxHtml(item.checked)}${item.html || '<br>'}</li>`).join('')}</ol>`;
+
+const indentWidth = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const isBlockStart = (line: string) =>
+  FENCE_PATTERN.test(line) ||
+  HEADING_PATTERN.test(line) ||
+  RULE_PATTERN.test(line) ||
+  QUOTE_PATTERN.test(line) ||
+  LIST_ITEM_PATTERN.test(line);
+
+interface ListItem {
+  ordered: boolean;
+  task: boolean;
+  checked: boolean;
+  lines: string[];
+}
+
+// Group a list's lines into items. Lines indented past the marker, and
+// any lazy continuations, belong to the item above.
+const collectListItems = (lines: string[], start: number) => {
+  const baseIndent = indentWidth(lines[start]);
+  const items: ListItem[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const match = line.match(LIST_ITEM_PATTERN);
+
+    if (match && indentWidth(line) <= baseIndent + 1) {
+      const text = match[3] ?? '';
+      const task = text.match(TASK_PATTERN);
+      items.push({
+        ordered: /\d/.test(match[2]),
+        task: task !== null,
+        checked: task !== null && task[1] !== ' ',
+        lines: [task ? task[2] : text],
+      });
+      index++;
+      continue;
+    }
+
+    const current = items[items.length - 1];
+    if (!line.trim()) {
+      // A blank line ends the list unless the next line carries on with it
+      const next = lines[index + 1];
+      if (next === undefined || (indentWidth(next) <= baseIndent && !LIST_ITEM_PATTERN.test(next))) break;
+      current.lines.push('');
+      index++;
+      continue;
+    }
+    if (indentWidth(line) > baseIndent) {
+      current.lines.push(line.slice(Math.min(indentWidth(line), baseIndent + 2)));
+      index++;
+      continue;
+    }
+    if (!isBlockStart(line) && current.lines[current.lines.length - 1] !== '') {
+      current.lines.push(line.trim());
+      index++;
+      continue;
+    }
+    break;
+  }
+
+  return { items, end: index };
+};
+
+const renderListItems = (items: ListItem[], options: Required<MarkdownImportOptions>) => {
+  let html = '';
+  let run: ListItem[] = [];
+
+  // Task items become the editor's checkbox list; the rest keep their kind
+  const flush = () => {
+    if (run.length === 0) return;
+    const [first] = run;
+    const open = first.task ? "<ol class='x-todo'>" : first.ordered ? '<ol>' : '<ul>';
+    const close = first.task || first.ordered ? '</ol>' : '</ul>';
+    const body = run.map(item => {
+      // The item's own text runs until a blank line or a nested block
+      let textEnd = 1;
+      while (textEnd < item.lines.length && item.lines[textEnd].trim() && !isBlockStart(item.lines[textEnd])) {
+        textEnd++;
+      }
+      const rest = item.lines.slice(textEnd);
+      const nested = rest.some(line => line.trim()) ? renderBlocks(rest, options) : '';
+      const content = `${renderInline(item.lines.slice(0, textEnd).join('\n'), options)}${nested}`;
+      return `<li>${item.task ? checkboxHtml(item.checked) : ''}${content || '<br>'}</li>`;
+    }).join('');
+    html += `${open}${body}${close}`;
+    run = [];
+  };
+
+  items.forEach(item => {
+    const [first] = run;
+    if (first && (first.task !== item.task || first.ordered !== item.ordered)) flush();
+    run.push(item);
+  });
+  flush();
+  return html;
+};
+
+const renderBlocks = (lines: string[], options: Required<MarkdownImportOptions>): string => {
+  const blocks: string[] = [];
+  let paragraphs = 0;
+  let index = 0;
+
+  // Blank lines between paragraphs show as empty lines in the editor
+  const pushBlock = (html: string, isParagraph = false) => {
+    if (isParagraph && paragraphs > 0 && blocks.length > 0) blocks.push('<div><br></div>');
+    paragraphs = isParagraph ? paragraphs + 1 : 0;
+    blocks.push(html);
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      const type = fence[2] ? ` type="${escapeHtml(fence[2])}"` : '';
+      pushBlock(`<pre${type}><code type="${escapeHtml(fence[2])}">${code.map(escapeHtml).join('<br>')}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      pushBlock(`<h${level}>${renderInline(heading[2] ?? '', options)}</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      pushBlock('<hr>');
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].trim()) {
+        const quote = lines[index].match(QUOTE_PATTERN);
+        quoted.push(quote ? quote[1] : lines[index]);
+        index++;
+      }
+      pushBlock(`<blockquote>${renderBlocks(quoted, options)}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const { items, end } = collectListItems(lines, index);
+      pushBlock(renderListItems(items, options));
+      index = end;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraph: string[] = [line.replace(/^\s+/, '')];
+    index++;
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines[index])) {
+      if (SETEXT_PATTERN.test(lines[index])) break;
+      paragraph.push(lines[index].replace(/^\s+/, ''));
+      index++;
+    }
+    const setext = index < lines.length ? lines[index].match(SETEXT_PATTERN) : null;
+    if (setext && paragraph.length > 0) {
+      const level = setext[1][0] === '=' ? 1 : 2;
+      pushBlock(`<h${level}>${renderInline(paragraph.join('\n'), options)}</h${level}>`);
+      index++;
+      continue;
+    }
+    pushBlock(`<div>${renderInline(paragraph.join('\n'), options)}</div>`, true);
+  }
+
+  return blocks.join('');
+};
+
+export const markdownToHtml = (markdown: string, options: MarkdownImportOptions = {}) =>
+  renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), {
+    resolveImage: options.resolveImage ?? defaultImportImage,
+  });
+
+// Plain text as editor HTML, one <div> per line
+export const textToHtml = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/^\n+|\s+$/g, '')
+    .split('\n')
+    .map(line => (line.trim() ? `<div>${escapeHtml(line)}</div>` : '<div><br></div>'))
+    .join('');
+
+export interface FrontMatter {
+  attributes: Record<string, string>;
+  // Keys whose value is a sequence, as [a, b] or one "- item" per line
+  lists: Record<string, string[]>;
+  body: string;
+}
+
+const unquoteYaml = (value: string) => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length > 1) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length > 1) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+};
+
+// Items of a [a, "b"] sequence. Quoted items may hold commas when every
+// item is quoted, as NoteEase writes them.
+const parseFlowList = (items: string) => {
+  try {
+    const parsed = JSON.parse(`[${items}]`);
+    if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) return parsed as string[];
+  } catch {
+    // Unquoted items, read one by one below
+  }
+  return items.split(',').map(unquoteYaml).filter(Boolean);
+};
+
+// Split YAML front matter off a Markdown document. Only flat `key: value`
+// pairs and lists of strings are read, which covers what NoteEase and most
+// tools write.
+export const parseFrontMatter = (markdown: string): FrontMatter => {
+  const match = markdown.replace(/^\uFEFF/, '').match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { attributes: {}, lists: {}, body: markdown.replace(/^\uFEFF/, '') };
+  }
+
+  const attributes: Record<string, string> = {};
+  const lists: Record<string, string[]> = {};
+  let lastKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (pair) {
+      lastKey = pair[1];
+      const flow = pair[2].trim().match(/^\[(.*)\]$/);
+      if (flow) {
+        lists[lastKey] = parseFlowList(flow[1]);
+      } else {
+        attributes[lastKey] = unquoteYaml(pair[2]);
+      }
+      return;
+    }
+    // Block sequences, one "- item" per line under their key
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && lastKey && !attributes[lastKey]) {
+      lists[lastKey] = [...(lists[lastKey] ?? []), unquoteYaml(item[1])];
+    }
+  });
+
+  return { attributes, lists, body: markdown.replace(/^\uFEFF/, '').slice(match[0].length) };
+};
@@ -0,0 +1,43 @@
+import { Note } from '../types';
+import { NoteRepository } from './repository';
+
+// Copy through JSON so callers can't mutate what the repository holds, just
+// like a real backend
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Keeps everything in memory. Nothing survives a restart, which makes it a
+// stand-in for the real backends when testing the store.
+export const createMemoryRepository = (
+  initialNotes: Note[] = [],
+  initialSettings: Record<string, string> = {}
+): NoteRepository => {
+  let notes = clone(initialNotes);
+  const settings = new Map(Object.entries(initialSettings));
+
+  return {
+    name: 'memory',
+    loadNotes: async () => ({ notes: clone(notes), damaged: [] }),
+    saveNotes: async nextNotes => {
+      notes = clone(nextNotes);
+      return true;
+    },
+    clearNotes: async () => {
+      notes = [];
+    },
+    getSetting: async key => settings.get(key) ?? null,
+    setSetting: async (key, value) => {
+      settings.set(key, value);
+    },
+    removeSetting: async key => {
+      settings.delete(key);
+    },
+    listSettingKeys: async prefix =>
+      Array.from(settings.keys()).filter(key => key.startsWith(prefix)),
+    readRawRecords: async () =>
+      notes.map(note => ({ key: `memory:notes/${note.id}`, payload: JSON.stringify(note) })),
+    clearAll: async () => {
+      notes = [];
+      settings.clear();
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { Note } from '../types';
+import { getRepository, SETTINGS_KEYS } from './repository';
+import { extractInlineImages } from './attachments';
+import { tagsFromCategory } from './tags';
+import { logger } from './logger';
+
+// Record of which migrations have already been applied on this install
+const MIGRATIONS_KEY = SETTINGS_KEYS.migrations;
+
+export interface Migration {
+  // Stable identifier stored in the migration record, never reuse one
+  id: string;
+  // Schema version the notes are at once this migration has run
+  version: number;
+  description: string;
+  migrate: (notes: Note[]) => Note[] | Promise<Note[]>;
+}
+
+interface MigrationRecord {
+  schemaVersion: number;
+  applied: string[];
+}
+
+// Migrations run in the order they appear here. Append new ones to the end
+// with an increasing version; existing entries must never be edited.
+const migrations: Migration[] = [
+  {
+    id: '001-stamp-schema-version',
+    version: 1,
+    description: 'Record a schema version on every note',
+    migrate: notes => notes,
+  },
+  {
+    id: '002-move-inline-images-to-attachments',
+    version: 2,
+    description: 'Move inline base64 images out of note HTML into attachment files',
+    migrate: async notes => {
+      // One note at a time so only one image payload is decoded at once
+      const migrated: Note[] = [];
+      for (const note of notes) {
+        const content = await extractInlineImages(note.content);
+        migrated.push(content === note.content ? note : { ...note, content });
+      }
+      return migrated;
+    },
+  },
+  {
+    id: '003-replace-category-with-tags',
+    version: 3,
+    description: 'Replace the single category on every note with a list of tags',
+    migrate: notes => notes.map(note => {
+      // Salvaged notes may already have been given tags
+      const { category, ...rest } = note as Note & { category?: string };
+      return { ...rest, tags: Array.isArray(rest.tags) ? rest.tags : tagsFromCategory(category) };
+    }),
+  },
+  {
+    id: '004-stamp-trash-deletion-time',
+    version: 4,
+    description: 'Record when notes already in the trash were deleted',
+    migrate: notes => {
+      // The real time is unknown, so the retention period starts now
+      const now = new Date().toISOString();
+      return notes.map(note => (note.isDeleted && !note.deletedAt ? { ...note, deletedAt: now } : note));
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+const loadMigrationRecord = async (): Promise<MigrationRecord> => {
+  const recordString = await getRepository().getSetting(MIGRATIONS_KEY);
+  if (!recordString) {
+    return { schemaVersion: 0, applied: [] };
+  }
+  return JSON.parse(recordString);
+};
+
+const saveMigrationRecord = async (record: MigrationRecord) => {
+  await getRepository().setSetting(MIGRATIONS_KEY, JSON.stringify(record));
+};
+
+export const hasPendingMigrations = async () => {
+  const record = await loadMigrationRecord();
+  return migrations.some(migration => !record.applied.includes(migration.id));
+};
+
+// Apply every pending migration to the loaded notes. Each migration's output
+// is persisted before it is recorded, so an interrupted run resumes at the
+// first migration that didn't finish.
+export const runMigrations = async (notes: Note[]): Promise<Note[]> => {
+  const record = await loadMigrationRecord();
+  const pending = migrations.filter(migration => !record.applied.includes(migration.id));
+
+  if (pending.length === 0) {
+    return notes;
+  }
+
+  let migratedNotes = notes;
+
+  for (const migration of pending) {
+    logger.log(`Running migration ${migration.id}: ${migration.description}`);
+
+    const result = await migration.migrate(migratedNotes);
+    migratedNotes = result.map(note => ({ ...note, schemaVersion: migration.version }));
+
+    const saved = await getRepository().saveNotes(migratedNotes);
+    if (!saved) {
+      throw new Error(`Failed to persist notes after migration ${migration.id}`);
+    }
+
+    record.applied.push(migration.id);
+    record.schemaVersion = migration.version;
+    await saveMigrationRecord(record);
+  }
+
+  logger.log('Notes migrated to schema version', record.schemaVersion);
+  return migratedNotes;
+};
+
+// Bring notes from an older copy, such as a snapshot, up to the current
+// schema. Unlike runMigrations this goes by each note's own schemaVersion
+// and persists nothing.
+export const upgradeNotes = async (notes: Note[]): Promise<Note[]> => {
+  let upgraded = notes;
+
+  for (const migration of migrations) {
+    const outdated = upgraded.filter(note => (note.schemaVersion ?? 0) < migration.version);
+    if (outdated.length === 0) continue;
+
+    const migrated = await migration.migrate(outdated);
+    const byId = new Map(migrated.map(note => [note.id, { ...note, schemaVersion: migration.version }]));
+    upgraded = upgraded.map(note => byId.get(note.id) ?? note);
+  }
+
+  return upgraded;
+};
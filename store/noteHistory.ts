@@ -0,0 +1,241 @@
+import { DiffLine, Note, NoteRevision, RevisionReason } from '../types';
+import { getRepository, SETTINGS_KEY_PREFIXES } from './repository';
+import { queueWrite } from './persistenceQueue';
+import { getAttachmentIds } from './attachments';
+import { htmlToText } from './html';
+import { sameTags, tagsFromCategory } from './tags';
+import { logger } from './logger';
+
+// Revisions kept per note, and for how long. The newest is always kept.
+export const MAX_REVISIONS_PER_NOTE = 50;
+export const MAX_REVISION_AGE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer texts are compared as a whole rather than line by line
+const MAX_DIFF_LINES = 1000;
+
+type NoteHistory = Record<string, NoteRevision[]>;
+
+interface HistoryCache {
+  revisions: NoteHistory;
+  // Records that couldn't be parsed, by key. They're left as stored rather
+  // than overwritten, and images they refer to are kept.
+  damaged: Map<string, string>;
+}
+
+// Loaded once, on first use. Each note's revisions are a setting of their
+// own, so an edit rewrites only that note's.
+let history: Promise<HistoryCache> | null = null;
+
+const historyKey = (noteId: string) => SETTINGS_KEY_PREFIXES.noteHistory + noteId;
+
+const createRevisionId = () =>
+  'rev_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 8);
+
+// Revisions saved before notes had tags carry a category instead
+const upgradeRevisions = (revisions: NoteRevision[]) => {
+  revisions.forEach(revision => {
+    if (!Array.isArray(revision.tags)) {
+      revision.tags = tagsFromCategory((revision as NoteRevision & { category?: string }).category);
+    }
+  });
+  return revisions;
+};
+
+const readHistory = async () => {
+  const repository = getRepository();
+  const loaded: HistoryCache = { revisions: {}, damaged: new Map() };
+
+  for (const key of await repository.listSettingKeys(SETTINGS_KEY_PREFIXES.noteHistory)) {
+    const stored = await repository.getSetting(key);
+    if (!stored) continue;
+    try {
+      loaded.revisions[key.slice(SETTINGS_KEY_PREFIXES.noteHistory.length)] = upgradeRevisions(JSON.parse(stored));
+    } catch (error) {
+      logger.error('Error parsing note history, leaving it as stored:', key, error);
+      loaded.damaged.set(key, stored);
+    }
+  }
+  return loaded;
+};
+
+// Callers arriving while history is still loading share the one load.
+// Throws if the stored history can't be read at all, so nothing is
+// written over it; the next call tries again.
+const loadHistory = () => {
+  if (!history) {
+    const loading = readHistory();
+    history = loading;
+    loading.catch(() => {
+      if (history === loading) history = null;
+    });
+  }
+  return history;
+};
+
+// Queue writing a note's revisions, or removing them once forgotten
+const saveHistory = (cache: HistoryCache, noteId: string) => {
+  const revisions = cache.revisions[noteId];
+  const value = revisions ? JSON.stringify(revisions) : null;
+  queueWrite(`noteHistory:${noteId}`, async () => {
+    try {
+      const repository = getRepository();
+      if (value === null) {
+        await repository.removeSetting(historyKey(noteId));
+      } else {
+        await repository.setSetting(historyKey(noteId), value);
+      }
+      return true;
+    } catch (error) {
+      logger.error('Error saving note history:', noteId, error);
+      return false;
+    }
+  });
+};
+
+// Forget the loaded history, e.g. when the vault's key changes
+export const resetHistoryCache = () => {
+  history = null;
+};
+
+// Drop revisions past the age limit and beyond the count, oldest first
+export const pruneRevisions = (revisions: NoteRevision[], now = Date.now()) => {
+  const newest = revisions[revisions.length - 1];
+  return revisions
+    .filter(revision => revision === newest || now - Date.parse(revision.savedAt) <= MAX_REVISION_AGE_DAYS * DAY_MS)
+    .slice(-MAX_REVISIONS_PER_NOTE);
+};
+
+type Version = Pick<Note, 'title' | 'content' | 'tags'>;
+
+const sameVersion = (a: Version, b: Version) =>
+  a.title === b.title && a.content === b.content && sameTags(a.tags, b.tags);
+
+const revisionOf = (note: Note, reason: RevisionReason, savedAt: string): NoteRevision => ({
+  id: createRevisionId(),
+  noteId: note.id,
+  savedAt,
+  reason,
+  title: note.title,
+  content: note.content,
+  tags: note.tags,
+});
+
+// Record a saved version of a note. Notes saved before history existed get
+// their previous version recorded first, so the first edit can be undone.
+// Locked notes keep no history, since it would hold their content unsealed.
+export const recordRevision = async (note: Note, reason: RevisionReason, previous?: Note) => {
+  if (note.lock) return;
+
+  let loaded: HistoryCache;
+  try {
+    loaded = await loadHistory();
+  } catch (error) {
+    logger.error('Error loading note history, not recording a revision:', error);
+    return;
+  }
+  if (loaded.damaged.has(historyKey(note.id))) {
+    logger.warn('Not recording a revision over damaged history of note:', note.id);
+    return;
+  }
+
+  const revisions = loaded.revisions[note.id] ?? [];
+  if (revisions.length === 0 && previous && !previous.lock && !sameVersion(previous, note)) {
+    revisions.push(revisionOf(previous, 'edited', previous.updatedAt));
+  }
+  const last = revisions[revisions.length - 1];
+  if (last && sameVersion(last, note)) return;
+
+  revisions.push(revisionOf(note, reason, note.updatedAt));
+  loaded.revisions[note.id] = pruneRevisions(revisions);
+  saveHistory(loaded, note.id);
+};
+
+// A note's revisions, newest first
+export const getRevisions = async (noteId: string) => {
+  const loaded = await loadHistory();
+  return [...(loaded.revisions[noteId] ?? [])].reverse();
+};
+
+// Drop the history of these notes, damaged records included, e.g. once
+// a note is locked and its earlier versions must go
+export const forgetHistory = async (noteIds: string[]) => {
+  const loaded = await loadHistory();
+  noteIds.forEach(id => {
+    const key = historyKey(id);
+    if (!loaded.revisions[id] && !loaded.damaged.has(key)) return;
+    delete loaded.revisions[id];
+    loaded.damaged.delete(key);
+    saveHistory(loaded, id);
+  });
+};
+
+// Drop the history of every note not in `noteIds`
+export const forgetHistoryExcept = async (noteIds: Set<string>) => {
+  const loaded = await loadHistory();
+  const storedIds = [
+    ...Object.keys(loaded.revisions),
+    ...Array.from(loaded.damaged.keys()).map(key => key.slice(SETTINGS_KEY_PREFIXES.noteHistory.length)),
+  ];
+  await forgetHistory(storedIds.filter(id => !noteIds.has(id)));
+};
+
+// Images older revisions use, so they aren't collected while restorable.
+// Throws if the history can't be read, so nothing is collected on a guess.
+export const getHistoryAttachmentIds = async () => {
+  const ids = new Set<string>();
+  const loaded = await loadHistory();
+  Object.values(loaded.revisions).forEach(revisions =>
+    revisions.forEach(revision => getAttachmentIds(revision.content).forEach(id => ids.add(id))));
+  loaded.damaged.forEach(stored => getAttachmentIds(stored).forEach(id => ids.add(id)));
+  return ids;
+};
+
+// Line diff of two versions' text, from the longest common subsequence
+export const diffText = (before: string, after: string): DiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length * b.length > MAX_DIFF_LINES * MAX_DIFF_LINES) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] is the common length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  a.slice(i).forEach(text => lines.push({ type: 'removed', text }));
+  b.slice(j).forEach(text => lines.push({ type: 'added', text }));
+  return lines;
+};
+
+// How the note's text has changed since a revision, title first
+export const diffRevision = (revision: NoteRevision, current: Note) =>
+  diffText(
+    [revision.title, htmlToText(revision.content)].join('\n'),
+    [current.title, htmlToText(current.content)].join('\n')
+  );
@@ -0,0 +1,65 @@
+import { Note, NoteLock } from '../types';
+import { createKdfParams, deriveKey, open, seal } from './vault';
+import { getAttachmentIds } from './attachments';
+import { logger } from './logger';
+
+// A PIN is short, so the slow KDF is what makes guessing it expensive.
+// Combine with the vault for protection against offline attacks.
+export const MIN_PIN_LENGTH = 4;
+
+// Keys for locked notes opened this session. Dropped when the note is
+// closed so its content can't be read again without the PIN.
+const openNoteKeys = new Map<string, Uint8Array>();
+
+export const isNoteLocked = (note: Note) => note.lock !== undefined;
+
+export const isNoteOpen = (note: Note) => openNoteKeys.has(note.id);
+
+const sealContent = (key: Uint8Array, kdf: NoteLock['kdf'], content: string) => ({
+  content: seal(key, content),
+  lock: { kdf, attachmentIds: Array.from(getAttachmentIds(content)) },
+});
+
+// Seal a note's content under a new PIN. The note stays open afterwards.
+export const lockContent = async (note: Note, pin: string) => {
+  const kdf = createKdfParams();
+  const key = await deriveKey(pin, kdf);
+  openNoteKeys.set(note.id, key);
+  return sealContent(key, kdf, note.content);
+};
+
+// Decrypt a locked note's content and keep it open, or null for a wrong PIN
+export const openLockedContent = async (note: Note, pin: string) => {
+  if (!note.lock) return note.content;
+  const key = await deriveKey(pin, note.lock.kdf);
+  try {
+    const content = open(key, note.content);
+    openNoteKeys.set(note.id, key);
+    return content;
+  } catch {
+    logger.log('Could not open locked note, wrong PIN:', note.id);
+    return null;
+  }
+};
+
+// Seal new content for an open locked note, or null if it isn't open
+export const resealContent = (note: Note, content: string) => {
+  const key = openNoteKeys.get(note.id);
+  if (!note.lock || !key) return null;
+  return sealContent(key, note.lock.kdf, content);
+};
+
+export const closeLockedNote = (id: string) => {
+  openNoteKeys.delete(id);
+};
+
+// Plain content for export and sharing. Throws for a locked note that
+// hasn't been opened with its PIN so its content can't leak.
+export const getReadableContent = (note: Note) => {
+  if (!note.lock) return note.content;
+  const key = openNoteKeys.get(note.id);
+  if (!key) {
+    throw new Error(`Note ${note.id} is locked`);
+  }
+  return open(key, note.content);
+};
@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Note } from '../types';
+import { QuarantinedEntry, createEntry, salvageNotes } from './recovery';
+import { LoadNotesResult } from './repository';
+import { createSnapshotTracker } from './snapshotTracker';
+import { logger } from './logger';
+
+// Legacy key that held the whole Note[] array as one JSON blob
+export const LEGACY_NOTES_KEY = 'noteease-data';
+// Lightweight index record listing note ids in display order
+export const NOTES_INDEX_KEY = 'noteease-notes-index';
+// Prefix for the per-note records
+export const NOTE_KEY_PREFIX = 'noteease-note:';
+
+// Read notes in small batches so a single multiGet never has to fit
+// hundreds of notes into one Android CursorWindow
+const READ_BATCH_SIZE = 20;
+
+interface NotesIndex {
+  ids: string[];
+}
+
+// Last snapshot known to be on disk, used to work out which notes changed
+const persisted = createSnapshotTracker();
+
+export const noteKey = (id: string) => NOTE_KEY_PREFIX + id;
+
+// Whether a key is one of the records notes are stored in, as opposed to a
+// setting
+export const isNoteStorageKey = (key: string) =>
+  key === LEGACY_NOTES_KEY || key === NOTES_INDEX_KEY || key.startsWith(NOTE_KEY_PREFIX);
+
+interface RecordResult {
+  note: Note | null;
+  damaged?: QuarantinedEntry;
+}
+
+// Parse a single note record without throwing so one bad record can't take
+// the rest of the notes down with it
+const parseNote = (id: string, value: string | null): RecordResult => {
+  if (!value) {
+    logger.warn('Missing record for note:', id);
+    return { note: null };
+  }
+  try {
+    return { note: JSON.parse(value) as Note };
+  } catch (error) {
+    logger.error('Error parsing note record:', id, error);
+    const [salvaged] = salvageNotes(value);
+    return { note: salvaged || null, damaged: createEntry(noteKey(id), value, error) };
+  }
+};
+
+const readBatch = async (ids: string[]): Promise<RecordResult[]> => {
+  try {
+    const pairs = await AsyncStorage.multiGet(ids.map(noteKey));
+    return pairs.map(([, value], i) => parseNote(ids[i], value));
+  } catch (batchError) {
+    // Fall back to one-by-one reads so only the oversized note is lost
+    logger.warn('Batch read failed, reading notes individually:', batchError);
+    const results: RecordResult[] = [];
+    for (const id of ids) {
+      try {
+        results.push(parseNote(id, await AsyncStorage.getItem(noteKey(id))));
+      } catch (error) {
+        logger.error('Error reading note record:', id, error);
+        results.push({ note: null, damaged: createEntry(noteKey(id), null, error) });
+      }
+    }
+    return results;
+  }
+};
+
+// Rebuild the list of note ids from the stored keys when the index is damaged
+const idsFromKeys = async () => {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys
+    .filter(key => key.startsWith(NOTE_KEY_PREFIX))
+    .map(key => key.slice(NOTE_KEY_PREFIX.length));
+};
+
+// Write every note as its own record plus the index, then drop the legacy blob
+const migrateLegacyNotes = async (notes: Note[]) => {
+  logger.log('Migrating', notes.length, 'notes to per-note records');
+  await AsyncStorage.multiSet(
+    notes.map(note => [noteKey(note.id), JSON.stringify(note)] as [string, string])
+  );
+  const index: NotesIndex = { ids: notes.map(note => note.id) };
+  await AsyncStorage.setItem(NOTES_INDEX_KEY, JSON.stringify(index));
+  await AsyncStorage.removeItem(LEGACY_NOTES_KEY);
+  persisted.remember(notes);
+};
+
+// Load the index first, then each note record it lists. Damaged payloads
+// are reported back rather than thrown, and nothing is written in that case
+// so the originals stay intact until recovery is finished.
+export const loadNotes = async (): Promise<LoadNotesResult> => {
+  const damaged: QuarantinedEntry[] = [];
+  const indexString = await AsyncStorage.getItem(NOTES_INDEX_KEY);
+
+  if (!indexString) {
+    const legacyString = await AsyncStorage.getItem(LEGACY_NOTES_KEY);
+    if (!legacyString) {
+      persisted.remember([]);
+      return { notes: [], damaged };
+    }
+
+    let legacyNotes: Note[];
+    try {
+      legacyNotes = JSON.parse(legacyString);
+    } catch (error) {
+      logger.error('Error parsing legacy notes data:', error);
+      damaged.push(createEntry(LEGACY_NOTES_KEY, legacyString, error));
+      return { notes: salvageNotes(legacyString), damaged };
+    }
+
+    await migrateLegacyNotes(legacyNotes);
+    return { notes: legacyNotes, damaged };
+  }
+
+  let ids: string[];
+  try {
+    ids = (JSON.parse(indexString) as NotesIndex).ids;
+  } catch (error) {
+    logger.error('Error parsing notes index, rebuilding from stored keys:', error);
+    damaged.push(createEntry(NOTES_INDEX_KEY, indexString, error));
+    ids = await idsFromKeys();
+  }
+
+  const notes: Note[] = [];
+
+  for (let i = 0; i < ids.length; i += READ_BATCH_SIZE) {
+    const batch = await readBatch(ids.slice(i, i + READ_BATCH_SIZE));
+    batch.forEach(result => {
+      if (result.note) notes.push(result.note);
+      if (result.damaged) damaged.push(result.damaged);
+    });
+  }
+
+  if (notes.length !== ids.length) {
+    logger.warn(`Loaded ${notes.length} of ${ids.length} indexed notes`);
+  }
+
+  persisted.remember(notes);
+  return { notes, damaged };
+};
+
+// Persist only the notes that changed since the last successful save
+export const saveNotes = async (notes: Note[]) => {
+  try {
+    const { nextIds, changed, removedIds, orderChanged } = persisted.diff(notes);
+
+    logger.log(
+      `Saving notes: ${changed.length} changed, ${removedIds.length} removed`
+    );
+
+    if (changed.length > 0) {
+      await AsyncStorage.multiSet(
+        changed.map(note => [noteKey(note.id), JSON.stringify(note)] as [string, string])
+      );
+    }
+
+    // Update the index before removing records so it never points at a
+    // note that no longer exists
+    if (orderChanged) {
+      const index: NotesIndex = { ids: nextIds };
+      await AsyncStorage.setItem(NOTES_INDEX_KEY, JSON.stringify(index));
+    }
+
+    if (removedIds.length > 0) {
+      await AsyncStorage.multiRemove(removedIds.map(noteKey));
+    }
+
+    persisted.remember(notes);
+    logger.log('Notes saved successfully');
+    return true;
+  } catch (error) {
+    logger.error('Error saving notes to AsyncStorage:', error);
+    return false;
+  }
+};
+
+// Remove the index, every note record and the legacy blob
+export const clearNotes = async () => {
+  const keys = await AsyncStorage.getAllKeys();
+  const noteKeys = keys.filter(key => key.startsWith(NOTE_KEY_PREFIX));
+  await AsyncStorage.multiRemove([LEGACY_NOTES_KEY, NOTES_INDEX_KEY, ...noteKeys]);
+  persisted.remember([]);
+};
@@ -0,0 +1,116 @@
+import { PersistenceStatus } from '../types';
+import { logger } from './logger';
+
+// Wait this long after a write is queued so a burst of changes is flushed once
+const COALESCE_DELAY_MS = 250;
+// Attempts per write before giving up and reporting an error
+const MAX_ATTEMPTS = 3;
+// Delay before the first retry, doubled for each further attempt
+const RETRY_DELAY_MS = 500;
+
+// A write resolves to false (or throws) when it didn't reach disk
+type WriteTask = () => Promise<boolean>;
+type StatusListener = (status: PersistenceStatus) => void;
+
+// Latest pending write per key; queuing again for a key replaces the older one
+const pending = new Map<string, WriteTask>();
+const listeners = new Set<StatusListener>();
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let status: PersistenceStatus = { state: 'idle', lastSavedAt: null };
+
+const setStatus = (next: Partial<PersistenceStatus>) => {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener(status));
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const runWithRetry = async (key: string, task: WriteTask) => {
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      if (await task()) return true;
+      logger.warn(`Write for ${key} failed (attempt ${attempt} of ${MAX_ATTEMPTS})`);
+    } catch (error) {
+      logger.error(`Write for ${key} threw (attempt ${attempt} of ${MAX_ATTEMPTS}):`, error);
+    }
+    if (attempt < MAX_ATTEMPTS) {
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+  return false;
+};
+
+// Run pending writes one at a time, including any queued while flushing
+const flush = async () => {
+  flushTimer = null;
+  setStatus({ state: 'saving' });
+
+  const failed: string[] = [];
+  while (pending.size > 0) {
+    const [key, task] = pending.entries().next().value as [string, WriteTask];
+    pending.delete(key);
+    const success = await runWithRetry(key, task);
+    if (!success) failed.push(key);
+  }
+
+  if (failed.length > 0) {
+    setStatus({ state: 'error', error: `Could not save ${failed.join(', ')}` });
+  } else {
+    setStatus({ state: 'idle', lastSavedAt: new Date().toISOString(), error: undefined });
+  }
+};
+
+const startFlush = () => {
+  flushing = flush().finally(() => {
+    flushing = null;
+    if (pending.size > 0) scheduleFlush();
+  });
+};
+
+const scheduleFlush = () => {
+  // A running flush picks up new writes itself
+  if (flushTimer || flushing) return;
+  flushTimer = setTimeout(startFlush, COALESCE_DELAY_MS);
+};
+
+// Queue a write. Writes run serially in the order their keys were first
+// queued, and only the latest write for each key is kept.
+export const queueWrite = (key: string, task: WriteTask) => {
+  pending.set(key, task);
+  scheduleFlush();
+};
+
+// Write everything queued right away and wait for it to reach disk
+export const flushPersistence = async () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    startFlush();
+  }
+  while (flushing) {
+    await flushing;
+  }
+};
+
+// Drop queued writes and wait for the one in progress, e.g. before a reset
+// so an older snapshot can't land on disk after the data was cleared
+export const cancelPendingWrites = async () => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  pending.clear();
+  while (flushing) {
+    await flushing;
+  }
+};
+
+export const getPersistenceStatus = () => status;
+
+export const onPersistenceStatusChange = (listener: StatusListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,192 @@
+import { Note } from '../types';
+import { getRepository, SETTINGS_KEY_PREFIXES } from './repository';
+import { normalizeTags, tagsFromCategory } from './tags';
+import { logger } from './logger';
+
+export interface QuarantinedEntry {
+  // Storage key the damaged payload was read from
+  key: string;
+  // Raw payload, or null when the key could not be read at all
+  payload: string | null;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface SalvageResult {
+  notes: Note[];
+  entries: QuarantinedEntry[];
+}
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Fill in anything a damaged note lost so the rest of the app can trust it
+export const normalizeNote = (value: any): Note | null => {
+  if (!value || typeof value !== 'object') return null;
+  if (typeof value.id !== 'string' || !value.id) return null;
+  if (typeof value.title !== 'string' && typeof value.content !== 'string') return null;
+
+  const now = new Date().toISOString();
+  const { category, ...rest } = value;
+  return {
+    ...rest,
+    id: value.id,
+    title: typeof value.title === 'string' ? value.title : '',
+    content: typeof value.content === 'string' ? value.content : '',
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : now,
+    // Notes from before tags had a category instead
+    tags: Array.isArray(value.tags) ? normalizeTags(value.tags) : tagsFromCategory(category),
+    isPinned: value.isPinned === true,
+    isDeleted: value.isDeleted === true,
+    schemaVersion: typeof value.schemaVersion === 'number' ? value.schemaVersion : 0,
+  };
+};
+
+// Find every balanced top-level {...} in a payload, skipping over strings,
+// so notes on either side of a corrupt byte can still be parsed
+const extractObjects = (raw: string): string[] => {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        objects.push(raw.slice(start, i + 1));
+        start = -1;
+      }
+    }
+  }
+
+  return objects;
+};
+
+// Recover as many individual notes as possible from a raw payload
+export const salvageNotes = (raw: string): Note[] => {
+  try {
+    const parsed = JSON.parse(raw);
+    const candidates = Array.isArray(parsed) ? parsed : [parsed];
+    return candidates.map(normalizeNote).filter((note): note is Note => note !== null);
+  } catch {
+    // Fall through to salvaging note by note
+  }
+
+  const notes: Note[] = [];
+  for (const candidate of extractObjects(raw)) {
+    try {
+      const note = normalizeNote(JSON.parse(candidate));
+      if (note) notes.push(note);
+    } catch {
+      logger.warn('Skipping unrecoverable note fragment');
+    }
+  }
+  return notes;
+};
+
+export const createEntry = (
+  key: string,
+  payload: string | null,
+  error: unknown
+): QuarantinedEntry => ({
+  key,
+  payload,
+  reason: describeError(error),
+  quarantinedAt: new Date().toISOString(),
+});
+
+// Copy damaged payloads aside, one setting each in the backend the damaged
+// data came from. Originals are left in place so nothing is lost even if
+// this write fails.
+export const quarantineEntries = async (entries: QuarantinedEntry[]) => {
+  if (entries.length === 0) return;
+
+  const repository = getRepository();
+  const stamp = Date.now().toString(36);
+  for (let i = 0; i < entries.length; i++) {
+    try {
+      await repository.setSetting(
+        `${SETTINGS_KEY_PREFIXES.recovery}${stamp}-${i}`,
+        JSON.stringify(entries[i])
+      );
+    } catch (error) {
+      logger.error('Failed to quarantine payload from', entries[i].key, error);
+    }
+  }
+  logger.warn('Quarantined', entries.length, 'damaged payloads');
+};
+
+// Last-resort salvage when normal loading throws: read every note record one
+// at a time, quarantine all of it and recover whatever notes can be parsed.
+// Settings are left alone, since nothing in them is a note.
+export const salvageAllStorage = async (error: unknown): Promise<SalvageResult> => {
+  const notesById = new Map<string, Note>();
+  const entries: QuarantinedEntry[] = [];
+
+  let records;
+  try {
+    records = await getRepository().readRawRecords();
+  } catch (readError) {
+    logger.error('Failed to read stored records for salvage:', readError);
+    return { notes: [], entries };
+  }
+
+  for (const { key, payload, error: readError } of records) {
+    if (readError) {
+      entries.push(createEntry(key, null, readError));
+      continue;
+    }
+    if (!payload) continue;
+
+    entries.push(createEntry(key, payload, error));
+    salvageNotes(payload).forEach(note => {
+      const existing = notesById.get(note.id);
+      if (!existing || existing.updatedAt < note.updatedAt) {
+        notesById.set(note.id, note);
+      }
+    });
+  }
+
+  await quarantineEntries(entries);
+  return { notes: Array.from(notesById.values()), entries };
+};
+
+export const loadQuarantinedEntries = async (): Promise<QuarantinedEntry[]> => {
+  const repository = getRepository();
+  const recoveryKeys = (await repository.listSettingKeys(SETTINGS_KEY_PREFIXES.recovery)).sort();
+  const entries: QuarantinedEntry[] = [];
+
+  for (const key of recoveryKeys) {
+    try {
+      const value = await repository.getSetting(key);
+      if (value) entries.push(JSON.parse(value));
+    } catch (error) {
+      logger.error('Failed to read quarantined payload:', key, error);
+    }
+  }
+  return entries;
+};
+
+export const discardQuarantinedEntries = async () => {
+  const repository = getRepository();
+  for (const key of await repository.listSettingKeys(SETTINGS_KEY_PREFIXES.recovery)) {
+    await repository.removeSetting(key);
+  }
+};
@@ -0,0 +1,109 @@
+import { Platform } from 'react-native';
+import { Note } from '../types';
+import { QuarantinedEntry } from './recovery';
+import { createAsyncStorageRepository } from './asyncStorageRepository';
+import { createSQLiteRepository } from './sqliteRepository';
+
+// Keys for the small settings records every backend stores alongside notes
+export const SETTINGS_KEYS = {
+  theme: 'noteease-theme',
+  tags: 'noteease-tags',
+  // Colors and icons chosen for tags, keyed by tag
+  tagStyles: 'noteease-tag-styles',
+  // Custom categories from before tags, read once to seed the tag list
+  customCategories: 'noteease-categories',
+  storageThreshold: 'noteease-storage-threshold',
+  migrations: 'noteease-migrations',
+  snapshotRetention: 'noteease-snapshot-retention',
+  trashRetention: 'noteease-trash-retention',
+  // Vault header, always stored in plaintext
+  vault: 'noteease-vault',
+};
+
+// Prefixes of settings stored as one record per item, keyed by the rest
+// of the key
+export const SETTINGS_KEY_PREFIXES = {
+  // Revisions of one note, by note id
+  noteHistory: 'noteease-note-history:',
+  // Quarantined copies of damaged data
+  recovery: 'noteease-recovery:',
+};
+
+export interface LoadNotesResult {
+  notes: Note[];
+  // Payloads that could not be parsed, with whatever notes were salvaged
+  // from them already included in `notes`
+  damaged: QuarantinedEntry[];
+}
+
+// A stored note record as raw text, for salvaging when loadNotes throws
+export interface RawRecord {
+  // Where the payload was read from, e.g. a storage key or table row
+  key: string;
+  // Null when the record could not be read at all
+  payload: string | null;
+  error?: unknown;
+}
+
+// Storage backend for notes and settings. Settings are stored as raw strings
+// so callers keep control over parsing and damaged-value handling.
+export interface NoteRepository {
+  readonly name: string;
+  loadNotes: () => Promise<LoadNotesResult>;
+  // Resolves to false when the notes didn't reach disk
+  saveNotes: (notes: Note[]) => Promise<boolean>;
+  clearNotes: () => Promise<void>;
+  getSetting: (key: string) => Promise<string | null>;
+  setSetting: (key: string, value: string) => Promise<void>;
+  removeSetting: (key: string) => Promise<void>;
+  // Keys of the stored settings that start with `prefix`
+  listSettingKeys: (prefix: string) => Promise<string[]>;
+  // Every record notes are stored in, read one at a time so a record that
+  // can't be read doesn't hide the others. Settings aren't included.
+  readRawRecords: () => Promise<RawRecord[]>;
+  // Remove every note and setting owned by this backend
+  clearAll: () => Promise<void>;
+}
+
+// Keys of every setting `repository` holds, fixed and per-item alike
+export const allSettingKeys = async (repository: NoteRepository) => {
+  const keys = [...Object.values(SETTINGS_KEYS)];
+  for (const prefix of Object.values(SETTINGS_KEY_PREFIXES)) {
+    keys.push(...await repository.listSettingKeys(prefix));
+  }
+  return keys;
+};
+
+let baseRepository: NoteRepository | null = null;
+// Wraps the base backend while the vault is unlocked
+let vaultRepository: NoteRepository | null = null;
+
+// SQLite on devices; web keeps AsyncStorage (localStorage) since SQLite
+// isn't available there
+export const getBaseRepository = () => {
+  if (!baseRepository) {
+    baseRepository = Platform.OS === 'web'
+      ? createAsyncStorageRepository()
+      : createSQLiteRepository();
+  }
+  return baseRepository;
+};
+
+// The repository the store reads and writes through
+export const getRepository = () => vaultRepository ?? getBaseRepository();
+
+// Whether reads and writes are going through the vault
+export const isVaultActive = () => vaultRepository !== null;
+
+// Swap the backend, e.g. for an in-memory one in tests. Call before the
+// store is initialized.
+export const setRepository = (repository: NoteRepository) => {
+  baseRepository = repository;
+  vaultRepository = null;
+};
+
+// Route reads and writes through an encrypting wrapper, or back to the
+// base backend when passed null
+export const setVaultRepository = (repository: NoteRepository | null) => {
+  vaultRepository = repository;
+};
@@ -0,0 +1,286 @@
+import { strToU8 } from 'fflate';
+import { Note, TagStyle } from '../types';
+import { lightTheme, darkTheme } from '../constants/theme';
+import { getTagAppearance } from '../constants/tagStyles';
+import { ATTACHMENT_SCHEME } from './attachments';
+import { HtmlNode, escapeHtml, htmlToText, parseHtml } from './html';
+import {
+  ExportResult,
+  collectAttachmentFiles,
+  exportsSupported,
+  getReadableNotes,
+  safeFileName,
+  uniqueFileNames,
+  writeZipFile
+} from './exportNotes';
+import { logger } from './logger';
+
+const NOTES_DIR = 'notes';
+const IMAGES_DIR = 'images';
+
+// Characters of plain text shown on each card of the index
+const PREVIEW_LENGTH = 200;
+
+// Tags kept on note pages; anything else is unwrapped to its content
+const ALLOWED_TAGS = new Set([
+  'div', 'p', 'span', 'br', 'hr', 'b', 'strong', 'i', 'em', 'u', 's', 'strike', 'del',
+  'code', 'pre', 'blockquote', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li',
+  'a', 'img', 'input', 'table', 'thead', 'tbody', 'tr', 'td', 'th', 'sub', 'sup',
+]);
+
+// Dropped along with everything inside them
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template']);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input']);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const isSafeLink = (url: string) => /^(https?|mailto|tel):/i.test(url) || url.startsWith('#');
+
+// Note HTML as it can be published: no scripts or event handlers, links
+// only to the web, and attachments pointing at the copied images
+const renderContent = (nodes: HtmlNode[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return escapeHtml(node.text);
+    if (DROPPED_TAGS.has(node.tag)) return '';
+    if (!ALLOWED_TAGS.has(node.tag)) return renderContent(node.children);
+
+    const attributes: string[] = [];
+    const { class: className, href, src, checked, type } = node.attributes;
+    if (className) attributes.push(`class="${escapeHtml(className)}"`);
+    if (node.tag === 'a' && href && isSafeLink(href)) attributes.push(`href="${escapeHtml(href)}"`);
+    if (node.tag === 'img') {
+      if (src?.startsWith(ATTACHMENT_SCHEME)) {
+        attributes.push(`src="../${IMAGES_DIR}/${escapeHtml(src.slice(ATTACHMENT_SCHEME.length))}"`);
+      } else if (src && /^(https?:|data:image\/)/.test(src)) {
+        attributes.push(`src="${escapeHtml(src)}"`);
+      } else {
+        return '';
+      }
+      attributes.push('alt=""');
+    }
+    if (node.tag === 'input') {
+      if (type !== 'checkbox') return '';
+      attributes.push('type="checkbox"', 'disabled');
+      if (checked !== undefined) attributes.push('checked');
+    }
+
+    const open = `<${node.tag}${attributes.map(attribute => ` ${attribute}`).join('')}>`;
+    return VOID_TAGS.has(node.tag) ? open : `${open}${renderContent(node.children)}</${node.tag}>`;
+  }).join('');
+
+// Both app themes, picked by the reader's system setting
+const themeVariables = (theme: typeof lightTheme) => `
+  --background: ${theme.background};
+  --text: ${theme.text};
+  --primary: ${theme.primary};
+  --secondary: ${theme.secondary};
+  --border: ${theme.border};
+  --card: ${theme.card};
+  --card-text: ${theme.cardText};`;
+
+const STYLESHEET = `:root {${themeVariables(lightTheme)}
+}
+@media (prefers-color-scheme: dark) {
+  :root {${themeVariables(darkTheme)}
+  }
+}
+* { box-sizing: border-box; }
+[hidden] { display: none !important; }
+body {
+  margin: 0 auto;
+  max-width: 760px;
+  padding: 24px 16px 60px;
+  background: var(--background);
+  color: var(--text);
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  line-height: 1.5;
+}
+a { color: var(--primary); }
+h1.site-title { font-size: 28px; margin: 0 0 16px; }
+#search {
+  width: 100%;
+  padding: 10px 14px;
+  border: 1px solid var(--border);
+  border-radius: 10px;
+  background: var(--secondary);
+  color: var(--text);
+  font-size: 16px;
+}
+h2 { display: flex; align-items: center; font-size: 18px; margin: 28px 0 12px; }
+.dot { width: 10px; height: 10px; border-radius: 5px; margin-right: 10px; background: var(--tag-light, var(--border)); }
+.card {
+  display: block;
+  padding: 16px;
+  margin-bottom: 16px;
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  background: var(--card);
+  color: var(--text);
+  text-decoration: none;
+}
+.card-title { font-size: 18px; font-weight: 600; margin: 0 0 6px; }
+.card-preview { color: var(--card-text); margin: 0 0 10px; overflow-wrap: anywhere; }
+.meta { display: flex; justify-content: space-between; align-items: center; color: var(--card-text); font-size: 12px; }
+.chips { display: flex; flex-wrap: wrap; justify-content: flex-end; gap: 4px; }
+.chip {
+  padding: 3px 8px;
+  border-radius: 12px;
+  background: var(--tag-light);
+  color: #FFFFFF;
+  font-size: 12px;
+  font-weight: 500;
+}
+#empty { color: var(--card-text); text-align: center; margin-top: 40px; }
+.note { padding: 20px; }
+.note-content img { max-width: 100%; border-radius: 8px; }
+.note-content pre { background: var(--secondary); padding: 12px; border-radius: 8px; overflow-x: auto; }
+.note-content blockquote { border-left: 3px solid var(--border); margin-left: 0; padding-left: 12px; color: var(--card-text); }
+ol.x-todo { list-style: none; padding-left: 0; }
+ol.x-todo input { margin-right: 8px; }
+.back { display: inline-block; margin-bottom: 16px; }
+@media (prefers-color-scheme: dark) {
+  .chip, .dot { background: var(--tag-dark, var(--border)); }
+}
+`;
+
+// Narrow every card to those containing all the typed words
+const SEARCH_SCRIPT = `
+const input = document.getElementById('search');
+input.addEventListener('input', () => {
+  const terms = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+  let shown = 0;
+  document.querySelectorAll('.card').forEach(card => {
+    card.hidden = !terms.every(term => card.dataset.search.includes(term));
+    if (!card.hidden) shown++;
+  });
+  document.querySelectorAll('section').forEach(section => {
+    section.hidden = !section.querySelector('.card:not([hidden])');
+  });
+  document.getElementById('empty').hidden = shown > 0;
+});
+`;
+
+// Colors come from the user's tag styles, so they're escaped like any text
+const tagColors = (tag: string, tagStyles: Record<string, TagStyle>) =>
+  `--tag-light: ${escapeHtml(getTagAppearance(tag, tagStyles, lightTheme).color)}; ` +
+  `--tag-dark: ${escapeHtml(getTagAppearance(tag, tagStyles, darkTheme).color)};`;
+
+const tagChips = (tags: string[], tagStyles: Record<string, TagStyle>) =>
+  `<span class="chips">${tags.map(tag =>
+    `<span class="chip" style="${tagColors(tag, tagStyles)}">${escapeHtml(capitalize(tag))}</span>`).join('')}</span>`;
+
+const page = (title: string, stylesheet: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${stylesheet}">
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const notePage = (
+  note: Note,
+  content: string,
+  siteTitle: string,
+  tagStyles: Record<string, TagStyle>
+) => page(
+  note.title || 'Untitled',
+  '../style.css',
+  `<a class="back" href="../index.html">&larr; ${escapeHtml(siteTitle)}</a>
+<article class="card note">
+<h1 class="card-title">${escapeHtml(note.title || 'Untitled')}</h1>
+<div class="meta"><span>${escapeHtml(formatDate(note.createdAt))}</span>${tagChips(note.tags, tagStyles)}</div>
+<div class="note-content">${renderContent(parseHtml(content))}</div>
+</article>`
+);
+
+// Export notes as a static website: an index grouped by tag with a search
+// box, a page per note in the app's card style, and the images they use.
+// Opens from a file share or any web server with no app needed.
+export const exportStaticSite = async (
+  notes: Note[],
+  name: string,
+  tags: string[] = [],
+  tagStyles: Record<string, TagStyle> = {}
+): Promise<ExportResult> => {
+  if (!exportsSupported()) {
+    throw new Error('Exporting is not supported on this platform');
+  }
+
+  const { readable, skippedLocked } = getReadableNotes(notes);
+  if (readable.length === 0) {
+    throw new Error('There are no notes to export');
+  }
+
+  // Pinned notes first, then the most recently edited
+  readable.sort((a, b) =>
+    Number(b.note.isPinned) - Number(a.note.isPinned) || b.note.updatedAt.localeCompare(a.note.updatedAt));
+
+  const siteTitle = name === 'notes' ? 'NoteEase' : capitalize(name);
+  const fileNames = uniqueFileNames(readable.map(({ note }) => note));
+  const files: Record<string, Uint8Array> = await collectAttachmentFiles(
+    readable.map(({ content }) => content),
+    IMAGES_DIR
+  );
+
+  // Each note's page is written once, and its card shown under every tag
+  const cards = new Map(readable.map(({ note, content }) => {
+    const fileName = fileNames.get(note.id)!;
+    files[`${NOTES_DIR}/${fileName}.html`] = strToU8(notePage(note, content, siteTitle, tagStyles));
+
+    const text = htmlToText(content).replace(/\s+/g, ' ');
+    const preview = text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+    const search = `${note.title} ${note.tags.join(' ')} ${text}`.toLowerCase();
+    return [note.id, `<a class="card" href="${NOTES_DIR}/${encodeURIComponent(fileName)}.html" data-search="${escapeHtml(search)}">
+<p class="card-title">${escapeHtml(note.title || 'Untitled')}</p>
+${preview ? `<p class="card-preview">${escapeHtml(preview)}</p>` : ''}
+<div class="meta"><span>${escapeHtml(formatDate(note.createdAt))}</span>${tagChips(note.tags, tagStyles)}</div>
+</a>`];
+  }));
+
+  const order = [...tags, ...readable.flatMap(({ note }) => note.tags)];
+  const section = (heading: string, style: string, sectionNotes: typeof readable) =>
+    // Tags without notes have nothing to show
+    sectionNotes.length > 0
+      ? `<section>
+<h2${style}><span class="dot"></span>${escapeHtml(heading)}</h2>
+${sectionNotes.map(({ note }) => cards.get(note.id)).join('\n')}
+</section>`
+      : '';
+  const sections = [
+    ...Array.from(new Set(order)).map(tag => section(
+      capitalize(tag),
+      ` style="${tagColors(tag, tagStyles)}"`,
+      readable.filter(({ note }) => note.tags.includes(tag))
+    )),
+    section('Untagged', '', readable.filter(({ note }) => note.tags.length === 0)),
+  ];
+
+  files['style.css'] = strToU8(STYLESHEET);
+  files['index.html'] = strToU8(page(
+    siteTitle,
+    'style.css',
+    `<h1 class="site-title">${escapeHtml(siteTitle)}</h1>
+<input id="search" type="search" placeholder="Search notes" aria-label="Search notes">
+${sections.filter(Boolean).join('\n')}
+<p id="empty" hidden>No notes match your search.</p>
+<script>${SEARCH_SCRIPT}</script>`
+  ));
+
+  const uri = await writeZipFile(`${safeFileName(name, 'notes')}-site.zip`, files);
+  logger.log(`Exported ${readable.length} notes as a static site, skipped ${skippedLocked} locked`);
+  return { uri, mimeType: 'application/zip', exported: readable.length, skippedLocked };
+};
@@ -0,0 +1,36 @@
+import { Note } from '../types';
+
+export interface SnapshotDiff {
+  nextIds: string[];
+  // Notes that are new or were replaced since the last snapshot
+  changed: Note[];
+  removedIds: string[];
+  orderChanged: boolean;
+}
+
+// Tracks the last snapshot a backend wrote so only the notes that changed are
+// saved. Store updates are immutable, so a changed note is a new object.
+export const createSnapshotTracker = () => {
+  let notesById = new Map<string, Note>();
+  let ids: string[] = [];
+
+  return {
+    diff: (notes: Note[]): SnapshotDiff => {
+      const nextIds = notes.map(note => note.id);
+      const nextIdSet = new Set(nextIds);
+
+      return {
+        nextIds,
+        changed: notes.filter(note => notesById.get(note.id) !== note),
+        removedIds: ids.filter(id => !nextIdSet.has(id)),
+        orderChanged:
+          nextIds.length !== ids.length || nextIds.some((id, i) => id !== ids[i]),
+      };
+    },
+
+    remember: (notes: Note[]) => {
+      notesById = new Map(notes.map(note => [note.id, note]));
+      ids = notes.map(note => note.id);
+    },
+  };
+};
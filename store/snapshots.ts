@@ -0,0 +1,301 @@
+import * as FileSystem from 'expo-file-system';
+import { Note, SnapshotData, SnapshotDiff, SnapshotInfo, SnapshotReason } from '../types';
+import { getNoteAttachmentIds } from './attachments';
+import { resealContent } from './noteLock';
+import { byteLength } from './storageUsage';
+import { sameTags } from './tags';
+import { VaultKeys, deriveKey, isSealed, openWithKeys, seal } from './vault';
+import { logger } from './logger';
+
+export const DEFAULT_SNAPSHOT_RETENTION = 7;
+
+// How often a snapshot is taken while the app is in use
+export const SNAPSHOT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots live outside the notes database so a reset doesn't remove
+// them. Null on web, where there is no file system to keep them in.
+export const SNAPSHOTS_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}snapshots/`
+  : null;
+
+const INDEX_FILE = 'index.json';
+
+// Snapshots taken before a reset or recovery are the way back from it, so
+// they don't count toward the retention setting. Each of these reasons
+// keeps its own few newest instead.
+const SEPARATELY_RETAINED: Partial<Record<SnapshotReason, number>> = {
+  reset: 3,
+  recovery: 3,
+};
+
+export const snapshotsSupported = () => SNAPSHOTS_DIR !== null;
+
+// Anything that reads and rewrites the index runs one at a time, so two
+// snapshots taken together can't each drop the other's entry
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = indexQueue.then(task);
+  indexQueue = result.catch(() => {});
+  return result;
+};
+
+const snapshotUri = (id: string) => `${SNAPSHOTS_DIR}${id}.json`;
+
+const ensureSnapshotsDir = async () => {
+  if (!SNAPSHOTS_DIR) return;
+  const info = await FileSystem.getInfoAsync(SNAPSHOTS_DIR);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(SNAPSHOTS_DIR, { intermediates: true });
+  }
+};
+
+// Rebuild bare entries from the snapshot files if the index is lost
+const rebuildIndex = async (): Promise<SnapshotInfo[]> => {
+  const files = await FileSystem.readDirectoryAsync(SNAPSHOTS_DIR!);
+  const snapshots: SnapshotInfo[] = [];
+
+  for (const file of files) {
+    if (file === INDEX_FILE || !file.endsWith('.json')) continue;
+    const id = file.slice(0, -'.json'.length);
+    const [timestamp, reason] = id.split('-');
+    const info = await FileSystem.getInfoAsync(snapshotUri(id));
+    snapshots.push({
+      id,
+      createdAt: new Date(Number(timestamp) || 0).toISOString(),
+      reason: (reason || 'manual') as SnapshotReason,
+      noteCount: 0,
+      bytes: info.exists ? info.size : 0,
+      attachmentIds: [],
+    });
+  }
+
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Newest first
+export const listSnapshots = async (): Promise<SnapshotInfo[]> => {
+  if (!SNAPSHOTS_DIR) return [];
+
+  const dirInfo = await FileSystem.getInfoAsync(SNAPSHOTS_DIR);
+  if (!dirInfo.exists) return [];
+
+  try {
+    const indexString = await FileSystem.readAsStringAsync(`${SNAPSHOTS_DIR}${INDEX_FILE}`);
+    return JSON.parse(indexString);
+  } catch (error) {
+    logger.warn('Snapshot index unreadable, rebuilding from files:', error);
+    return rebuildIndex();
+  }
+};
+
+const saveIndex = (snapshots: SnapshotInfo[]) =>
+  FileSystem.writeAsStringAsync(`${SNAPSHOTS_DIR}${INDEX_FILE}`, JSON.stringify(snapshots));
+
+const prune = async (retention: number) => {
+  const snapshots = await listSnapshots();
+  const counts = new Map<string, number>();
+  const kept = snapshots.filter(snapshot => {
+    const limit = SEPARATELY_RETAINED[snapshot.reason];
+    const group = limit === undefined ? 'rotating' : snapshot.reason;
+    const count = (counts.get(group) ?? 0) + 1;
+    counts.set(group, count);
+    return count <= (limit ?? Math.max(retention, 1));
+  });
+  if (kept.length === snapshots.length) return;
+
+  const keptIds = new Set(kept.map(snapshot => snapshot.id));
+  const removed = snapshots.filter(snapshot => !keptIds.has(snapshot.id));
+  for (const snapshot of removed) {
+    await FileSystem.deleteAsync(snapshotUri(snapshot.id), { idempotent: true });
+  }
+  await saveIndex(kept);
+  logger.log('Removed', removed.length, 'old snapshots');
+};
+
+// Delete the oldest snapshots beyond the retention count
+export const pruneSnapshots = (retention: number) => serialized(async () => {
+  if (!SNAPSHOTS_DIR) return;
+  await prune(retention);
+});
+
+// Write a full copy of the notes and tags, sealed with the vault key
+// when there is one, then rotate out the oldest
+export const takeSnapshot = async (
+  data: SnapshotData,
+  reason: SnapshotReason,
+  retention: number,
+  vaultKeys: VaultKeys | null
+): Promise<SnapshotInfo | null> => serialized(async () => {
+  if (!SNAPSHOTS_DIR) return null;
+
+  await ensureSnapshotsDir();
+  const createdAt = new Date();
+  const id = `${createdAt.getTime()}-${reason}`;
+  const payload = JSON.stringify(data);
+  const stored = vaultKeys ? seal(vaultKeys.key, payload) : payload;
+
+  await FileSystem.writeAsStringAsync(snapshotUri(id), stored);
+
+  const attachmentIds = new Set<string>();
+  data.notes.forEach(note => getNoteAttachmentIds(note).forEach(id => attachmentIds.add(id)));
+
+  const info: SnapshotInfo = {
+    id,
+    createdAt: createdAt.toISOString(),
+    reason,
+    noteCount: data.notes.length,
+    bytes: byteLength(stored),
+    attachmentIds: Array.from(attachmentIds),
+    vaultKdf: vaultKeys?.kdf,
+  };
+
+  const snapshots = await listSnapshots();
+  await saveIndex([info, ...snapshots.filter(snapshot => snapshot.id !== id)]);
+  await prune(retention);
+
+  logger.log(`Took ${reason} snapshot with ${data.notes.length} notes`);
+  return info;
+});
+
+// Read a snapshot's contents. Encrypted snapshots need the current vault
+// keys, or the passphrase they were taken under; throws if neither opens it.
+export const readSnapshot = async (
+  info: SnapshotInfo,
+  vaultKeys: VaultKeys | null,
+  passphrase?: string
+): Promise<SnapshotData> => {
+  const stored = await FileSystem.readAsStringAsync(snapshotUri(info.id));
+  if (!isSealed(stored)) {
+    return JSON.parse(stored);
+  }
+
+  if (passphrase !== undefined && info.vaultKdf) {
+    const key = await deriveKey(passphrase, info.vaultKdf);
+    return JSON.parse(openWithKeys({ key, kdf: info.vaultKdf }, stored).plaintext);
+  }
+  if (!vaultKeys) {
+    throw new Error('Snapshot is encrypted');
+  }
+  return JSON.parse(openWithKeys(vaultKeys, stored).plaintext);
+};
+
+// Rewrite every snapshot's stored text with `update`, which gets the
+// plaintext and returns the new plaintext, or null to leave it alone.
+// Snapshots that can't be opened or rewritten are left as-is.
+const rewriteSnapshots = async (
+  from: VaultKeys | null,
+  to: VaultKeys | null,
+  update: (payload: string) => string | null,
+  description: string
+) => {
+  const snapshots = await listSnapshots();
+  const updated: SnapshotInfo[] = [];
+
+  for (const snapshot of snapshots) {
+    try {
+      const stored = await FileSystem.readAsStringAsync(snapshotUri(snapshot.id));
+      let payload = stored;
+      if (isSealed(stored)) {
+        if (!from) throw new Error('No key to open snapshot');
+        payload = openWithKeys(from, stored).plaintext;
+      }
+      const nextPayload = update(payload);
+      if (nextPayload === null) {
+        updated.push(snapshot);
+        continue;
+      }
+      const resealed = to ? seal(to.key, nextPayload) : nextPayload;
+      await FileSystem.writeAsStringAsync(snapshotUri(snapshot.id), resealed);
+      updated.push({ ...snapshot, bytes: byteLength(resealed), vaultKdf: to?.kdf });
+    } catch (error) {
+      logger.error(`Error ${description} snapshot:`, snapshot.id, error);
+      updated.push(snapshot);
+    }
+  }
+
+  await saveIndex(updated);
+};
+
+// Move every snapshot from one vault key to another, or in or out of the
+// vault when either side is null
+export const resealSnapshots = (from: VaultKeys | null, to: VaultKeys | null) =>
+  serialized(async () => {
+    if (!SNAPSHOTS_DIR) return;
+    await rewriteSnapshots(from, to, payload => payload, 're-encrypting');
+  });
+
+// Seal the content of older copies of a just-locked note under its PIN, so
+// snapshots don't keep it readable. `note` must still be open.
+export const sealNoteInSnapshots = (note: Note, vaultKeys: VaultKeys | null) =>
+  serialized(async () => {
+    if (!SNAPSHOTS_DIR) return;
+    await rewriteSnapshots(vaultKeys, vaultKeys, payload => {
+      const data: SnapshotData = JSON.parse(payload);
+      let changed = false;
+      data.notes = data.notes.map(snapshotNote => {
+        if (snapshotNote.id !== note.id || snapshotNote.lock) return snapshotNote;
+        const sealed = resealContent(note, snapshotNote.content);
+        if (!sealed) throw new Error('Note is not open');
+        changed = true;
+        return { ...snapshotNote, ...sealed };
+      });
+      return changed ? JSON.stringify(data) : null;
+    }, 'locking note in');
+  });
+
+// Attachments that retained snapshots still refer to
+export const getSnapshotAttachmentIds = async () => {
+  const ids = new Set<string>();
+  try {
+    const snapshots = await listSnapshots();
+    snapshots.forEach(snapshot => snapshot.attachmentIds.forEach(id => ids.add(id)));
+  } catch (error) {
+    logger.error('Error listing snapshot attachments:', error);
+  }
+  return ids;
+};
+
+export const noteChanged = (a: Note, b: Note) =>
+  a.updatedAt !== b.updatedAt ||
+  a.title !== b.title ||
+  a.content !== b.content ||
+  !sameTags(a.tags, b.tags) ||
+  a.isPinned !== b.isPinned ||
+  a.isDeleted !== b.isDeleted;
+
+// What restoring a snapshot would change, relative to the current notes
+export const diffSnapshot = (current: Note[], snapshot: Note[]): SnapshotDiff => {
+  const currentById = new Map(current.map(note => [note.id, note]));
+  const snapshotIds = new Set(snapshot.map(note => note.id));
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  snapshot.forEach(note => {
+    const existing = currentById.get(note.id);
+    if (!existing) {
+      diff.added.push(note);
+    } else if (noteChanged(existing, note)) {
+      diff.changed.push(note);
+    } else {
+      diff.unchanged++;
+    }
+  });
+  diff.removed = current.filter(note => !snapshotIds.has(note.id));
+
+  return diff;
+};
+
+// Bring back notes missing from the current set. Where a note exists in
+// both, whichever copy was edited last wins.
+export const mergeSnapshotNotes = (current: Note[], snapshot: Note[]) => {
+  const snapshotById = new Map(snapshot.map(note => [note.id, note]));
+  const currentIds = new Set(current.map(note => note.id));
+
+  const merged = current.map(note => {
+    const snapshotNote = snapshotById.get(note.id);
+    return snapshotNote && snapshotNote.updatedAt > note.updatedAt ? snapshotNote : note;
+  });
+  const restored = snapshot.filter(note => !currentIds.has(note.id));
+
+  return [...restored, ...merged];
+};
@@ -0,0 +1,271 @@
+import * as SQLite from 'expo-sqlite';
+import { Note } from '../types';
+import { LoadNotesResult, NoteRepository, RawRecord, allSettingKeys } from './repository';
+import { createAsyncStorageRepository } from './asyncStorageRepository';
+import { createSnapshotTracker } from './snapshotTracker';
+import { QuarantinedEntry, createEntry, salvageNotes } from './recovery';
+import { tagsFromCategory } from './tags';
+import { logger } from './logger';
+
+const DATABASE_NAME = 'noteease.db';
+
+// Set once notes and settings have been copied out of AsyncStorage
+const MIGRATED_FROM_ASYNC_STORAGE_KEY = 'noteease-sqlite-migrated';
+
+// The full note is kept as JSON in `data` so new Note fields need no schema
+// change; the other columns mirror it for indexed queries. `category` was
+// named before notes had tags and now holds them comma-separated.
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS notes (
+    id TEXT PRIMARY KEY NOT NULL,
+    position INTEGER NOT NULL,
+    category TEXT NOT NULL,
+    is_pinned INTEGER NOT NULL DEFAULT 0,
+    is_deleted INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_notes_category ON notes (category);
+  CREATE INDEX IF NOT EXISTS idx_notes_pinned ON notes (is_pinned);
+  CREATE INDEX IF NOT EXISTS idx_notes_deleted ON notes (is_deleted);
+  CREATE INDEX IF NOT EXISTS idx_notes_created_at ON notes (created_at);
+  CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes (updated_at);
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+`;
+
+const UPSERT_NOTE = `
+  INSERT OR REPLACE INTO notes
+    (id, position, category, is_pinned, is_deleted, created_at, updated_at, data)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`;
+
+interface NoteRow {
+  id: string;
+  data: string;
+}
+
+// Notes moved over from AsyncStorage may be from before tags, with only a
+// category until the migrations run
+const noteTags = (note: Note) =>
+  Array.isArray(note.tags)
+    ? note.tags
+    : tagsFromCategory((note as Note & { category?: string }).category);
+
+const noteParams = (note: Note, position: number) => [
+  note.id,
+  position,
+  noteTags(note).join(','),
+  note.isPinned ? 1 : 0,
+  note.isDeleted ? 1 : 0,
+  note.createdAt,
+  note.updatedAt,
+  JSON.stringify(note),
+];
+
+// Notes in an on-device SQLite database
+export const createSQLiteRepository = (): NoteRepository => {
+  let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+  const persisted = createSnapshotTracker();
+  // Damage found while migrating, reported by the next load
+  let migrationDamage: QuarantinedEntry[] = [];
+
+  // Copy notes and settings out of AsyncStorage the first time the database
+  // is opened. The old keys are only removed if everything copied cleanly.
+  const migrateFromAsyncStorage = async (database: SQLite.SQLiteDatabase) => {
+    const marker = await database.getFirstAsync<{ value: string }>(
+      'SELECT value FROM settings WHERE key = ?',
+      MIGRATED_FROM_ASYNC_STORAGE_KEY
+    );
+    if (marker) return;
+
+    const legacy = createAsyncStorageRepository();
+    const { notes, damaged } = await legacy.loadNotes();
+    const settingKeys = await allSettingKeys(legacy);
+    const settingValues = await Promise.all(settingKeys.map(key => legacy.getSetting(key)));
+
+    logger.log('Migrating', notes.length, 'notes from AsyncStorage to SQLite');
+
+    await database.withExclusiveTransactionAsync(async txn => {
+      for (let i = 0; i < notes.length; i++) {
+        await txn.runAsync(UPSERT_NOTE, noteParams(notes[i], i));
+      }
+      for (let i = 0; i < settingKeys.length; i++) {
+        const value = settingValues[i];
+        if (value !== null) {
+          await txn.runAsync(
+            'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+            settingKeys[i],
+            value
+          );
+        }
+      }
+      await txn.runAsync(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        MIGRATED_FROM_ASYNC_STORAGE_KEY,
+        new Date().toISOString()
+      );
+    });
+
+    if (damaged.length > 0) {
+      logger.warn('Keeping AsyncStorage data, some of it could not be migrated');
+      migrationDamage = damaged;
+    } else {
+      await legacy.clearAll();
+    }
+  };
+
+  const setUpDatabase = async () => {
+    const database = await SQLite.openDatabaseAsync(DATABASE_NAME);
+    await database.execAsync(SCHEMA);
+    await migrateFromAsyncStorage(database);
+    return database;
+  };
+
+  const openDatabase = () => {
+    if (!databasePromise) {
+      databasePromise = setUpDatabase().catch(error => {
+        // Let the next call try again
+        databasePromise = null;
+        throw error;
+      });
+    }
+    return databasePromise;
+  };
+
+  const loadNotes = async (): Promise<LoadNotesResult> => {
+    const database = await openDatabase();
+    const rows = await database.getAllAsync<NoteRow>(
+      'SELECT id, data FROM notes ORDER BY position'
+    );
+
+    const notes: Note[] = [];
+    const damaged = migrationDamage;
+    migrationDamage = [];
+
+    rows.forEach(row => {
+      try {
+        notes.push(JSON.parse(row.data));
+      } catch (error) {
+        logger.error('Error parsing note row:', row.id, error);
+        const [salvaged] = salvageNotes(row.data);
+        if (salvaged) notes.push(salvaged);
+        damaged.push(createEntry(`sqlite:notes/${row.id}`, row.data, error));
+      }
+    });
+
+    persisted.remember(notes);
+    return { notes, damaged };
+  };
+
+  // Persist only the notes that changed since the last successful save
+  const saveNotes = async (notes: Note[]) => {
+    try {
+      const database = await openDatabase();
+      const { nextIds, changed, removedIds, orderChanged } = persisted.diff(notes);
+      const positions = new Map(nextIds.map((id, i) => [id, i]));
+
+      logger.log(`Saving notes: ${changed.length} changed, ${removedIds.length} removed`);
+
+      await database.withExclusiveTransactionAsync(async txn => {
+        for (const note of changed) {
+          await txn.runAsync(UPSERT_NOTE, noteParams(note, positions.get(note.id) ?? 0));
+        }
+        if (orderChanged) {
+          for (let i = 0; i < nextIds.length; i++) {
+            await txn.runAsync('UPDATE notes SET position = ? WHERE id = ?', i, nextIds[i]);
+          }
+        }
+        for (const id of removedIds) {
+          await txn.runAsync('DELETE FROM notes WHERE id = ?', id);
+        }
+      });
+
+      persisted.remember(notes);
+      logger.log('Notes saved successfully');
+      return true;
+    } catch (error) {
+      logger.error('Error saving notes to SQLite:', error);
+      return false;
+    }
+  };
+
+  const clearNotes = async () => {
+    const database = await openDatabase();
+    await database.runAsync('DELETE FROM notes');
+    persisted.remember([]);
+  };
+
+  // Read row by row so one unreadable row doesn't hide the rest. Anything
+  // still in AsyncStorage is included in case a migration didn't finish.
+  const readRawRecords = async () => {
+    const records: RawRecord[] = await createAsyncStorageRepository().readRawRecords();
+
+    let database: SQLite.SQLiteDatabase;
+    try {
+      database = await openDatabase();
+    } catch (error) {
+      records.push({ key: `sqlite:${DATABASE_NAME}`, payload: null, error });
+      return records;
+    }
+
+    const noteRows = await database.getAllAsync<{ id: string }>('SELECT id FROM notes ORDER BY position');
+    for (const { id } of noteRows) {
+      const key = `sqlite:notes/${id}`;
+      try {
+        const row = await database.getFirstAsync<{ data: string }>('SELECT data FROM notes WHERE id = ?', id);
+        records.push({ key, payload: row ? row.data : null });
+      } catch (error) {
+        records.push({ key, payload: null, error });
+      }
+    }
+
+    return records;
+  };
+
+  return {
+    name: 'sqlite',
+    loadNotes,
+    saveNotes,
+    clearNotes,
+    getSetting: async key => {
+      const database = await openDatabase();
+      const row = await database.getFirstAsync<{ value: string }>(
+        'SELECT value FROM settings WHERE key = ?',
+        key
+      );
+      return row ? row.value : null;
+    },
+    setSetting: async (key, value) => {
+      const database = await openDatabase();
+      await database.runAsync(
+        'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+        key,
+        value
+      );
+    },
+    removeSetting: async key => {
+      const database = await openDatabase();
+      await database.runAsync('DELETE FROM settings WHERE key = ?', key);
+    },
+    listSettingKeys: async prefix => {
+      const database = await openDatabase();
+      const rows = await database.getAllAsync<{ key: string }>('SELECT key FROM settings');
+      return rows.map(row => row.key).filter(key => key.startsWith(prefix));
+    },
+    readRawRecords,
+    clearAll: async () => {
+      await clearNotes();
+      const database = await openDatabase();
+      // Keep the migration marker so cleared data isn't migrated again
+      await database.runAsync(
+        'DELETE FROM settings WHERE key != ?',
+        MIGRATED_FROM_ASYNC_STORAGE_KEY
+      );
+    },
+  };
+};
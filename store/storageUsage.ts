@@ -0,0 +1,139 @@
+import * as FileSystem from 'expo-file-system';
+import { Note, NoteStorageUsage, StorageUsage } from '../types';
+import { attachmentUri, attachmentsSupported, getNoteAttachmentIds } from './attachments';
+
+// Android's AsyncStorage database defaults to 6 MB, so warn a little before it
+export const DEFAULT_STORAGE_WARNING_BYTES = 5 * 1024 * 1024;
+
+const DATA_URL_IMAGE_PATTERN = /data:image\/\w+;base64,[A-Za-z0-9+/=]+/g;
+
+// Notes are immutable in the store, so each object's size is computed once
+const recordSizes = new WeakMap<Note, number>();
+
+// UTF-8 size of a string, which is what the storage backends actually store
+export const byteLength = (value: string) => {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair - one 4 byte character
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Size of a note's stored record
+export const noteRecordBytes = (note: Note) => {
+  let size = recordSizes.get(note);
+  if (size === undefined) {
+    size = byteLength(JSON.stringify(note));
+    recordSizes.set(note, size);
+  }
+  return size;
+};
+
+// Cheap estimate of the notes database size, used from the save path
+export const estimateNotesBytes = (notes: Note[]) =>
+  notes.reduce((total, note) => total + noteRecordBytes(note), 0);
+
+const inlineImageBytes = (content: string) => {
+  let bytes = 0;
+  for (const match of content.matchAll(DATA_URL_IMAGE_PATTERN)) {
+    bytes += match[0].length;
+  }
+  return bytes;
+};
+
+const attachmentFileSize = async (id: string) => {
+  try {
+    const info = await FileSystem.getInfoAsync(attachmentUri(id));
+    return info.exists ? info.size : 0;
+  } catch {
+    return 0;
+  }
+};
+
+// Full breakdown of what each note, tag, the trash and images take up
+export const computeStorageUsage = async (notes: Note[]): Promise<StorageUsage> => {
+  const fileSizes = new Map<string, number>();
+  const noteUsage: NoteStorageUsage[] = [];
+
+  for (const note of notes) {
+    const recordBytes = noteRecordBytes(note);
+    const inlineBytes = inlineImageBytes(note.content);
+    const attachmentIds = attachmentsSupported()
+      ? Array.from(getNoteAttachmentIds(note))
+      : [];
+
+    let attachmentBytes = 0;
+    for (const id of attachmentIds) {
+      if (!fileSizes.has(id)) {
+        fileSizes.set(id, await attachmentFileSize(id));
+      }
+      attachmentBytes += fileSizes.get(id) || 0;
+    }
+
+    const inlineCount = note.content.match(DATA_URL_IMAGE_PATTERN)?.length || 0;
+
+    noteUsage.push({
+      noteId: note.id,
+      title: note.title,
+      tags: note.tags,
+      isDeleted: note.isDeleted,
+      isLocked: note.lock !== undefined,
+      recordBytes,
+      inlineImageBytes: inlineBytes,
+      attachmentBytes,
+      imageCount: inlineCount + attachmentIds.length,
+      totalBytes: recordBytes + attachmentBytes,
+    });
+  }
+
+  noteUsage.sort((a, b) => b.totalBytes - a.totalBytes);
+
+  const tagTotals = new Map<string, { noteCount: number; bytes: number }>();
+  const trash = { noteCount: 0, bytes: 0 };
+
+  noteUsage.forEach(usage => {
+    if (usage.isDeleted) {
+      trash.noteCount++;
+      trash.bytes += usage.totalBytes;
+      return;
+    }
+    (usage.tags.length > 0 ? usage.tags : ['']).forEach(tag => {
+      const totals = tagTotals.get(tag) || { noteCount: 0, bytes: 0 };
+      totals.noteCount++;
+      totals.bytes += usage.totalBytes;
+      tagTotals.set(tag, totals);
+    });
+  });
+
+  const recordBytes = noteUsage.reduce((total, usage) => total + usage.recordBytes, 0);
+  // Identical images share one file, so count each file once
+  const attachmentBytes = Array.from(fileSizes.values()).reduce((total, size) => total + size, 0);
+
+  return {
+    notes: noteUsage,
+    tags: Array.from(tagTotals.entries())
+      .map(([tag, totals]) => ({ tag, ...totals }))
+      .sort((a, b) => b.bytes - a.bytes),
+    trash,
+    recordBytes,
+    attachmentBytes,
+    totalBytes: recordBytes + attachmentBytes,
+  };
+};
@@ -0,0 +1,135 @@
+import { Note, TagFilterMode, TagStyle } from '../types';
+import { isTagColor } from '../utils/color';
+
+// Offered on a fresh install and to anyone upgrading from categories. They
+// are ordinary tags and can be removed like any other.
+export const DEFAULT_TAGS = ['personal', 'work', 'family'];
+
+// Tags nest by path, so "work/projectA" sits under "work"
+export const TAG_SEPARATOR = '/';
+
+// Notes before tags carried a single category, with 'all' meaning none
+export const tagsFromCategory = (category: unknown): string[] =>
+  typeof category === 'string' && category.trim() && category !== 'all' ? [category.trim()] : [];
+
+// Trim each level of a tag and drop empty ones, so " work / a/" is "work/a".
+// A top level matching a default tag takes its case.
+const cleanTag = (tag: string) => {
+  const [top, ...rest] = tag.split(TAG_SEPARATOR).map(part => part.trim()).filter(Boolean);
+  if (!top) return '';
+  const name = DEFAULT_TAGS.find(builtIn => builtIn === top.toLowerCase()) ?? top;
+  return [name, ...rest].join(TAG_SEPARATOR);
+};
+
+// Unique, cleaned tags in their first order. The default tags match
+// whatever their case, so "Work" from another app joins "work".
+export const normalizeTags = (tags: unknown[]): string[] => {
+  const normalized: string[] = [];
+  tags.forEach(tag => {
+    if (typeof tag !== 'string') return;
+    const name = cleanTag(tag);
+    if (!name || name.toLowerCase() === 'all') return;
+    if (!normalized.includes(name)) normalized.push(name);
+  });
+  return normalized;
+};
+
+// Every tag on the given notes, in the order they're first seen
+export const collectTags = (notes: Note[]) => normalizeTags(notes.flatMap(note => note.tags));
+
+export const sameTags = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((tag, index) => tag === b[index]);
+
+// The tag itself or anything nested under it
+export const isWithinTag = (tag: string, ancestor: string) =>
+  tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+
+export const parentTag = (tag: string) => {
+  const index = tag.lastIndexOf(TAG_SEPARATOR);
+  return index === -1 ? null : tag.slice(0, index);
+};
+
+// The last level of a tag, e.g. "projectA" for "work/projectA"
+export const tagLeaf = (tag: string) => tag.slice(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+
+export const tagDepth = (tag: string) => tag.split(TAG_SEPARATOR).length - 1;
+
+// Each tag preceded by the levels above it, so the list stays a tree
+export const withAncestors = (tags: string[]) =>
+  normalizeTags(tags.flatMap(tag => {
+    const levels = tag.split(TAG_SEPARATOR);
+    return levels.map((_, index) => levels.slice(0, index + 1).join(TAG_SEPARATOR));
+  }));
+
+// Tags directly under `parent`, or the top level when it's null
+export const childTags = (tags: string[], parent: string | null) =>
+  tags.filter(tag => parentTag(tag) === parent);
+
+export const hasChildTags = (tags: string[], tag: string) =>
+  tags.some(other => parentTag(other) === tag);
+
+// The list in tree order: each tag followed by everything under it, with
+// siblings kept in the order they were listed
+export const sortTagTree = (tags: string[]): string[] => {
+  const visit = (parent: string | null): string[] =>
+    childTags(tags, parent).flatMap(tag => [tag, ...visit(tag)]);
+  const sorted = visit(null);
+  // Tags whose parent isn't listed still show, after the rest
+  return [...sorted, ...tags.filter(tag => !sorted.includes(tag))];
+};
+
+// Keep only the parts of a stored style that can be drawn. Styles come back
+// from storage and backups, where colors could hold anything.
+export const cleanTagStyle = (value: unknown): TagStyle | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { lightColor, darkColor, icon } = value as Record<string, unknown>;
+  const style: TagStyle = {};
+  if (isTagColor(lightColor)) style.lightColor = lightColor.toUpperCase();
+  if (isTagColor(darkColor)) style.darkColor = darkColor.toUpperCase();
+  if (typeof icon === 'string') style.icon = icon;
+  return Object.keys(style).length > 0 ? style : null;
+};
+
+export const cleanTagStyles = (value: unknown): Record<string, TagStyle> => {
+  if (!value || typeof value !== 'object') return {};
+  const styles: Record<string, TagStyle> = {};
+  Object.entries(value).forEach(([tag, stored]) => {
+    const style = cleanTagStyle(stored);
+    if (style) styles[tag] = style;
+  });
+  return styles;
+};
+
+// A tag's own style over those of the tags it's nested under
+export const resolveTagStyle = (tag: string, tagStyles: Record<string, TagStyle>): TagStyle => {
+  const levels = tag.split(TAG_SEPARATOR);
+  return levels.reduce<TagStyle>((style, _, index) => {
+    const own = tagStyles[levels.slice(0, index + 1).join(TAG_SEPARATOR)];
+    return own ? { ...style, ...own } : style;
+  }, {});
+};
+
+// Move a tag, or one nested under it, from one path to another
+export const replaceTagPath = (tag: string, from: string, to: string) =>
+  isWithinTag(tag, from) ? to + tag.slice(from.length) : tag;
+
+// Tags on notes that aren't in the list, so no filter reaches them
+export const findOrphanTags = (notes: Note[], tags: string[]) =>
+  collectTags(notes).filter(tag => !tags.includes(tag));
+
+// How many of the notes have the tag or one nested under it
+export const countTagNotes = (notes: Note[], tag: string) =>
+  notes.filter(note => note.tags.some(noteTag => isWithinTag(noteTag, tag))).length;
+
+// A parent tag matches notes with any tag nested under it
+export const matchesTags = (note: Note, tags: string[], mode: TagFilterMode) => {
+  if (tags.length === 0) return true;
+  const matches = (tag: string) => note.tags.some(noteTag => isWithinTag(noteTag, tag));
+  return mode === 'all' ? tags.every(matches) : tags.some(matches);
+};
+
+export const formatTag = (tag: string) =>
+  tag
+    .split(TAG_SEPARATOR)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' / ');
@@ -0,0 +1,29 @@
+import { Note } from '../types';
+
+// Days a note stays in the trash before it is purged; null keeps it until
+// deleted by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days since the note was moved to the trash
+export const daysInTrash = (note: Note, now = Date.now()) =>
+  note.deletedAt ? Math.max(0, Math.floor((now - Date.parse(note.deletedAt)) / DAY_MS)) : 0;
+
+// Whole days left before the note is purged, or null if it never will be
+export const daysUntilPurge = (note: Note, retentionDays: number | null, now = Date.now()) => {
+  if (retentionDays === null || !note.deletedAt) return null;
+  const purgeAt = Date.parse(note.deletedAt) + retentionDays * DAY_MS;
+  return Math.max(0, Math.ceil((purgeAt - now) / DAY_MS));
+};
+
+// Trashed notes kept for longer than the retention period. Notes without a
+// deletion time are left alone rather than purged on a guess.
+export const findExpiredNotes = (notes: Note[], retentionDays: number | null, now = Date.now()) => {
+  if (retentionDays === null) return [];
+  return notes.filter(note =>
+    note.isDeleted &&
+    note.deletedAt &&
+    now - Date.parse(note.deletedAt) >= retentionDays * DAY_MS
+  );
+};
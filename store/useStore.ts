@@ -1,24 +1,148 @@
 import { create } from 'zustand';
-import { Note, NoteCategory, AppState } from '../types';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Note,
+  NewNote,
+  ImportedNote,
+  AppState,
+  InitResult,
+  SnapshotData,
+  SnapshotReason,
+  NoteChange,
+  TagChange,
+  TagStyle,
+  UndoableAction,
+  UndoNotice
+} from '../types';
 import { Platform } from 'react-native';
+import {
+  getRepository,
+  getBaseRepository,
+  setVaultRepository,
+  NoteRepository,
+  SETTINGS_KEYS,
+  allSettingKeys
+} from './repository';
+import {
+  runMigrations,
+  hasPendingMigrations,
+  upgradeNotes,
+  CURRENT_SCHEMA_VERSION
+} from './migrations';
+import {
+  createEntry,
+  quarantineEntries,
+  salvageAllStorage,
+  loadQuarantinedEntries,
+  discardQuarantinedEntries
+} from './recovery';
+import {
+  queueWrite,
+  flushPersistence,
+  cancelPendingWrites,
+  getPersistenceStatus,
+  onPersistenceStatusChange
+} from './persistenceQueue';
+import {
+  collectAttachmentGarbage,
+  clearAttachments,
+  compressImages,
+  extractInlineImages,
+  notesUseAttachments
+} from './attachments';
+import {
+  DEFAULT_TAGS,
+  TAG_SEPARATOR,
+  childTags,
+  cleanTagStyle,
+  cleanTagStyles,
+  collectTags,
+  findOrphanTags,
+  isWithinTag,
+  matchesTags,
+  normalizeTags,
+  parentTag,
+  replaceTagPath,
+  tagLeaf,
+  tagsFromCategory,
+  withAncestors
+} from './tags';
+import {
+  recordRevision,
+  getRevisions,
+  forgetHistory,
+  forgetHistoryExcept,
+  getHistoryAttachmentIds,
+  resetHistoryCache
+} from './noteHistory';
+import {
+  createAction,
+  recordAction,
+  peekUndo,
+  peekRedo,
+  takeUndo,
+  takeRedo,
+  pushUndo,
+  pushRedo,
+  clearActionLog,
+  forgetNoteActions,
+  getActionLogNoteIds,
+  getActionLogAttachmentIds,
+  applyNoteChanges,
+  applyTagChanges,
+  tagListChanges
+} from './actionLog';
+import { DEFAULT_STORAGE_WARNING_BYTES, estimateNotesBytes } from './storageUsage';
+import {
+  VaultHeader,
+  VaultKeys,
+  createVault,
+  deriveVaultKeys,
+  loadVaultHeader,
+  saveVaultHeader
+} from './vault';
+import { createEncryptedRepository } from './encryptedRepository';
+import {
+  DEFAULT_SNAPSHOT_RETENTION,
+  SNAPSHOT_INTERVAL_MS,
+  snapshotsSupported,
+  listSnapshots,
+  takeSnapshot,
+  readSnapshot,
+  pruneSnapshots,
+  resealSnapshots,
+  sealNoteInSnapshots,
+  getSnapshotAttachmentIds,
+  mergeSnapshotNotes
+} from './snapshots';
+import {
+  lockContent,
+  openLockedContent,
+  resealContent,
+  closeLockedNote,
+  getReadableContent
+} from './noteLock';
+import { DEFAULT_TRASH_RETENTION_DAYS, findExpiredNotes } from './trash';
+import {
+  writeBackupFile,
+  openBackupContents,
+  mergeBackupNotes,
+  restoreBackupAttachments
+} from './backup';
+import { logger } from './logger';
 
-const STORAGE_KEY = 'noteease-data';
-const THEME_KEY = 'noteease-theme';
-const CUSTOM_CATEGORIES_KEY = 'noteease-categories';
+const THEME_KEY = SETTINGS_KEYS.theme;
+const TAGS_KEY = SETTINGS_KEYS.tags;
+const TAG_STYLES_KEY = SETTINGS_KEYS.tagStyles;
+const CUSTOM_CATEGORIES_KEY = SETTINGS_KEYS.customCategories;
+const STORAGE_THRESHOLD_KEY = SETTINGS_KEYS.storageThreshold;
+const SNAPSHOT_RETENTION_KEY = SETTINGS_KEYS.snapshotRetention;
+const TRASH_RETENTION_KEY = SETTINGS_KEYS.trashRetention;
 
-// Simple logger for development only
-const logger = {
-  log: (...args: any[]) => {
-    if (__DEV__) console.log(...args);
-  },
-  warn: (...args: any[]) => {
-    if (__DEV__) console.warn(...args);
-  },
-  error: (...args: any[]) => {
-    if (__DEV__) console.error(...args);
-  }
-};
+// Keys for the unlocked vault, null while locked or when there is no vault
+let vaultKeys: VaultKeys | null = null;
+
+// When the newest snapshot was taken, to space out the daily ones
+let lastSnapshotAt = 0;
 
 // Generate a unique ID compatible with React Native
 const generateId = () => {
@@ -28,143 +152,206 @@ const generateId = () => {
     Math.random().toString(36).substring(2, 10);
 };
 
-// Enhanced AsyncStorage operations with better error handling
-const loadInitialState = async () => {
+// Enhanced storage operations with better error handling. Damaged
+// data is quarantined and salvaged rather than cleared.
+const loadInitialState = async (): Promise<InitResult> => {
   try {
-    logger.log('Loading data from AsyncStorage...');
+    const repository = getRepository();
+    logger.log(`Loading data from ${repository.name} storage...`);
     
-    const savedNotesString = await AsyncStorage.getItem(STORAGE_KEY);
-    const savedThemeString = await AsyncStorage.getItem(THEME_KEY);
-    const savedCategoriesString = await AsyncStorage.getItem(CUSTOM_CATEGORIES_KEY);
+    const { notes: notesData, damaged } = await repository.loadNotes();
+    const savedThemeString = await repository.getSetting(THEME_KEY);
+    const savedTagsString = await repository.getSetting(TAGS_KEY);
+    // Only read until the tag list has been saved once
+    const savedCategoriesString = savedTagsString ? null : await repository.getSetting(CUSTOM_CATEGORIES_KEY);
+    const savedTagStylesString = await repository.getSetting(TAG_STYLES_KEY);
+    const savedThresholdString = await repository.getSetting(STORAGE_THRESHOLD_KEY);
+    const savedRetentionString = await repository.getSetting(SNAPSHOT_RETENTION_KEY);
+    const savedTrashRetentionString = await repository.getSetting(TRASH_RETENTION_KEY);
     
-    logger.log('Notes loaded:', savedNotesString ? 'Yes' : 'No');
+    logger.log('Notes loaded:', notesData.length);
     
-    let notesData = [];
     let themeData = false;
-    let categoriesData = [];
+    let tagsData = DEFAULT_TAGS;
+    let tagStylesData: Record<string, TagStyle> = {};
+    let thresholdData = DEFAULT_STORAGE_WARNING_BYTES;
+    let retentionData = DEFAULT_SNAPSHOT_RETENTION;
+    let trashRetentionData: number | null = DEFAULT_TRASH_RETENTION_DAYS;
     
-    try {
-      if (savedNotesString) {
-        notesData = JSON.parse(savedNotesString);
-      }
-      if (savedThemeString) {
+    if (savedThemeString) {
+      try {
         themeData = JSON.parse(savedThemeString);
+      } catch (parseError) {
+        logger.error('Error parsing stored theme, using default:', parseError);
       }
-      if (savedCategoriesString) {
-        categoriesData = JSON.parse(savedCategoriesString);
+    }
+    if (savedTagsString) {
+      try {
+        tagsData = normalizeTags(JSON.parse(savedTagsString));
+      } catch (parseError) {
+        logger.error('Error parsing stored tags:', parseError);
+        damaged.push(createEntry(TAGS_KEY, savedTagsString, parseError));
       }
-    } catch (parseError: unknown) {
-      logger.error('Error parsing stored data:', parseError);
-      
-      // If we hit the "Row too big" error, clear the storage and start fresh
-      if (parseError instanceof Error && 
-         (parseError.message.includes('Row too big') || 
-          parseError.message.includes('CursorWindow'))) {
-        logger.warn('Storage size limit reached. Resetting app data...');
-        await clearStorage();
-        
-        // Show a warning to the user via Alert (will be handled in the UI)
-        return { 
-          notes: [], 
-          isDarkMode: false, 
-          customCategories: [],
-          storageError: true,
-          errorMessage: 'Your notes data exceeded the storage limit. The app has been reset. Please avoid storing very large images directly in notes.'
-        };
+    } else if (savedCategoriesString) {
+      // The default categories were never stored, so they lead the tag list
+      try {
+        tagsData = normalizeTags([...DEFAULT_TAGS, ...JSON.parse(savedCategoriesString)]);
+      } catch (parseError) {
+        logger.error('Error parsing stored categories:', parseError);
+        damaged.push(createEntry(CUSTOM_CATEGORIES_KEY, savedCategoriesString, parseError));
+      }
+    }
+    if (savedTagStylesString) {
+      try {
+        tagStylesData = cleanTagStyles(JSON.parse(savedTagStylesString));
+      } catch (parseError) {
+        logger.error('Error parsing tag styles, using defaults:', parseError);
+      }
+    }
+    if (savedThresholdString) {
+      try {
+        thresholdData = JSON.parse(savedThresholdString);
+      } catch (parseError) {
+        logger.error('Error parsing storage threshold, using default:', parseError);
+      }
+    }
+    if (savedRetentionString) {
+      try {
+        retentionData = JSON.parse(savedRetentionString);
+      } catch (parseError) {
+        logger.error('Error parsing snapshot retention, using default:', parseError);
+      }
+    }
+    if (savedTrashRetentionString) {
+      try {
+        trashRetentionData = JSON.parse(savedTrashRetentionString);
+      } catch (parseError) {
+        logger.error('Error parsing trash retention, using default:', parseError);
       }
     }
     
+    if (damaged.length > 0) {
+      await quarantineEntries(damaged);
+      return {
+        notes: notesData,
+        isDarkMode: themeData,
+        tags: tagsData,
+        tagStyles: tagStylesData,
+        storageWarningThreshold: thresholdData,
+        snapshotRetention: retentionData,
+        trashRetentionDays: trashRetentionData,
+        storageError: true,
+        recoveredNotes: notesData.length,
+        quarantinedEntries: damaged.length,
+        errorMessage: `Some of your notes data was damaged. ${notesData.length} notes were recovered and the damaged data has been set aside for review.`
+      };
+    }
+    
     return {
       notes: notesData,
       isDarkMode: themeData,
-      customCategories: categoriesData,
+      tags: tagsData,
+      tagStyles: tagStylesData,
+      storageWarningThreshold: thresholdData,
+      snapshotRetention: retentionData,
+      trashRetentionDays: trashRetentionData,
     };
   } catch (error) {
-    logger.error('Error loading data from AsyncStorage:', error);
+    logger.error('Error loading data from storage:', error);
+    const salvage = await salvageAllStorage(error);
     return { 
-      notes: [], 
+      notes: salvage.notes, 
       isDarkMode: false, 
-      customCategories: [],
+      tags: DEFAULT_TAGS,
       storageError: true,
-      errorMessage: 'There was an error loading your notes. The app data has been reset.'
+      recoveredNotes: salvage.notes.length,
+      quarantinedEntries: salvage.entries.length,
+      errorMessage: `There was an error loading your notes. ${salvage.notes.length} notes were recovered and your stored data has been set aside for review.`
     };
   }
 };
 
-// Save state to AsyncStorage with async/await pattern
-const saveNotes = async (notes: Note[]) => {
+const saveTheme = async (isDarkMode: boolean) => {
   try {
-    logger.log('Saving notes to AsyncStorage...', notes.length);
-    const jsonValue = JSON.stringify(notes);
-    await AsyncStorage.setItem(STORAGE_KEY, jsonValue);
-    logger.log('Notes saved successfully');
+    await getRepository().setSetting(THEME_KEY, JSON.stringify(isDarkMode));
     return true;
   } catch (error) {
-    logger.error('Error saving notes to AsyncStorage:', error);
+    logger.error('Error saving theme:', error);
     return false;
   }
 };
 
-const saveTheme = async (isDarkMode: boolean) => {
+const saveStorageThreshold = async (bytes: number) => {
+  try {
+    await getRepository().setSetting(STORAGE_THRESHOLD_KEY, JSON.stringify(bytes));
+    return true;
+  } catch (error) {
+    logger.error('Error saving storage threshold:', error);
+    return false;
+  }
+};
+
+const saveSnapshotRetention = async (count: number) => {
+  try {
+    await getRepository().setSetting(SNAPSHOT_RETENTION_KEY, JSON.stringify(count));
+    return true;
+  } catch (error) {
+    logger.error('Error saving snapshot retention:', error);
+    return false;
+  }
+};
+
+const saveTrashRetention = async (days: number | null) => {
   try {
-    await AsyncStorage.setItem(THEME_KEY, JSON.stringify(isDarkMode));
+    await getRepository().setSetting(TRASH_RETENTION_KEY, JSON.stringify(days));
     return true;
   } catch (error) {
-    logger.error('Error saving theme to AsyncStorage:', error);
+    logger.error('Error saving trash retention:', error);
     return false;
   }
 };
 
-const saveCategories = async (categories: string[]) => {
+const saveTags = async (tags: string[]) => {
   try {
-    await AsyncStorage.setItem(CUSTOM_CATEGORIES_KEY, JSON.stringify(categories));
+    await getRepository().setSetting(TAGS_KEY, JSON.stringify(tags));
     return true;
   } catch (error) {
-    logger.error('Error saving categories to AsyncStorage:', error);
+    logger.error('Error saving tags:', error);
     return false;
   }
 };
 
-// For debugging purposes
-const clearStorage = async () => {
+const saveTagStyles = async (tagStyles: Record<string, TagStyle>) => {
   try {
-    await AsyncStorage.clear();
-    logger.log('Storage cleared successfully');
+    await getRepository().setSetting(TAG_STYLES_KEY, JSON.stringify(tagStyles));
     return true;
-  } catch (e) {
-    logger.error('Failed to clear storage:', e);
+  } catch (error) {
+    logger.error('Error saving tag styles:', error);
     return false;
   }
 };
 
-// Improved clearStorage for emergency recovery
+// Notes aren't migrated in recovery mode, so those from before tags are
+// given theirs in memory to be shown
+const withTags = (notes: Note[]) => notes.map(note =>
+  Array.isArray(note.tags)
+    ? note
+    : { ...note, tags: tagsFromCategory((note as Note & { category?: string }).category) });
+
+// Clears all app data for emergency recovery. Everything goes through the
+// storage backend so notes and settings are cleared wherever they're kept.
 const emergencyClearStorage = async () => {
   try {
     logger.warn('EMERGENCY: Clearing all app storage due to data corruption');
-    
-    // Clear specific keys first
-    await AsyncStorage.removeItem(STORAGE_KEY);
-    await AsyncStorage.removeItem(THEME_KEY);
-    await AsyncStorage.removeItem(CUSTOM_CATEGORIES_KEY);
-    
-    // Then try the full clear
-    await AsyncStorage.clear();
-    
-    // Verify the clear worked
-    const testRead = await AsyncStorage.getItem(STORAGE_KEY);
-    if (testRead !== null) {
-      logger.warn('AsyncStorage.clear() did not work, manually cleared keys');
-    } else {
-      logger.log('Storage cleared completely');
-    }
-    
+    await getRepository().clearAll();
+    logger.log('Storage cleared completely');
     return true;
   } catch (error) {
     logger.error('Failed to clear storage:', error);
     
-    // Last resort - try one more time with just key removal
+    // Last resort - try one more time with just the notes
     try {
-      await AsyncStorage.removeItem(STORAGE_KEY);
+      await getRepository().clearNotes();
       logger.log('Cleared notes data as last resort');
       return true;
     } catch (e) {
@@ -174,34 +361,371 @@ const emergencyClearStorage = async () => {
   }
 };
 
+// Block note and tag changes while damaged data is waiting for review
+// or the vault is locked
+const isReadOnly = (action: string) => {
+  const { recoveryMode, vaultLocked } = useStore.getState();
+  if (!recoveryMode && !vaultLocked) return false;
+  logger.warn(`Ignoring ${action} while ${vaultLocked ? 'the vault is locked' : 'in recovery mode'}`);
+  return true;
+};
+
+// Flag the store once the notes database grows past the warning threshold
+const checkStorageUsage = (notes: Note[]) => {
+  const { storageWarningThreshold, storageWarning } = useStore.getState();
+  const usedBytes = estimateNotesBytes(notes);
+  
+  if (usedBytes >= storageWarningThreshold) {
+    if (!storageWarning) {
+      logger.warn(`Notes storage at ${usedBytes} bytes, over the ${storageWarningThreshold} byte threshold`);
+    }
+    useStore.setState({ 
+      storageWarning: { usedBytes, thresholdBytes: storageWarningThreshold } 
+    });
+  } else if (storageWarning) {
+    useStore.setState({ storageWarning: null });
+  }
+};
+
+// Snapshot the given data, or the current notes and tags. Resolves
+// to null if the snapshot couldn't be written.
+const saveSnapshot = async (reason: SnapshotReason, data?: SnapshotData) => {
+  if (!snapshotsSupported()) return null;
+  
+  try {
+    const { notes, tags, snapshotRetention } = useStore.getState();
+    const info = await takeSnapshot(
+      data ?? { notes, customCategories: tags },
+      reason,
+      snapshotRetention,
+      vaultKeys
+    );
+    lastSnapshotAt = Date.now();
+    return info;
+  } catch (error) {
+    logger.error(`Error taking ${reason} snapshot:`, error);
+    return null;
+  }
+};
+
+// Take the daily snapshot if the last one is old enough
+const takeDailySnapshot = () => {
+  if (Date.now() - lastSnapshotAt < SNAPSHOT_INTERVAL_MS) return;
+  // Claimed up front so overlapping saves don't each take one
+  lastSnapshotAt = Date.now();
+  saveSnapshot('daily');
+};
+
+// Drop attachment files nothing refers to, keeping those in snapshots,
+// note history and steps that can still be undone
+const collectGarbage = async (notes: Note[]) => {
+  const keepIds = await getSnapshotAttachmentIds();
+  (await getHistoryAttachmentIds()).forEach(id => keepIds.add(id));
+  getActionLogAttachmentIds().forEach(id => keepIds.add(id));
+  await collectAttachmentGarbage(notes, keepIds);
+};
+
+// Drop the history and images of deleted notes once undo can no longer
+// bring them back
+const releaseDeletedNotes = (notes: Note[]) => {
+  const keepIds = getActionLogNoteIds();
+  notes.forEach(note => keepIds.add(note.id));
+  forgetHistoryExcept(keepIds)
+    .then(() => collectGarbage(notes))
+    .catch(error => logger.error('Error releasing deleted notes:', error));
+};
+
+// Show what can be undone and redone next. A notice is only kept while
+// its action is the next one to undo or redo.
+const updateUndoState = (undoNotice: UndoNotice | null = null) => {
+  const next = undoNotice?.action === 'redo' ? peekRedo() : peekUndo();
+  useStore.setState({
+    undoLabel: peekUndo()?.label ?? null,
+    redoLabel: peekRedo()?.label ?? null,
+    undoNotice: undoNotice && next?.id === undoNotice.actionId ? undoNotice : null
+  });
+};
+
+// Keep an action for undo. Destructive ones offer to undo for a moment.
+const logAction = (action: UndoableAction, destructive = false) => {
+  const dropped = recordAction(action);
+  updateUndoState(destructive ? { actionId: action.id, message: action.label, action: 'undo' } : null);
+  if (dropped.some(droppedAction => droppedAction.noteChanges.some(change => !change.after))) {
+    releaseDeletedNotes(useStore.getState().notes);
+  }
+};
+
+// Replace a note with a changed copy and log the change for undo
+const changeNote = (id: string, change: (note: Note) => Note, label: string, destructive = false) => {
+  const note = useStore.getState().notes.find(note => note.id === id);
+  if (!note) {
+    logger.error('Note not found:', id);
+    return;
+  }
+  
+  const changedNote = change(note);
+  useStore.setState(state => {
+    const updatedNotes = state.notes.map(note => (note.id === id ? changedNote : note));
+    
+    // Queue the save; a burst of changes is written once
+    persistNotes(updatedNotes);
+    
+    return {
+      notes: updatedNotes,
+      filteredNotes: state.filterNotes(updatedNotes)
+    };
+  });
+  logAction(createAction(label, [{ before: note, after: changedNote }]), destructive);
+};
+
+// Move an action's notes and tags to the side before it (undo) or after
+// it (redo). Returns the action with only the changes that were made.
+const applyAction = (action: UndoableAction, direction: 'undo' | 'redo'): UndoableAction => {
+  const { notes, tags, filterNotes } = useStore.getState();
+  const { notes: updatedNotes, applied } = applyNoteChanges(notes, action.noteChanges, direction);
+  const updatedTags = applyTagChanges(tags, action.tagChanges, direction);
+  
+  if (applied.length > 0) {
+    persistNotes(updatedNotes);
+    // A note brought back to an earlier version gets a revision for it
+    applied
+      .map(change => (direction === 'undo' ? change.before : change.after))
+      .forEach(note => note && recordRevision(note, 'restored'));
+  }
+  if (updatedTags.join('\n') !== tags.join('\n')) {
+    queueWrite('tags', () => saveTags(updatedTags));
+  }
+  useStore.setState({
+    notes: updatedNotes,
+    tags: updatedTags,
+    filteredNotes: filterNotes(updatedNotes)
+  });
+  return { ...action, noteChanges: applied };
+};
+
+// Add tags that aren't in the list yet, along with the levels above
+// nested ones, returning the changes
+const addTags = (tags: string[]): TagChange[] => {
+  const { tags: currentTags } = useStore.getState();
+  const added = withAncestors(tags).filter(tag => !currentTags.includes(tag));
+  if (added.length === 0) return [];
+
+  const updatedTags = [...currentTags, ...added];
+  queueWrite('tags', () => saveTags(updatedTags));
+  useStore.setState({ tags: updatedTags });
+  return added.map((tag, offset) => ({ tag, index: currentTags.length + offset, added: true }));
+};
+
+// Apply `change` to the tags of every note with an affected tag, and to
+// the active filter, then switch to the updated tag list. Logged as one
+// step that can be undone.
+const changeTags = (
+  affects: (tag: string) => boolean,
+  change: (tags: string[]) => string[],
+  updatedTags: string[],
+  label: string,
+  destructive = false
+) => {
+  const { notes, tags, activeTags } = useStore.getState();
+  const now = new Date().toISOString();
+  
+  const noteChanges: NoteChange[] = [];
+  const updatedNotes = notes.map(note => {
+    if (!note.tags.some(affects)) return note;
+    const changed = { ...note, tags: normalizeTags(change(note.tags)), updatedAt: now };
+    noteChanges.push({ before: note, after: changed });
+    return changed;
+  });
+  
+  if (noteChanges.length > 0) {
+    persistNotes(updatedNotes);
+  }
+  queueWrite('tags', () => saveTags(updatedTags));
+  useStore.setState({
+    notes: updatedNotes,
+    tags: updatedTags,
+    activeTags: activeTags.some(affects)
+      ? normalizeTags(change(activeTags)).filter(tag => updatedTags.includes(tag))
+      : activeTags
+  });
+  useStore.setState(state => ({ filteredNotes: state.filterNotes(updatedNotes) }));
+  logAction(createAction(label, noteChanges, tagListChanges(tags, updatedTags)), destructive);
+};
+
+// Give a tag and everything nested under it a new path, on the list and on
+// every note that has one, as a single step that can be undone. Tags that
+// end up the same are merged.
+const retag = (from: string, to: string, label: string) => {
+  const rename = (tags: string[]) => tags.map(tag => replaceTagPath(tag, from, to));
+  changeTags(tag => isWithinTag(tag, from), rename, withAncestors(rename(useStore.getState().tags)), label);
+  
+  // Styles are copied rather than moved, so undoing keeps them too. A tag
+  // merged into another takes that one's style.
+  const { tagStyles } = useStore.getState();
+  const copied = Object.keys(tagStyles)
+    .filter(tag => isWithinTag(tag, from) && !tagStyles[replaceTagPath(tag, from, to)]);
+  if (copied.length > 0) {
+    const updatedStyles = { ...tagStyles };
+    copied.forEach(tag => {
+      updatedStyles[replaceTagPath(tag, from, to)] = tagStyles[tag];
+    });
+    queueWrite('tagStyles', () => saveTagStyles(updatedStyles));
+    useStore.setState({ tagStyles: updatedStyles });
+  }
+};
+
+// The tag list after restoring a copy: the current tags when merging, then
+// the copy's list and any tag its notes use. Copies from before tags only
+// list custom categories, so the defaults come back through their notes.
+const copiedTags = (current: string[], copyTags: string[], copyNotes: Note[]) =>
+  normalizeTags([...current, ...copyTags, ...collectTags(copyNotes)]);
+
+// Run pending migrations, keeping a snapshot of the notes as they were
+const migrateNotes = async (notes: Note[], tags: string[]) => {
+  if (await hasPendingMigrations()) {
+    await saveSnapshot('migration', { notes, customCategories: tags });
+  }
+  return runMigrations(notes);
+};
+
+// Queue a notes save and check the stored size once it has reached disk
+const persistNotes = (notes: Note[]) => {
+  queueWrite('notes', async () => {
+    const saved = await getRepository().saveNotes(notes);
+    if (saved) {
+      checkStorageUsage(notes);
+      takeDailySnapshot();
+    }
+    return saved;
+  });
+};
+
+// Put new notes at the top of the list, add any tags they bring to the
+// list, queue the save, record each note's first revision and log it all
+// as one action. Shared by everything that creates notes.
+const insertNotes = (newNotes: Note[], description: string) => {
+  const tagChanges = addTags(collectTags(newNotes));
+  useStore.setState(state => {
+    const updatedNotes = [...newNotes, ...state.notes];
+    // Queue the save; a burst of changes is written once
+    persistNotes(updatedNotes);
+    return {
+      notes: updatedNotes,
+      filteredNotes: state.filterNotes(updatedNotes)
+    };
+  });
+  newNotes.forEach(note => recordRevision(note, 'created'));
+  logAction(createAction(description, newNotes.map(note => ({ before: null, after: note })), tagChanges));
+};
+
+// Route reads and writes through the vault with the given keys
+const applyVaultKeys = (keys: VaultKeys | null) => {
+  vaultKeys = keys;
+  setVaultRepository(keys ? createEncryptedRepository(getBaseRepository(), keys) : null);
+  // History is read again through the new repository
+  resetHistoryCache();
+  return getRepository();
+};
+
+// Write every setting and note through `target`, reading settings from
+// `source`. Used to encrypt, re-encrypt or decrypt everything in place.
+const rewriteAllData = async (source: NoteRepository, target: NoteRepository, notes: Note[]) => {
+  for (const key of await allSettingKeys(source)) {
+    if (key === SETTINGS_KEYS.vault) continue;
+    const value = await source.getSetting(key);
+    if (value !== null) {
+      await target.setSetting(key, value);
+    }
+  }
+  const saved = await target.saveNotes(notes);
+  if (!saved) {
+    throw new Error('Failed to rewrite notes');
+  }
+};
+
+// Re-encrypt whatever is still under the previous key after a passphrase
+// change, then drop that key from the header
+const finishReencryption = async (header: VaultHeader, keys: VaultKeys, notes: Note[]) => {
+  const repository = getRepository();
+  await rewriteAllData(repository, repository, notes);
+  const { previousKey, ...completedHeader } = header;
+  await saveVaultHeader(getBaseRepository(), completedHeader);
+  applyVaultKeys({ key: keys.key, kdf: keys.kdf });
+  await resealSnapshots(keys, vaultKeys);
+  logger.log('Vault re-encryption complete');
+};
+
 // Create the store
 export const useStore = create<AppState>((set, get) => ({
   notes: [],
   filteredNotes: [],
-  activeCategory: 'all',
+  activeTags: [],
+  tagFilterMode: 'any',
+  showUntagged: false,
   searchQuery: '',
   isDarkMode: false,
   isInitialized: false,
-  customCategories: [],
-  initialNoteCategory: null as NoteCategory | null,
+  tags: DEFAULT_TAGS,
+  tagStyles: {},
+  recoveryMode: false,
+  persistenceStatus: getPersistenceStatus(),
+  storageWarningThreshold: DEFAULT_STORAGE_WARNING_BYTES,
+  storageWarning: null,
+  vaultEnabled: false,
+  vaultLocked: false,
+  snapshotRetention: DEFAULT_SNAPSHOT_RETENTION,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  initialNoteTags: null,
+  undoLabel: null,
+  redoLabel: null,
+  undoNotice: null,
 
-  // Set initial category for new note
-  setInitialNoteCategory: (category: NoteCategory | null) => {
-    set({ initialNoteCategory: category });
+  // Set initial tags for new note
+  setInitialNoteTags: (tags) => {
+    set({ initialNoteTags: tags });
   },
 
-  // Reset all app data
+  // Reset all app data, keeping a final snapshot so it can be undone
   resetAppData: async () => {
     try {
+      const resetSnapshot = snapshotsSupported() ? await saveSnapshot('reset') : null;
+      if (snapshotsSupported() && !resetSnapshot) {
+        logger.error('Not resetting without a final snapshot');
+        return false;
+      }
+      // A vault's snapshot needs its passphrase, so only the snapshots
+      // screen can restore it
+      const undoable = resetSnapshot !== null && !get().vaultEnabled;
+      
+      await cancelPendingWrites();
       const success = await emergencyClearStorage();
       if (success) {
+        // Images the snapshots refer to are kept for restoring them
+        await clearAttachments(await getSnapshotAttachmentIds());
+        applyVaultKeys(null);
+        clearActionLog();
+        if (undoable) {
+          logAction({ ...createAction('App data reset', []), resetSnapshot }, true);
+        } else {
+          updateUndoState();
+        }
         set({
           notes: [],
           filteredNotes: [],
-          activeCategory: 'all',
+          activeTags: [],
+          tagFilterMode: 'any',
+          showUntagged: false,
           searchQuery: '',
           isDarkMode: false,
-          customCategories: [],
+          tags: DEFAULT_TAGS,
+          tagStyles: {},
+          recoveryMode: false,
+          storageWarningThreshold: DEFAULT_STORAGE_WARNING_BYTES,
+          storageWarning: null,
+          vaultEnabled: false,
+          vaultLocked: false,
+          snapshotRetention: DEFAULT_SNAPSHOT_RETENTION,
+          trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
           isInitialized: true
         });
         return true;
@@ -213,212 +737,540 @@ export const useStore = create<AppState>((set, get) => ({
     }
   },
 
-  // Initialize with emergency recovery option
+  // Initialize, falling back to read-only recovery mode if data is damaged.
+  // With a vault, this stops at the lock screen and runs again once unlocked.
   initialize: async () => {
-    if (get().isInitialized) return;
+    if (get().isInitialized && !get().vaultLocked) return;
     
     try {
       try {
+        const vaultHeader = await loadVaultHeader(getBaseRepository());
+        if (vaultHeader && !vaultKeys) {
+          logger.log('Vault is locked, waiting for the passphrase');
+          set({ vaultEnabled: true, vaultLocked: true, isInitialized: true });
+          return { notes: [], isDarkMode: false, tags: DEFAULT_TAGS, vaultLocked: true };
+        }
+        
         logger.log('Attempting to load app data...');
         const result = await loadInitialState();
         logger.log('Store initialized with', result.notes.length, 'notes');
         
-        // Check if there was a storage error
+        // Damaged data was quarantined - show what was salvaged without
+        // writing anything until the user has reviewed it
         if (result.storageError) {
-          logger.warn('Storage error detected, resetting app data');
-          await emergencyClearStorage();
+          logger.warn('Storage error detected, starting in recovery mode');
           
+          result.notes = withTags(result.notes);
           set({ 
-            notes: [],
-            filteredNotes: [],
-            customCategories: [],
-            isDarkMode: false,
+            notes: result.notes,
+            isDarkMode: result.isDarkMode,
+            tags: result.tags,
+            tagStyles: result.tagStyles ?? {},
+            storageWarningThreshold: result.storageWarningThreshold ?? DEFAULT_STORAGE_WARNING_BYTES,
+            vaultEnabled: vaultHeader !== null,
+            snapshotRetention: result.snapshotRetention ?? DEFAULT_SNAPSHOT_RETENTION,
+            trashRetentionDays: result.trashRetentionDays !== undefined
+              ? result.trashRetentionDays
+              : DEFAULT_TRASH_RETENTION_DAYS,
+            recoveryMode: true,
             isInitialized: true
           });
+          set({ filteredNotes: get().filterNotes(result.notes) });
           
-          return {
-            notes: [],
-            isDarkMode: false,
-            customCategories: [],
-            storageError: true,
-            errorMessage: 'Your notes data exceeded the storage limit. The app has been reset. Please avoid storing large images directly in notes.'
-          };
+          return result;
         }
         
+        // Retention applies to the migration snapshot below
+        set({ snapshotRetention: result.snapshotRetention ?? DEFAULT_SNAPSHOT_RETENTION });
+        const [latestSnapshot] = await listSnapshots();
+        lastSnapshotAt = latestSnapshot ? Date.parse(latestSnapshot.createdAt) : 0;
+        
+        // Bring stored notes up to the current schema before anything reads them
+        result.notes = await migrateNotes(result.notes, result.tags);
+        
         // Set the basic state
         set({ 
           notes: result.notes,
           isDarkMode: result.isDarkMode,
-          customCategories: result.customCategories,
+          tags: result.tags,
+          tagStyles: result.tagStyles ?? {},
+          storageWarningThreshold: result.storageWarningThreshold ?? DEFAULT_STORAGE_WARNING_BYTES,
+          vaultEnabled: vaultHeader !== null,
+          trashRetentionDays: result.trashRetentionDays !== undefined
+            ? result.trashRetentionDays
+            : DEFAULT_TRASH_RETENTION_DAYS,
           isInitialized: true
         });
         
         // Filter and sort the notes
         const filteredAndSortedNotes = get().filterNotes(result.notes);
         set({ filteredNotes: filteredAndSortedNotes });
+        get().purgeExpiredTrash();
+        checkStorageUsage(result.notes);
+        takeDailySnapshot();
+        
+        // Undo ended with the last session, so history of notes deleted
+        // then is no longer needed
+        forgetHistoryExcept(new Set(result.notes.map(note => note.id)))
+          .catch(error => logger.error('Error dropping history of deleted notes:', error));
         
         return result;
       } catch (loadError) {
-        // Critical recovery - if any error happens during load, clear everything
+        // Critical error - leave stored data untouched and stay read-only
         logger.error('Critical error loading data:', loadError);
-        logger.warn('Forcing complete app reset due to critical error');
-        
-        await emergencyClearStorage();
+        logger.warn('Starting in recovery mode without loaded notes');
         
         set({ 
           notes: [],
           filteredNotes: [],
-          customCategories: [],
+          tags: DEFAULT_TAGS,
           isDarkMode: false,
+          recoveryMode: true,
           isInitialized: true
         });
         
         return {
           notes: [],
           isDarkMode: false,
-          customCategories: [],
+          tags: DEFAULT_TAGS,
           storageError: true,
-          errorMessage: 'A critical error occurred. All app data has been reset to recover functionality.'
+          recoveredNotes: 0,
+          errorMessage: 'A critical error occurred while loading your notes. Nothing has been deleted; restart the app to try again.'
         };
       }
     } catch (error) {
       logger.error('Unrecoverable error in initialization:', error);
-      // Last resort - just mark as initialized with empty data
+      // Last resort - mark as initialized but read-only so nothing is overwritten
       set({ 
         notes: [],
         filteredNotes: [],
-        customCategories: [],
+        tags: DEFAULT_TAGS,
+        recoveryMode: true,
         isInitialized: true 
       });
       
       return {
         notes: [],
         isDarkMode: false,
-        customCategories: [],
+        tags: DEFAULT_TAGS,
         storageError: true,
-        errorMessage: 'Failed to initialize the app. The data has been reset.'
+        recoveredNotes: 0,
+        errorMessage: 'Failed to initialize the app. Nothing has been deleted; restart the app to try again.'
       };
     }
   },
 
-  // Theme toggle
-  toggleTheme: () => {
-    set(state => {
-      const newIsDarkMode = !state.isDarkMode;
-      saveTheme(newIsDarkMode);
-      return { isDarkMode: newIsDarkMode };
-    });
+  // Replace the damaged data on disk with the notes salvaged from it and
+  // leave recovery mode. Quarantined copies are kept until discarded, and
+  // whatever notes still load are snapshotted first, so stored data is
+  // never cleared without a copy of it kept somewhere.
+  finishRecovery: async () => {
+    try {
+      const { notes, tags } = get();
+      logger.log('Finishing recovery with', notes.length, 'notes');
+      
+      const quarantined = await loadQuarantinedEntries();
+      if (notes.length === 0 && quarantined.length === 0) {
+        logger.error('Nothing was salvaged or quarantined, leaving stored data alone');
+        return false;
+      }
+      
+      await cancelPendingWrites();
+      const repository = getRepository();
+      
+      let storedNotes: Note[] | null = null;
+      try {
+        storedNotes = (await repository.loadNotes()).notes;
+      } catch (loadError) {
+        logger.warn('Stored notes still fail to load:', loadError);
+      }
+      if (storedNotes === null && quarantined.length === 0) {
+        logger.error('Stored notes are unreadable and were not quarantined, leaving them alone');
+        return false;
+      }
+      if (storedNotes && storedNotes.length > 0 && snapshotsSupported()) {
+        const snapshot = await saveSnapshot('recovery', { notes: storedNotes, customCategories: tags });
+        if (!snapshot) {
+          logger.error('Not finishing recovery without a snapshot of the stored notes');
+          return false;
+        }
+      }
+      
+      await repository.clearNotes();
+      const saved = await repository.saveNotes(notes);
+      if (!saved) return false;
+      await saveTags(tags);
+      
+      const migratedNotes = await migrateNotes(notes, tags);
+      set({ 
+        notes: migratedNotes,
+        recoveryMode: false
+      });
+      set({ filteredNotes: get().filterNotes(migratedNotes) });
+      return true;
+    } catch (error) {
+      logger.error('Error finishing recovery:', error);
+      return false;
+    }
   },
 
-  // Add custom category
-  addCustomCategory: (category: string) => {
-    if (!category.trim()) return;
+  // Delete the quarantined copies of damaged data
+  discardRecoveryData: async () => {
+    try {
+      if (get().recoveryMode) {
+        const finished = await get().finishRecovery();
+        if (!finished) return false;
+      }
+      await discardQuarantinedEntries();
+      return true;
+    } catch (error) {
+      logger.error('Error discarding recovery data:', error);
+      return false;
+    }
+  },
+
+  // Unlock with the passphrase and load the notes. A wrong passphrase only
+  // resolves to false; stored data is never touched.
+  unlockVault: async (passphrase) => {
+    if (!get().vaultLocked) return true;
     
-    set(state => {
-      // Check if category already exists
-      if (state.customCategories.includes(category)) {
-        return state; // No changes if category already exists
+    try {
+      const header = await loadVaultHeader(getBaseRepository());
+      if (!header) return false;
+      
+      const keys = await deriveVaultKeys(header, passphrase);
+      if (!keys) {
+        logger.warn('Incorrect vault passphrase');
+        return false;
       }
       
-      const updatedCategories = [...state.customCategories, category];
-      saveCategories(updatedCategories);
+      applyVaultKeys(keys);
+      await get().initialize!();
+      set({ vaultLocked: false });
       
-      return { 
-        customCategories: updatedCategories 
-      };
-    });
+      // A passphrase change was interrupted - finish moving to the new key
+      if (keys.previousKey && !get().recoveryMode) {
+        await finishReencryption(header, keys, get().notes);
+      }
+      return true;
+    } catch (error) {
+      logger.error('Error unlocking vault:', error);
+      return false;
+    }
   },
 
-  // Remove custom category
-  removeCustomCategory: (category: string) => {
-    set(state => {
-      const updatedCategories = state.customCategories.filter(cat => cat !== category);
-      saveCategories(updatedCategories);
+  // Encrypt all notes and settings under a new passphrase. Refused while
+  // notes use attachment files, which would stay unencrypted on disk.
+  enableVault: async (passphrase) => {
+    if (get().vaultEnabled || isReadOnly('enableVault')) return false;
+    if (notesUseAttachments(get().notes)) {
+      logger.warn('Not enabling the vault while notes use attachment files');
+      return false;
+    }
+    
+    try {
+      await flushPersistence();
+      const base = getBaseRepository();
+      const { header, keys } = await createVault(passphrase);
       
-      return {
-        customCategories: updatedCategories
-      };
-    });
+      // Header first: anything still in plaintext if this is interrupted
+      // is read as-is and encrypted on a later save
+      await saveVaultHeader(base, header);
+      const encrypted = applyVaultKeys(keys);
+      set({ vaultEnabled: true });
+      
+      await rewriteAllData(base, encrypted, get().notes);
+      await resealSnapshots(null, keys);
+      // Leftover files no note uses any more
+      collectGarbage(get().notes);
+      logger.log('Vault enabled');
+      return true;
+    } catch (error) {
+      logger.error('Error enabling vault:', error);
+      return false;
+    }
   },
 
-  // Note management - with async operations and better error handling
-  addNote: (note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => {
-    logger.log('Adding new note:', note.title);
+  // Re-encrypt everything under a key derived from the new passphrase
+  changeVaultPassphrase: async (currentPassphrase, newPassphrase) => {
+    if (!get().vaultEnabled || isReadOnly('changeVaultPassphrase')) return false;
     
-    set(state => {
-      const newNote: Note = {
-        ...note,
-        id: generateId(),
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+    try {
+      const base = getBaseRepository();
+      const header = await loadVaultHeader(base);
+      const currentKeys = header && await deriveVaultKeys(header, currentPassphrase);
+      if (!currentKeys) {
+        logger.warn('Incorrect vault passphrase');
+        return false;
+      }
       
-      // Add new note at the beginning of the array instead of the end
-      const updatedNotes = [newNote, ...state.notes];
+      await flushPersistence();
+      const source = getRepository();
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after adding');
-        }
-      });
+      // The old key stays in the header until everything is re-encrypted,
+      // so an interrupted change can be finished on the next unlock
+      const { header: nextHeader, keys } = await createVault(newPassphrase, currentKeys.key);
+      await saveVaultHeader(base, nextHeader);
+      applyVaultKeys(keys);
+      
+      await rewriteAllData(source, getRepository(), get().notes);
+      const { previousKey, ...completedHeader } = nextHeader;
+      await saveVaultHeader(base, completedHeader);
+      applyVaultKeys({ key: keys.key, kdf: keys.kdf });
+      await resealSnapshots(currentKeys, vaultKeys);
       
-      // If this is a custom category not in the standard ones,
-      // add it to the custom categories list
-      if (
-        typeof note.category === 'string' && 
-        note.category !== 'all' && 
-        note.category !== 'personal' && 
-        note.category !== 'work' && 
-        note.category !== 'family' && 
-        !state.customCategories.includes(note.category)
-      ) {
-        get().addCustomCategory(note.category);
+      logger.log('Vault passphrase changed');
+      return true;
+    } catch (error) {
+      logger.error('Error changing vault passphrase:', error);
+      return false;
+    }
+  },
+
+  // Decrypt everything back to plaintext and remove the vault
+  disableVault: async (passphrase) => {
+    if (!get().vaultEnabled || isReadOnly('disableVault')) return false;
+    
+    try {
+      const base = getBaseRepository();
+      const header = await loadVaultHeader(base);
+      const keys = header && await deriveVaultKeys(header, passphrase);
+      if (!keys) {
+        logger.warn('Incorrect vault passphrase');
+        return false;
       }
       
-      const filtered = get().filterNotes(updatedNotes);
-      return { 
-        notes: updatedNotes,
-        filteredNotes: filtered
-      };
+      await flushPersistence();
+      const source = getRepository();
+      applyVaultKeys(null);
+      
+      // The header goes last so records still sealed if this is
+      // interrupted can be read on the next unlock
+      await rewriteAllData(source, base, get().notes);
+      await base.removeSetting(SETTINGS_KEYS.vault);
+      set({ vaultEnabled: false });
+      await resealSnapshots(keys, null);
+      
+      logger.log('Vault disabled');
+      return true;
+    } catch (error) {
+      logger.error('Error disabling vault:', error);
+      return false;
+    }
+  },
+
+  // Theme toggle
+  toggleTheme: () => {
+    set(state => {
+      const newIsDarkMode = !state.isDarkMode;
+      queueWrite('theme', () => saveTheme(newIsDarkMode));
+      return { isDarkMode: newIsDarkMode };
     });
   },
 
+  // Add a tag to the list
+  addTag: (tag: string) => {
+    if (isReadOnly('addTag')) return;
+    
+    const changes = addTags([tag]);
+    if (changes.length > 0) {
+      logAction(createAction(`Tag "${changes[0].tag}" added`, [], changes));
+    }
+  },
+
+  // Add every tag found on notes but missing from the list
+  adoptOrphanTags: () => {
+    if (isReadOnly('adoptOrphanTags')) return;
+    
+    const changes = addTags(findOrphanTags(get().notes, get().tags));
+    if (changes.length > 0) {
+      logAction(createAction(`${changes.length} ${changes.length === 1 ? 'tag' : 'tags'} added`, [], changes));
+    }
+  },
+
+  // Delete a tag and those nested under it from the list and every note,
+  // giving those notes `replacement` instead when there is one
+  deleteTag: (tag, replacement) => {
+    if (isReadOnly('deleteTag')) return;
+    
+    const affects = (existing: string) => isWithinTag(existing, tag);
+    if (replacement !== null && affects(replacement)) return;
+    const { notes, tags } = get();
+    if (!tags.some(affects) && !notes.some(note => note.tags.some(affects))) return;
+    
+    logger.log('Deleting tag', tag, replacement ? `in favour of ${replacement}` : '');
+    const replace = (existing: string[]) => [
+      ...existing.filter(other => !affects(other)),
+      ...(replacement !== null ? [replacement] : [])
+    ];
+    changeTags(affects, replace, withAncestors(replace(tags)), `Tag "${tag}" deleted`, true);
+  },
+
+  // Give a tag and everything nested under it a new path. False if the
+  // name is empty or another tag already has it.
+  renameTag: (tag, newTag) => {
+    if (isReadOnly('renameTag')) return false;
+    
+    const [renamed] = normalizeTags([newTag]);
+    if (!renamed || isWithinTag(renamed, tag)) return renamed === tag;
+    const { notes, tags } = get();
+    if (tags.includes(renamed) || notes.some(note => note.tags.includes(renamed))) return false;
+    
+    logger.log('Renaming tag', tag, 'to', renamed);
+    retag(tag, renamed, `Tag "${tag}" renamed`);
+    return true;
+  },
+
+  // Fold a tag into another. Its notes take the other tag, and tags nested
+  // under it move under the other one.
+  mergeTag: (tag, into) => {
+    if (isReadOnly('mergeTag')) return false;
+    if (tag === into || isWithinTag(into, tag)) return false;
+    
+    logger.log('Merging tag', tag, 'into', into);
+    retag(tag, into, `Tag "${tag}" merged into "${into}"`);
+    return true;
+  },
+
+  // Move a tag one place earlier or later among the tags beside it
+  reorderTag: (tag, offset) => {
+    if (isReadOnly('reorderTag')) return;
+    
+    const { tags } = get();
+    const siblings = childTags(tags, parentTag(tag));
+    const neighbour = siblings[siblings.indexOf(tag) + offset];
+    if (!neighbour || !tags.includes(tag)) return;
+    
+    const from = tags.indexOf(tag);
+    const updatedTags = tags.filter(existing => existing !== tag);
+    const to = updatedTags.indexOf(neighbour) + (offset > 0 ? 1 : 0);
+    updatedTags.splice(to, 0, tag);
+    
+    queueWrite('tags', () => saveTags(updatedTags));
+    set({ tags: updatedTags });
+    logAction(createAction(`Tag "${tag}" reordered`, [], [
+      { tag, index: from, added: false },
+      { tag, index: to, added: true }
+    ]));
+  },
+
+  setTagStyle: (tag, style) => {
+    if (isReadOnly('setTagStyle')) return;
+    
+    const { [tag]: _previous, ...otherStyles } = get().tagStyles;
+    const cleaned = cleanTagStyle(style);
+    const updatedStyles = cleaned ? { ...otherStyles, [tag]: cleaned } : otherStyles;
+    queueWrite('tagStyles', () => saveTagStyles(updatedStyles));
+    set({ tagStyles: updatedStyles });
+  },
+
+  moveTag: (tag, parent) => {
+    if (isReadOnly('moveTag')) return false;
+    
+    // A tag can't go under itself or anything nested in it
+    if (parent !== null && isWithinTag(parent, tag)) return false;
+    const moved = parent === null ? tagLeaf(tag) : parent + TAG_SEPARATOR + tagLeaf(tag);
+    if (moved === tag) return true;
+    
+    logger.log('Moving tag', tag, 'to', moved);
+    retag(tag, moved, `Tag "${tag}" moved`);
+    return true;
+  },
+
+  // Note management - with async operations and better error handling
+  addNote: (note: NewNote) => {
+    if (isReadOnly('addNote')) return;
+    logger.log('Adding new note:', note.title);
+    
+    const now = new Date().toISOString();
+    insertNotes([{
+      ...note,
+      tags: normalizeTags(note.tags),
+      id: generateId(),
+      createdAt: now,
+      updatedAt: now,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    }], 'Note created');
+  },
+
+  // Add imported notes in one write. Notes from other apps keep their own
+  // timestamps, and those whose id is already taken were imported before
+  // and are skipped. Resolves to the number of notes added.
+  importNotes: async (imported: ImportedNote[]) => {
+    if (isReadOnly('importNotes')) return 0;
+
+    const now = new Date().toISOString();
+    const newNotes: Note[] = [];
+    const seenIds = new Set(get().notes.map(note => note.id));
+    for (const note of imported) {
+      if (note.id && seenIds.has(note.id)) continue;
+      const id = note.id ?? generateId();
+      seenIds.add(id);
+      newNotes.push({
+        ...note,
+        id,
+        // Images in other apps' exports arrive inline
+        content: await extractInlineImages(note.content),
+        createdAt: note.createdAt ?? now,
+        updatedAt: note.updatedAt ?? note.createdAt ?? now,
+        // Without a trash time from the source, the retention period
+        // starts with the import
+        ...(note.isDeleted && !note.deletedAt ? { deletedAt: now } : {}),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      });
+    }
+    if (newNotes.length === 0) return 0;
+
+    // Notes added while images were being stored win over the import
+    const currentIds = new Set(get().notes.map(note => note.id));
+    const addedNotes = newNotes.filter(note => !currentIds.has(note.id));
+    if (addedNotes.length === 0) return 0;
+
+    // The whole import is undone in one step
+    insertNotes(
+      addedNotes,
+      `${addedNotes.length} ${addedNotes.length === 1 ? 'note' : 'notes'} imported`
+    );
+    logger.log('Imported', addedNotes.length, 'notes');
+    return addedNotes.length;
+  },
+
   updateNote: (id: string, noteUpdates: Partial<Note>) => {
+    if (isReadOnly('updateNote')) return;
     logger.log('Updating note:', id);
     
-    set(state => {
-      const noteToUpdate = state.notes.find(note => note.id === id);
-      if (!noteToUpdate) {
-        logger.error('Note not found for update:', id);
-        return state; // Return unchanged state if note not found
+    const noteToUpdate = get().notes.find(note => note.id === id);
+    if (!noteToUpdate) {
+      logger.error('Note not found for update:', id);
+      return;
+    }
+    
+    // Locked notes keep their content sealed with the note's PIN
+    let updates = noteUpdates.tags ? { ...noteUpdates, tags: normalizeTags(noteUpdates.tags) } : noteUpdates;
+    if (noteToUpdate.lock && noteUpdates.content !== undefined) {
+      const sealed = resealContent(noteToUpdate, noteUpdates.content);
+      if (!sealed) {
+        logger.error('Locked note must be opened before its content is updated:', id);
+        return;
       }
-      
+      updates = { ...updates, ...sealed };
+    }
+    
+    const updatedNote = { ...noteToUpdate, ...updates, updatedAt: new Date().toISOString() };
+    
+    // Logged once the note is updated in the store
+    const actions: UndoableAction[] = [];
+    set(state => {
       const updatedNotes = state.notes.map(note => 
-        note.id === id 
-          ? { ...note, ...noteUpdates, updatedAt: new Date().toISOString() } 
-          : note
+        note.id === id ? updatedNote : note
       );
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after updating');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
-      // If a custom category is being set, add it to the list
-      if (
-        noteUpdates.category && 
-        typeof noteUpdates.category === 'string' && 
-        noteUpdates.category !== 'all' && 
-        noteUpdates.category !== 'personal' && 
-        noteUpdates.category !== 'work' && 
-        noteUpdates.category !== 'family' && 
-        !state.customCategories.includes(noteUpdates.category)
-      ) {
-        get().addCustomCategory(noteUpdates.category);
-      }
+      // Tags being set that aren't in the list yet are added to it
+      const tagChanges = updates.tags ? addTags(updates.tags) : [];
+      actions.push(createAction('Note edited', [{ before: noteToUpdate, after: updatedNote }], tagChanges));
       
       const filtered = get().filterNotes(updatedNotes);
       return { 
@@ -426,22 +1278,47 @@ export const useStore = create<AppState>((set, get) => ({
         filteredNotes: filtered
       };
     });
+    actions.forEach(action => logAction(action));
+    
+    // Every save that changes what the note says is kept as a revision
+    if (
+      noteUpdates.title !== undefined ||
+      noteUpdates.content !== undefined ||
+      noteUpdates.tags !== undefined
+    ) {
+      recordRevision(updatedNote, 'edited', noteToUpdate);
+    }
   },
 
   deleteNote: (id) => {
+    if (isReadOnly('deleteNote')) return;
     logger.log('Deleting note (moving to trash):', id);
+    changeNote(
+      id,
+      note => ({ ...note, isDeleted: true, deletedAt: new Date().toISOString() }),
+      'Note moved to trash',
+      true
+    );
+  },
+
+  restoreNote: (id) => {
+    if (isReadOnly('restoreNote')) return;
+    logger.log('Restoring note from trash:', id);
+    changeNote(id, ({ deletedAt, ...note }) => ({ ...note, isDeleted: false }), 'Note restored');
+  },
+
+  permanentlyDeleteNote: (id) => {
+    if (isReadOnly('permanentlyDeleteNote')) return;
+    logger.log('Permanently deleting note:', id);
+    
+    const deletedNote = get().notes.find(note => note.id === id);
+    if (!deletedNote) return;
     
     set(state => {
-      const updatedNotes = state.notes.map(note => 
-        note.id === id ? { ...note, isDeleted: true } : note
-      );
+      const updatedNotes = state.notes.filter(note => note.id !== id);
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after deleting');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
       const filtered = get().filterNotes(updatedNotes);
       return { 
@@ -449,22 +1326,23 @@ export const useStore = create<AppState>((set, get) => ({
         filteredNotes: filtered
       };
     });
+    // History and image files stay while the delete can be undone
+    logAction(createAction('Note deleted', [{ before: deletedNote, after: null }]), true);
+    releaseDeletedNotes(get().notes);
   },
 
-  restoreNote: (id) => {
-    logger.log('Restoring note from trash:', id);
+  emptyTrash: () => {
+    if (isReadOnly('emptyTrash')) return;
+    logger.log('Emptying trash');
+    
+    const trashedNotes = get().notes.filter(note => note.isDeleted);
+    if (trashedNotes.length === 0) return;
     
     set(state => {
-      const updatedNotes = state.notes.map(note => 
-        note.id === id ? { ...note, isDeleted: false } : note
-      );
+      const updatedNotes = state.notes.filter(note => !note.isDeleted);
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after restoring');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
       const filtered = get().filterNotes(updatedNotes);
       return { 
@@ -472,79 +1350,468 @@ export const useStore = create<AppState>((set, get) => ({
         filteredNotes: filtered
       };
     });
+    // The whole trash comes back in one step
+    logAction(createAction(
+      `Trash emptied (${trashedNotes.length} ${trashedNotes.length === 1 ? 'note' : 'notes'})`,
+      trashedNotes.map(note => ({ before: note, after: null }))
+    ), true);
+    releaseDeletedNotes(get().notes);
   },
 
-  permanentlyDeleteNote: (id) => {
-    logger.log('Permanently deleting note:', id);
+  restoreNotes: (ids) => {
+    if (isReadOnly('restoreNotes')) return;
+    
+    const restoring = new Set(ids);
+    const changes = get().notes
+      .filter(note => note.isDeleted && restoring.has(note.id))
+      .map(note => {
+        const { deletedAt, ...restored } = note;
+        return { before: note, after: { ...restored, isDeleted: false } };
+      });
+    if (changes.length === 0) return;
+    logger.log('Restoring notes from trash:', changes.length);
     
+    const restoredNotes = new Map(changes.map(change => [change.before.id, change.after]));
     set(state => {
-      const updatedNotes = state.notes.filter(note => note.id !== id);
+      const updatedNotes = state.notes.map(note => restoredNotes.get(note.id) ?? note);
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after permanent deletion');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
-      const filtered = get().filterNotes(updatedNotes);
-      return { 
+      return {
         notes: updatedNotes,
-        filteredNotes: filtered
+        filteredNotes: state.filterNotes(updatedNotes)
       };
     });
+    logAction(createAction(
+      `${changes.length} ${changes.length === 1 ? 'note' : 'notes'} restored`,
+      changes
+    ));
   },
 
-  pinNote: (id) => {
-    logger.log('Pinning note:', id);
+  permanentlyDeleteNotes: (ids) => {
+    if (isReadOnly('permanentlyDeleteNotes')) return;
+    
+    const deleting = new Set(ids);
+    const deletedNotes = get().notes.filter(note => note.isDeleted && deleting.has(note.id));
+    if (deletedNotes.length === 0) return;
+    logger.log('Permanently deleting notes:', deletedNotes.length);
     
     set(state => {
-      const updatedNotes = state.notes.map(note => 
-        note.id === id ? { ...note, isPinned: true } : note
-      );
+      const updatedNotes = state.notes.filter(note => !deletedNotes.includes(note));
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after pinning');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
-      const filtered = get().filterNotes(updatedNotes);
-      return { 
+      return {
         notes: updatedNotes,
-        filteredNotes: filtered
+        filteredNotes: state.filterNotes(updatedNotes)
       };
     });
+    // History and image files stay while the delete can be undone
+    logAction(createAction(
+      `${deletedNotes.length} ${deletedNotes.length === 1 ? 'note' : 'notes'} deleted`,
+      deletedNotes.map(note => ({ before: note, after: null }))
+    ), true);
+    releaseDeletedNotes(get().notes);
   },
 
-  unpinNote: (id) => {
-    logger.log('Unpinning note:', id);
+  setTrashRetention: (days) => {
+    queueWrite('trashRetention', () => saveTrashRetention(days));
+    set({ trashRetentionDays: days });
+    get().purgeExpiredTrash();
+  },
+
+  // Expired notes are gone for good; the retention period was the chance
+  // to restore them, so the purge isn't offered for undo
+  purgeExpiredTrash: () => {
+    const { notes, trashRetentionDays, recoveryMode, vaultLocked } = get();
+    if (recoveryMode || vaultLocked) return;
+    
+    const expired = findExpiredNotes(notes, trashRetentionDays);
+    if (expired.length === 0) return;
+    logger.log(`Purging ${expired.length} notes kept in the trash for over ${trashRetentionDays} days`);
     
+    const expiredIds = new Set(expired.map(note => note.id));
     set(state => {
-      const updatedNotes = state.notes.map(note => 
-        note.id === id ? { ...note, isPinned: false } : note
-      );
+      const updatedNotes = state.notes.filter(note => !expiredIds.has(note.id));
       
-      // Save notes asynchronously
-      saveNotes(updatedNotes).then(success => {
-        if (!success) {
-          logger.error('Failed to save notes after unpinning');
-        }
-      });
+      // Queue the save; a burst of changes is written once
+      persistNotes(updatedNotes);
       
-      const filtered = get().filterNotes(updatedNotes);
-      return { 
+      return {
         notes: updatedNotes,
-        filteredNotes: filtered
+        filteredNotes: state.filterNotes(updatedNotes)
       };
     });
+    releaseDeletedNotes(get().notes);
   },
 
-  setActiveCategory: (category) => {
-    set({ activeCategory: category });
-    const filtered = get().filterNotes();
-    set({ filteredNotes: filtered });
+  compressNoteImages: async (id) => {
+    if (isReadOnly('compressNoteImages')) return false;
+    
+    const note = get().notes.find(note => note.id === id);
+    if (!note) {
+      logger.error('Note not found for image compression:', id);
+      return false;
+    }
+    if (note.lock) {
+      logger.warn('Not compressing images in a locked note:', id);
+      return false;
+    }
+    
+    try {
+      const content = await compressImages(note.content);
+      if (content !== note.content) {
+        get().updateNote(id, { content });
+        collectGarbage(get().notes);
+      }
+      return true;
+    } catch (error) {
+      logger.error('Error compressing note images:', error);
+      return false;
+    }
+  },
+
+  getNoteHistory: async (id) => {
+    const note = get().notes.find(note => note.id === id);
+    if (!note || note.lock) return [];
+    try {
+      return await getRevisions(id);
+    } catch (error) {
+      logger.error('Error loading note history:', error);
+      return [];
+    }
+  },
+
+  // Bring back a revision's title, content and tags. The restore is
+  // itself recorded, so it can be undone from the history too.
+  restoreRevision: async (id, revisionId) => {
+    if (isReadOnly('restoreRevision')) return false;
+
+    const note = get().notes.find(note => note.id === id);
+    if (!note || note.lock) return false;
+    const revision = (await getRevisions(id)).find(revision => revision.id === revisionId);
+    if (!revision) {
+      logger.error('Revision not found:', revisionId);
+      return false;
+    }
+
+    logger.log('Restoring note', id, 'to revision from', revision.savedAt);
+    const { title, content, tags } = revision;
+    const current = get().notes.find(note => note.id === id);
+    if (!current) return false;
+    const restoredNote = { ...current, title, content, tags, updatedAt: new Date().toISOString() };
+    const tagChanges = addTags(tags);
+    set(state => {
+      const updatedNotes = state.notes.map(note => (note.id === id ? restoredNote : note));
+      persistNotes(updatedNotes);
+      return {
+        notes: updatedNotes,
+        filteredNotes: get().filterNotes(updatedNotes)
+      };
+    });
+    logAction(createAction('Version restored', [{ before: current, after: restoredNote }], tagChanges));
+    recordRevision(restoredNote, 'restored');
+    return true;
+  },
+
+  // Undo the latest action. Notes changed again since are left as they are.
+  // A reset is undone by restoring the snapshot taken before it.
+  undo: async (actionId) => {
+    if (isReadOnly('undo')) return false;
+    
+    const action = peekUndo();
+    if (!action || (actionId && action.id !== actionId)) return false;
+    takeUndo();
+    logger.log('Undoing:', action.label);
+    
+    if (action.resetSnapshot) {
+      const restored = await get().restoreSnapshot(action.resetSnapshot, 'replace');
+      if (!restored) {
+        pushUndo(action);
+        return false;
+      }
+      // Resetting again is left to the reset button
+      updateUndoState();
+      return true;
+    }
+    
+    const undone = applyAction(action, 'undo');
+    const changed = undone.noteChanges.length > 0 || action.noteChanges.length === 0;
+    if (changed) {
+      pushRedo(undone);
+    }
+    updateUndoState(changed ? { actionId: action.id, message: `Undone: ${action.label}`, action: 'redo' } : null);
+    return changed;
+  },
+
+  redo: async (actionId) => {
+    if (isReadOnly('redo')) return false;
+    
+    const action = peekRedo();
+    if (!action || (actionId && action.id !== actionId)) return false;
+    takeRedo();
+    logger.log('Redoing:', action.label);
+    
+    const redone = applyAction(action, 'redo');
+    const changed = redone.noteChanges.length > 0 || action.noteChanges.length === 0;
+    if (changed) {
+      pushUndo(redone);
+    }
+    updateUndoState();
+    return changed;
+  },
+
+  dismissUndoNotice: () => {
+    set({ undoNotice: null });
+  },
+
+  setStorageWarningThreshold: (bytes) => {
+    queueWrite('storageThreshold', () => saveStorageThreshold(bytes));
+    set({ storageWarningThreshold: bytes });
+    checkStorageUsage(get().notes);
+  },
+
+  // Seal a note's content with a PIN. The note stays open until closed.
+  lockNote: async (id, pin) => {
+    if (isReadOnly('lockNote')) return false;
+    
+    const note = get().notes.find(note => note.id === id);
+    if (!note || note.lock) return false;
+    
+    try {
+      const sealed = await lockContent(note, pin);
+      logger.log('Locking note:', id);
+      
+      set(state => {
+        const updatedNotes = state.notes.map(note => 
+          note.id === id ? { ...note, ...sealed } : note
+        );
+        
+        // Queue the save; a burst of changes is written once
+        persistNotes(updatedNotes);
+        // Earlier versions would otherwise stay readable without the PIN
+        forgetHistory([id]);
+        forgetNoteActions([id]);
+        
+        const filtered = get().filterNotes(updatedNotes);
+        return { 
+          notes: updatedNotes,
+          filteredNotes: filtered
+        };
+      });
+      updateUndoState(get().undoNotice);
+      
+      // Older copies in snapshots would otherwise stay readable
+      await sealNoteInSnapshots({ ...note, ...sealed }, vaultKeys)
+        .catch(error => logger.error('Error locking note in snapshots:', error));
+      return true;
+    } catch (error) {
+      logger.error('Error locking note:', error);
+      return false;
+    }
+  },
+
+  // Decrypt a locked note for viewing and editing. Resolves to null for a
+  // wrong PIN; nothing is changed.
+  openLockedNote: async (id, pin) => {
+    const note = get().notes.find(note => note.id === id);
+    if (!note) return null;
+    
+    try {
+      return await openLockedContent(note, pin);
+    } catch (error) {
+      logger.error('Error opening locked note:', error);
+      return null;
+    }
+  },
+
+  closeLockedNote: (id) => {
+    closeLockedNote(id);
+  },
+
+  // Store an open locked note's content in plaintext again
+  removeNoteLock: (id) => {
+    if (isReadOnly('removeNoteLock')) return false;
+    
+    const note = get().notes.find(note => note.id === id);
+    if (!note || !note.lock) return false;
+    
+    try {
+      const content = getReadableContent(note);
+      logger.log('Removing lock from note:', id);
+      
+      set(state => {
+        const updatedNotes = state.notes.map(note => {
+          if (note.id !== id) return note;
+          const { lock, ...unlockedNote } = note;
+          return { ...unlockedNote, content };
+        });
+        
+        // Queue the save; a burst of changes is written once
+        persistNotes(updatedNotes);
+        
+        const filtered = get().filterNotes(updatedNotes);
+        return { 
+          notes: updatedNotes,
+          filteredNotes: filtered
+        };
+      });
+      closeLockedNote(id);
+      return true;
+    } catch (error) {
+      logger.error('Error removing note lock:', error);
+      return false;
+    }
+  },
+
+  takeSnapshot: async () => {
+    const info = await saveSnapshot('manual');
+    return info !== null;
+  },
+
+  readSnapshot: (info, passphrase) => readSnapshot(info, vaultKeys, passphrase),
+
+  // Replace the notes with a snapshot's, or merge them in. The current
+  // notes are snapshotted first so the restore itself can be undone.
+  restoreSnapshot: async (info, mode, passphrase) => {
+    if (isReadOnly('restoreSnapshot')) return false;
+    
+    try {
+      const data = await readSnapshot(info, vaultKeys, passphrase);
+      if (!await saveSnapshot('restore')) {
+        logger.error('Not restoring without a snapshot of the current notes');
+        return false;
+      }
+      
+      const { notes, tags } = get();
+      const restoredNotes = mode === 'replace'
+        ? data.notes
+        : mergeSnapshotNotes(notes, data.notes);
+      
+      logger.log(`Restoring snapshot ${info.id} (${mode}) with`, restoredNotes.length, 'notes');
+      
+      // Snapshots may predate the current schema
+      const migratedNotes = await upgradeNotes(restoredNotes);
+      const restoredTags = copiedTags(mode === 'replace' ? [] : tags, data.customCategories, migratedNotes);
+      
+      persistNotes(migratedNotes);
+      queueWrite('tags', () => saveTags(restoredTags));
+      set({ 
+        notes: migratedNotes,
+        tags: restoredTags
+      });
+      set({ filteredNotes: get().filterNotes(migratedNotes) });
+      return true;
+    } catch (error) {
+      logger.error('Error restoring snapshot:', error);
+      return false;
+    }
+  },
+
+  setSnapshotRetention: (count) => {
+    queueWrite('snapshotRetention', () => saveSnapshotRetention(count));
+    set({ snapshotRetention: count });
+    pruneSnapshots(count).catch(error => logger.error('Error pruning snapshots:', error));
+  },
+
+  exportBackup: async () => {
+    try {
+      const { notes, tags, tagStyles, isDarkMode } = get();
+      return await writeBackupFile(
+        { notes, customCategories: tags, settings: { isDarkMode, tagStyles } },
+        vaultKeys
+      );
+    } catch (error) {
+      logger.error('Error exporting backup:', error);
+      return null;
+    }
+  },
+
+  openBackup: (archive, passphrase) => openBackupContents(archive, vaultKeys, passphrase),
+
+  // Replace the notes with a backup's, or merge them in. Like restoring a
+  // snapshot, the current notes are snapshotted first.
+  importBackup: async (manifest, contents, mode) => {
+    if (isReadOnly('importBackup')) return false;
+
+    try {
+      if (snapshotsSupported() && !await saveSnapshot('import')) {
+        logger.error('Not importing without a snapshot of the current notes');
+        return false;
+      }
+
+      const { notes, tags } = get();
+      const importedNotes = mode === 'replace'
+        ? contents.notes
+        : mergeBackupNotes(notes, contents.notes, generateId);
+
+      logger.log(`Importing backup from ${manifest.createdAt} (${mode}) with`, importedNotes.length, 'notes');
+
+      const restoredNotes = await restoreBackupAttachments(importedNotes, contents.attachments);
+      // Backups may predate the current schema
+      const migratedNotes = await upgradeNotes(restoredNotes);
+      const importedTags = copiedTags(mode === 'replace' ? [] : tags, contents.customCategories, migratedNotes);
+
+      persistNotes(migratedNotes);
+      queueWrite('tags', () => saveTags(importedTags));
+      // Merging keeps the current look of tags both have
+      const copiedStyles = cleanTagStyles(contents.settings.tagStyles);
+      const importedStyles = mode === 'replace'
+        ? copiedStyles
+        : { ...copiedStyles, ...get().tagStyles };
+      queueWrite('tagStyles', () => saveTagStyles(importedStyles));
+      if (mode === 'replace') {
+        queueWrite('theme', () => saveTheme(contents.settings.isDarkMode));
+        set({ isDarkMode: contents.settings.isDarkMode });
+      }
+      set({
+        notes: migratedNotes,
+        tags: importedTags,
+        tagStyles: importedStyles
+      });
+      set({ filteredNotes: get().filterNotes(migratedNotes) });
+      return true;
+    } catch (error) {
+      logger.error('Error importing backup:', error);
+      return false;
+    }
+  },
+
+  pinNote: (id) => {
+    if (isReadOnly('pinNote')) return;
+    logger.log('Pinning note:', id);
+    changeNote(id, note => ({ ...note, isPinned: true }), 'Note pinned');
+  },
+
+  unpinNote: (id) => {
+    if (isReadOnly('unpinNote')) return;
+    logger.log('Unpinning note:', id);
+    changeNote(id, note => ({ ...note, isPinned: false }), 'Note unpinned');
+  },
+
+  setActiveTags: (tags) => {
+    set({ activeTags: tags, showUntagged: false });
+    set({ filteredNotes: get().filterNotes() });
+  },
+
+  toggleActiveTag: (tag) => {
+    const { activeTags } = get();
+    get().setActiveTags(
+      activeTags.includes(tag) ? activeTags.filter(active => active !== tag) : [...activeTags, tag]
+    );
+  },
+
+  // Untagged notes are shown on their own, so any tag filter is cleared
+  setShowUntagged: (show) => {
+    set({ showUntagged: show, activeTags: [] });
+    set({ filteredNotes: get().filterNotes() });
+  },
+
+  setTagFilterMode: (mode) => {
+    set({ tagFilterMode: mode });
+    set({ filteredNotes: get().filterNotes() });
   },
 
   setSearchQuery: (query) => {
@@ -554,23 +1821,22 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   filterNotes: (notesArray?: Note[]) => {
-    const { notes: storeNotes, activeCategory, searchQuery } = get();
+    const { notes: storeNotes, activeTags, tagFilterMode, showUntagged, searchQuery } = get();
     const notes = notesArray || storeNotes;
     
-    // First filter by active category and deleted status
-    let filtered = notes.filter(note => !note.isDeleted);
+    // First filter by active tags and deleted status
+    let filtered = notes.filter(note =>
+      !note.isDeleted &&
+      (showUntagged ? note.tags.length === 0 : matchesTags(note, activeTags, tagFilterMode))
+    );
     
-    if (activeCategory !== 'all') {
-      filtered = filtered.filter(note => note.category === activeCategory);
-    }
-    
-    // Then filter by search query
+    // Then filter by search query. Locked notes only match by title.
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(
         note => 
           note.title.toLowerCase().includes(query) || 
-          note.content.toLowerCase().includes(query)
+          (!note.lock && note.content.toLowerCase().includes(query))
       );
     }
     
@@ -585,4 +1851,9 @@ export const useStore = create<AppState>((set, get) => ({
     
     return filtered;
   }
-})); 
\ No newline at end of file
+}));
+
+// Mirror the write queue's progress into the store for the UI
+onPersistenceStatusChange(persistenceStatus => {
+  useStore.setState({ persistenceStatus });
+});
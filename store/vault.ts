@@ -0,0 +1,129 @@
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { base64 } from '@scure/base';
+import * as Crypto from 'expo-crypto';
+import { KdfParams } from '../types';
+import { NoteRepository, SETTINGS_KEYS } from './repository';
+import { logger } from './logger';
+
+// Sealed values are prefixed so plaintext written before the vault was
+// enabled (or by an interrupted re-encryption) can still be told apart
+const SEALED_PREFIX = 'vault:v1:';
+
+// Known plaintext sealed into the header to check a passphrase
+const CHECK_TEXT = 'noteease-vault-check';
+
+// scrypt cost, stored in the header so it can be raised for new vaults
+// without breaking existing ones. ~16 MB and around a second on a phone.
+const DEFAULT_KDF = { N: 2 ** 14, r: 8, p: 1 };
+
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+const KEY_BYTES = 32;
+
+// Stored in plaintext next to the encrypted data
+export interface VaultHeader {
+  version: 1;
+  kdf: KdfParams;
+  check: string;
+  // Key from before a passphrase change, sealed with the new key. Only
+  // present until every record has been re-encrypted.
+  previousKey?: string;
+}
+
+export interface VaultKeys {
+  key: Uint8Array;
+  // How `key` was derived, so its passphrase can re-derive it later
+  kdf: KdfParams;
+  previousKey?: Uint8Array;
+}
+
+// Fresh salt with the default cost
+export const createKdfParams = (): KdfParams => ({
+  name: 'scrypt',
+  ...DEFAULT_KDF,
+  salt: base64.encode(Crypto.getRandomBytes(SALT_BYTES)),
+});
+
+export const deriveKey = (passphrase: string, kdf: KdfParams) =>
+  scryptAsync(utf8ToBytes(passphrase.normalize('NFKC')), base64.decode(kdf.salt), {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+    dkLen: KEY_BYTES,
+  });
+
+export const isSealed = (value: string) => value.startsWith(SEALED_PREFIX);
+
+// Encrypt with XChaCha20-Poly1305 under a fresh random nonce
+export const seal = (key: Uint8Array, plaintext: string) => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+  const payload = new Uint8Array(nonce.length + ciphertext.length);
+  payload.set(nonce);
+  payload.set(ciphertext, nonce.length);
+  return SEALED_PREFIX + base64.encode(payload);
+};
+
+// Decrypt a sealed value. Throws if the key is wrong or the data was altered.
+export const open = (key: Uint8Array, sealed: string) => {
+  if (!isSealed(sealed)) {
+    throw new Error('Value is not sealed');
+  }
+  const payload = base64.decode(sealed.slice(SEALED_PREFIX.length));
+  const nonce = payload.subarray(0, NONCE_BYTES);
+  const ciphertext = payload.subarray(NONCE_BYTES);
+  return bytesToUtf8(xchacha20poly1305(key, nonce).decrypt(ciphertext));
+};
+
+// Try the current key, then the one from before a passphrase change
+export const openWithKeys = ({ key, previousKey }: VaultKeys, sealed: string) => {
+  try {
+    return { plaintext: open(key, sealed), stale: false };
+  } catch (error) {
+    if (!previousKey) throw error;
+    return { plaintext: open(previousKey, sealed), stale: true };
+  }
+};
+
+// New header and key for a passphrase. `previousKey` is carried over while
+// existing records are re-encrypted after a passphrase change.
+export const createVault = async (passphrase: string, previousKey?: Uint8Array) => {
+  const kdf = createKdfParams();
+  const key = await deriveKey(passphrase, kdf);
+  const header: VaultHeader = {
+    version: 1,
+    kdf,
+    check: seal(key, CHECK_TEXT),
+  };
+  if (previousKey) {
+    header.previousKey = seal(key, base64.encode(previousKey));
+  }
+  return { header, keys: { key, kdf, previousKey } as VaultKeys };
+};
+
+// Derive the keys for a passphrase, or null if it's the wrong one. Never
+// throws for a wrong passphrase so callers can't mistake it for damage.
+export const deriveVaultKeys = async (header: VaultHeader, passphrase: string): Promise<VaultKeys | null> => {
+  const key = await deriveKey(passphrase, header.kdf);
+  try {
+    if (open(key, header.check) !== CHECK_TEXT) return null;
+  } catch {
+    logger.log('Vault check failed, wrong passphrase');
+    return null;
+  }
+  const keys: VaultKeys = { key, kdf: header.kdf };
+  if (header.previousKey) {
+    keys.previousKey = base64.decode(open(key, header.previousKey));
+  }
+  return keys;
+};
+
+export const loadVaultHeader = async (repository: NoteRepository): Promise<VaultHeader | null> => {
+  const headerString = await repository.getSetting(SETTINGS_KEYS.vault);
+  return headerString ? JSON.parse(headerString) : null;
+};
+
+export const saveVaultHeader = (repository: NoteRepository, header: VaultHeader) =>
+  repository.setSetting(SETTINGS_KEYS.vault, JSON.stringify(header));
@@ -1,4 +1,5 @@
-export type NoteCategory = 'all' | 'personal' | 'work' | 'family' | string;
+// Whether a tag filter matches notes with any of the tags or all of them
+export type TagFilterMode = 'any' | 'all';
 
 export interface Note {
   id: string;
@@ -6,42 +7,337 @@ export interface Note {
   content: string;
   createdAt: string;
   updatedAt: string;
-  category: NoteCategory;
+  tags: string[];
   isPinned: boolean;
   isDeleted: boolean;
+  // When the note was moved to the trash, for purging it once expired
+  deletedAt?: string;
+  schemaVersion: number;
+  // Set on locked notes, whose `content` is then sealed with a PIN
+  lock?: NoteLock;
+}
+
+// Key derivation settings stored next to anything sealed with a passphrase or PIN
+export interface KdfParams {
+  name: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+}
+
+export interface NoteLock {
+  kdf: KdfParams;
+  // Attachments referenced by the sealed content, so they aren't collected
+  attachmentIds: string[];
 }
 
 export interface InitResult {
   notes: Note[];
   isDarkMode: boolean;
-  customCategories: string[];
+  tags: string[];
   storageError?: boolean;
   errorMessage?: string;
+  // Notes salvaged when damaged data put the app into recovery mode
+  recoveredNotes?: number;
+  quarantinedEntries?: number;
+  storageWarningThreshold?: number;
+  // Set when the vault has to be unlocked before notes can be loaded
+  vaultLocked?: boolean;
+  snapshotRetention?: number;
+  tagStyles?: Record<string, TagStyle>;
+  trashRetentionDays?: number | null;
+}
+
+// How a tag looks. Unset parts come from the tag it's nested under, then
+// from the theme.
+export interface TagStyle {
+  lightColor?: string;
+  darkColor?: string;
+  // An Ionicons name
+  icon?: string;
+}
+
+export interface NoteStorageUsage {
+  noteId: string;
+  title: string;
+  tags: string[];
+  isDeleted: boolean;
+  isLocked: boolean;
+  // Size of the note's own record, including any inline images
+  recordBytes: number;
+  inlineImageBytes: number;
+  attachmentBytes: number;
+  imageCount: number;
+  totalBytes: number;
+}
+
+export interface StorageUsage {
+  // Sorted largest first
+  notes: NoteStorageUsage[];
+  // A note counts toward each of its tags; untagged notes are under ''
+  tags: { tag: string; noteCount: number; bytes: number }[];
+  trash: { noteCount: number; bytes: number };
+  // Notes database size, which is what the warning threshold applies to
+  recordBytes: number;
+  attachmentBytes: number;
+  totalBytes: number;
+}
+
+export interface StorageWarning {
+  usedBytes: number;
+  thresholdBytes: number;
+}
+
+export type SnapshotReason = 'daily' | 'migration' | 'reset' | 'restore' | 'import' | 'recovery' | 'manual';
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  noteCount: number;
+  // Size of the snapshot file
+  bytes: number;
+  // Attachments the snapshot refers to, kept while it is retained
+  attachmentIds: string[];
+  // Set when the snapshot is sealed with the vault key, so the passphrase
+  // it was taken under can still open it after a reset
+  vaultKdf?: KdfParams;
+}
+
+export interface SnapshotData {
+  notes: Note[];
+  // The tag list, named for the categories it replaced so older copies
+  // still read
+  customCategories: string[];
+}
+
+// Relative to the current notes
+export interface SnapshotDiff {
+  added: Note[];
+  removed: Note[];
+  changed: Note[];
+  unchanged: number;
+}
+
+export interface BackupManifest {
+  format: 'noteease-backup';
+  version: number;
+  createdAt: string;
+  noteCount: number;
+  attachmentCount: number;
+  // SHA-256 of each section, checked before anything is imported
+  checksums: {
+    notes: string;
+    customCategories: string;
+    settings: string;
+    attachments: Record<string, string>;
+  };
+  // Set when the contents are sealed with the vault key
+  vaultKdf?: KdfParams;
+}
+
+export interface BackupContents {
+  notes: Note[];
+  // The tag list, as in SnapshotData
+  customCategories: string[];
+  settings: {
+    isDarkMode: boolean;
+    // Missing from backups made before tags had styles
+    tagStyles?: Record<string, TagStyle>;
+  };
+  // Base64 file data keyed by attachment id
+  attachments: Record<string, string>;
+}
+
+// An archive as read from disk, contents still sealed if encrypted
+export interface BackupArchive {
+  manifest: BackupManifest;
+  contents: BackupContents | string;
+}
+
+// How a backup's notes relate to the current ones
+export interface BackupSummary {
+  added: Note[];
+  // The backup copy is newer
+  updated: Note[];
+  // The current copy is newer; merging keeps both
+  conflicting: Note[];
+  unchanged: number;
+}
+
+// A note before the store gives it an id and timestamps
+export type NewNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt' | 'schemaVersion'>;
+
+// A note read from another app keeps its own timestamps, and an id derived
+// from its source so importing the same archive again adds nothing
+export type ImportedNote = NewNote & Partial<Pick<Note, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// One note in an import, with where it came from or why it failed
+export interface ImportPreviewItem {
+  fileName: string;
+  note: ImportedNote | null;
+  error: string | null;
+  // Something that was read but couldn't be kept, e.g. a missing image
+  warning?: string;
+}
+
+export type RevisionReason = 'created' | 'edited' | 'restored';
+
+// A saved version of a note's title, content and tags
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  savedAt: string;
+  reason: RevisionReason;
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+// One line of a text diff between two versions
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// A note as it was before and after an action; null where it didn't exist
+export interface NoteChange {
+  before: Note | null;
+  after: Note | null;
+}
+
+// A tag added to or removed from the tag list, and where it was in it
+export interface TagChange {
+  tag: string;
+  index: number;
+  added: boolean;
+}
+
+// One step of the session's undo history
+export interface UndoableAction {
+  id: string;
+  label: string;
+  at: string;
+  noteChanges: NoteChange[];
+  tagChanges: TagChange[];
+  // Set for a reset, which is undone from the snapshot taken before it
+  resetSnapshot?: SnapshotInfo;
+}
+
+// Offered for a few seconds after a destructive action, or after undoing one
+export interface UndoNotice {
+  actionId: string;
+  message: string;
+  action: 'undo' | 'redo';
+}
+
+export interface PersistenceStatus {
+  state: 'idle' | 'saving' | 'error';
+  // ISO timestamp of the last flush that fully reached disk
+  lastSavedAt: string | null;
+  error?: string;
 }
 
 export interface AppState {
   notes: Note[];
   filteredNotes: Note[];
-  activeCategory: NoteCategory;
+  // Notes are shown with any or all of these tags; every note when empty
+  activeTags: string[];
+  tagFilterMode: TagFilterMode;
+  // Only notes without tags are shown, in place of a tag filter
+  showUntagged: boolean;
   searchQuery: string;
   isDarkMode: boolean;
   isInitialized: boolean;
-  customCategories: string[];
-  initialNoteCategory: NoteCategory | null;
+  // Every tag offered in the app, in the user's order
+  tags: string[];
+  tagStyles: Record<string, TagStyle>;
+  // Read-only mode entered when stored data was damaged on load
+  recoveryMode: boolean;
+  persistenceStatus: PersistenceStatus;
+  storageWarningThreshold: number;
+  // Set once the notes database grows past the warning threshold
+  storageWarning: StorageWarning | null;
+  // Notes and settings are encrypted with a key derived from a passphrase
+  vaultEnabled: boolean;
+  // Waiting for the passphrase; nothing is loaded or written until unlocked
+  vaultLocked: boolean;
+  // Number of snapshots kept before the oldest are deleted
+  snapshotRetention: number;
+  // Days trashed notes are kept before being purged; null keeps them
+  trashRetentionDays: number | null;
+  // Tags a new note starts with, e.g. from a quick action
+  initialNoteTags: string[] | null;
+  // Labels of the next steps to undo and redo, null when there are none
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undoNotice: UndoNotice | null;
   resetAppData?: () => Promise<boolean>;
   initialize?: () => Promise<InitResult | void>;
+  finishRecovery: () => Promise<boolean>;
+  discardRecoveryData: () => Promise<boolean>;
+  // Vault actions resolve to false for a wrong passphrase or failed write
+  unlockVault: (passphrase: string) => Promise<boolean>;
+  enableVault: (passphrase: string) => Promise<boolean>;
+  changeVaultPassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<boolean>;
+  disableVault: (passphrase: string) => Promise<boolean>;
   toggleTheme: () => void;
-  addNote: (note: Omit<Note, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  addNote: (note: NewNote) => void;
+  importNotes: (notes: ImportedNote[]) => Promise<number>;
   updateNote: (id: string, noteUpdates: Partial<Note>) => void;
   deleteNote: (id: string) => void;
   restoreNote: (id: string) => void;
   permanentlyDeleteNote: (id: string) => void;
+  emptyTrash: () => void;
+  // Bulk trash actions, each undone in one step
+  restoreNotes: (ids: string[]) => void;
+  permanentlyDeleteNotes: (ids: string[]) => void;
+  setTrashRetention: (days: number | null) => void;
+  // Permanently delete trashed notes kept past the retention period
+  purgeExpiredTrash: () => void;
+  compressNoteImages: (id: string) => Promise<boolean>;
+  // Newest first; empty for locked notes, which keep no history
+  getNoteHistory: (id: string) => Promise<NoteRevision[]>;
+  restoreRevision: (id: string, revisionId: string) => Promise<boolean>;
+  // Given an action id, only that action is undone or redone, if it's next
+  undo: (actionId?: string) => Promise<boolean>;
+  redo: (actionId?: string) => Promise<boolean>;
+  dismissUndoNotice: () => void;
+  setStorageWarningThreshold: (bytes: number) => void;
+  takeSnapshot: () => Promise<boolean>;
+  // Throws if the snapshot is encrypted and can't be opened
+  readSnapshot: (info: SnapshotInfo, passphrase?: string) => Promise<SnapshotData>;
+  restoreSnapshot: (info: SnapshotInfo, mode: 'replace' | 'merge', passphrase?: string) => Promise<boolean>;
+  setSnapshotRetention: (count: number) => void;
+  // Resolves to the archive's file URI, or null if it couldn't be written
+  exportBackup: () => Promise<string | null>;
+  // Throws if the archive is encrypted and can't be opened, or is damaged
+  openBackup: (archive: BackupArchive, passphrase?: string) => Promise<BackupContents>;
+  importBackup: (manifest: BackupManifest, contents: BackupContents, mode: 'replace' | 'merge') => Promise<boolean>;
+  // Note locks resolve to false (or null content) for a wrong PIN
+  lockNote: (id: string, pin: string) => Promise<boolean>;
+  openLockedNote: (id: string, pin: string) => Promise<string | null>;
+  closeLockedNote: (id: string) => void;
+  removeNoteLock: (id: string) => boolean;
   pinNote: (id: string) => void;
   unpinNote: (id: string) => void;
-  setActiveCategory: (category: NoteCategory) => void;
+  setActiveTags: (tags: string[]) => void;
+  toggleActiveTag: (tag: string) => void;
+  setShowUntagged: (show: boolean) => void;
+  setTagFilterMode: (mode: TagFilterMode) => void;
   setSearchQuery: (query: string) => void;
   filterNotes: (notesArray?: Note[]) => Note[];
-  addCustomCategory: (category: string) => void;
-  removeCustomCategory: (category: string) => void;
-  setInitialNoteCategory: (category: NoteCategory | null) => void;
+  addTag: (tag: string) => void;
+  adoptOrphanTags: () => void;
+  deleteTag: (tag: string, replacement: string | null) => void;
+  renameTag: (tag: string, newTag: string) => boolean;
+  mergeTag: (tag: string, into: string) => boolean;
+  reorderTag: (tag: string, offset: -1 | 1) => void;
+  // Null goes back to the default look
+  setTagStyle: (tag: string, style: TagStyle | null) => void;
+  // Moves a tag and everything under it below another tag, or to the top
+  // level for null, on the list and on every note. False if it can't go there.
+  moveTag: (tag: string, parent: string | null) => boolean;
+  setInitialNoteTags: (tags: string[] | null) => void;
 } 
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Tag chips show white text, so their colors must be dark enough to read
+ * it on. 4.5:1 is the WCAG AA ratio for text at this size.
+ */
+export const MIN_TAG_CONTRAST = 4.5;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Whether a value is a full "#RRGGBB" color, the only form tag colors are
+ * stored in
+ */
+export const isTagColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+/**
+ * Normalize "#abc" or "#AABBCC" to "#AABBCC", or null if it isn't a hex color
+ */
+export const parseHexColor = (value: string) => {
+  const trimmed = value.trim();
+  if (!HEX_COLOR.test(trimmed)) return null;
+  const digits = trimmed.length === 4
+    ? trimmed.slice(1).split('').map(digit => digit + digit).join('')
+    : trimmed.slice(1);
+  return '#' + digits.toUpperCase();
+};
+
+const toChannels = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [value >> 16, (value >> 8) & 0xFF, value & 0xFF];
+};
+
+const relativeLuminance = (hex: string) => {
+  const [r, g, b] = toChannels(hex).map(channel => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: string, b: string) => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+/**
+ * Darken a color step by step until white text on it is readable
+ */
+export const ensureContrast = (hex: string, minimum = MIN_TAG_CONTRAST) => {
+  let channels = toChannels(hex);
+  let color = hex.toUpperCase();
+  while (contrastRatio(color, '#FFFFFF') < minimum && channels.some(channel => channel > 0)) {
+    channels = channels.map(channel => Math.floor(channel * 0.92));
+    color = '#' + channels.map(channel => ('0' + channel.toString(16)).slice(-2)).join('').toUpperCase();
+  }
+  return color;
+};
@@ -58,20 +58,20 @@ export const initializeQuickActions = async () => {
 export const handleQuickAction = (action: QuickActions.Action) => {
   if (!action?.id) return;
 
-  const { setInitialNoteCategory, setSearchQuery } = useStore.getState();
+  const { setInitialNoteTags, setSearchQuery } = useStore.getState();
   const type = action.id as QuickActionType;
 
   switch (type) {
     case 'new_note':
-      setInitialNoteCategory(null);
+      setInitialNoteTags(null);
       router.push('/note/new');
       break;
     case 'personal_note':
-      setInitialNoteCategory('personal');
+      setInitialNoteTags(['personal']);
       router.push('/note/new');
       break;
     case 'work_note':
-      setInitialNoteCategory('work');
+      setInitialNoteTags(['work']);
       router.push('/note/new');
       break;
     case 'search':